@@ -0,0 +1,189 @@
+import { createWriteStream, readFileSync } from 'node:fs'
+import { once } from 'node:events'
+import { parseArgs } from 'node:util'
+import type { Writable } from 'node:stream'
+import { BOUNDARY_MODES, type BoundaryMode } from '../boundary'
+import { NEIGHBORHOODS, type Neighborhood } from '../neighborhood'
+import { PARAM_SPECS, type PhysicsParam, type PhysicsParams } from '../params'
+import { formatRule, parseRule } from '../rules'
+import {
+  DEFAULT_SWEEP,
+  formatHeader,
+  formatRow,
+  runSweep,
+  sweepPoints,
+  type SweepConfig,
+  type SweepFormat,
+} from './sweep'
+
+// Node entry point for parameter sweeps: `npm run sweep -- <options>` (see USAGE)
+
+const USAGE = `usage: npm run sweep -- [options]
+
+  --config <file>         JSON with any SweepConfig fields; flags below override it
+  --param <name>=<values> swept physics parameter, repeatable; values are a list (0,10,20)
+                          or an inclusive range start:stop:step (0:50:10)
+  --set <name>=<value>    fixed physics parameter for every run, repeatable
+  --ticks <n>             ticks per run (default ${DEFAULT_SWEEP.ticks})
+  --every <n>             emit every n-th tick (default ${DEFAULT_SWEEP.every})
+  --width <n>, --height <n>
+  --density <0..1>        initial random fill (default ${DEFAULT_SWEEP.density})
+  --seeds <list|range>    run seeds, every point runs once per seed (default ${DEFAULT_SWEEP.seeds})
+  --mode <LCR|Conway>, --rule <B/S>, --boundary <mode>, --neighborhood <name>
+  --format <csv|jsonl>    default: from the --out extension, else csv
+  --out <file>            default: stdout
+
+parameters: ${PARAM_SPECS.map((s) => s.param).join(', ')}
+example: npm run sweep -- --param move_cost_milli=0:50:10 --param energy_leak_milli=10,20,40 --ticks 1000 --out sweep.csv`
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`)
+  process.exit(1)
+}
+
+function parseNumber(flag: string, text: string): number {
+  const v = Number(text)
+  if (text.trim() === '' || !Number.isFinite(v)) fail(`${flag}: not a number: ${text}`)
+  return v
+}
+
+// "0,10,20" or "0:50:10"
+function parseValues(flag: string, text: string): number[] {
+  const range = text.split(':')
+  if (range.length === 3) {
+    const [start, stop, step] = range.map((t) => parseNumber(flag, t))
+    if (step <= 0) fail(`${flag}: range step must be positive`)
+    const out: number[] = []
+    for (let v = start; v <= stop; v += step) out.push(v)
+    return out
+  }
+  return text.split(',').map((t) => parseNumber(flag, t))
+}
+
+function parseAssignment(flag: string, text: string): [PhysicsParam, string] {
+  const eq = text.indexOf('=')
+  if (eq < 0) fail(`${flag} expects <name>=<value>, got ${text}`)
+  const name = text.slice(0, eq).trim()
+  if (!PARAM_SPECS.some((s) => s.param === name)) fail(`${flag}: unknown parameter ${name}`)
+  return [name as PhysicsParam, text.slice(eq + 1)]
+}
+
+function parseConfig(argv: string[]): { config: SweepConfig; format: SweepFormat; out: string | null } {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      config: { type: 'string' },
+      param: { type: 'string', multiple: true },
+      set: { type: 'string', multiple: true },
+      ticks: { type: 'string' },
+      every: { type: 'string' },
+      width: { type: 'string' },
+      height: { type: 'string' },
+      density: { type: 'string' },
+      seeds: { type: 'string' },
+      mode: { type: 'string' },
+      rule: { type: 'string' },
+      boundary: { type: 'string' },
+      neighborhood: { type: 'string' },
+      format: { type: 'string' },
+      out: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+  if (values.help) {
+    console.error(USAGE)
+    process.exit(0)
+  }
+
+  let config: SweepConfig = { ...DEFAULT_SWEEP }
+  if (values.config) {
+    try {
+      config = { ...config, ...JSON.parse(readFileSync(values.config, 'utf8')) }
+    } catch (err) {
+      fail(`--config: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+  const axes = { ...config.axes }
+  for (const text of values.param ?? []) {
+    const [name, list] = parseAssignment('--param', text)
+    axes[name] = parseValues('--param', list)
+  }
+  const base: Partial<PhysicsParams> = { ...config.base }
+  for (const text of values.set ?? []) {
+    const [name, value] = parseAssignment('--set', text)
+    base[name] = parseNumber('--set', value)
+  }
+  config = { ...config, axes, base }
+
+  if (values.ticks) config.ticks = parseNumber('--ticks', values.ticks)
+  if (values.every) config.every = parseNumber('--every', values.every)
+  if (values.width) config.width = parseNumber('--width', values.width)
+  if (values.height) config.height = parseNumber('--height', values.height)
+  if (values.density) config.density = parseNumber('--density', values.density)
+  if (values.seeds) config.seeds = parseValues('--seeds', values.seeds)
+  if (values.mode) config.mode = values.mode as SweepConfig['mode']
+  if (values.rule) config.rule = values.rule
+  if (values.boundary) config.boundary = values.boundary as BoundaryMode
+  if (values.neighborhood) config.neighborhood = values.neighborhood as Neighborhood
+
+  if (config.mode !== 'LCR' && config.mode !== 'Conway') fail(`invalid mode: ${config.mode}`)
+  if (!BOUNDARY_MODES.some((b) => b.mode === config.boundary)) fail(`invalid boundary: ${config.boundary}`)
+  if (!NEIGHBORHOODS.some((n) => n.neighborhood === config.neighborhood)) {
+    fail(`invalid neighborhood: ${config.neighborhood}`)
+  }
+  for (const v of [config.width, config.height]) {
+    if (!Number.isInteger(v) || v < 1) fail('grid width and height must be positive integers')
+  }
+  try {
+    config.rule = formatRule(parseRule(config.rule))
+  } catch (err) {
+    fail(err instanceof Error ? err.message : String(err))
+  }
+
+  const out = values.out ?? null
+  const format = (values.format ?? (out?.endsWith('.jsonl') ? 'jsonl' : 'csv')) as SweepFormat
+  if (format !== 'csv' && format !== 'jsonl') fail(`invalid format: ${format}`)
+  return { config, format, out }
+}
+
+async function writeLine(stream: Writable, line: string): Promise<void> {
+  if (!stream.write(line + '\n')) await once(stream, 'drain')
+}
+
+async function main(): Promise<void> {
+  const { config, format, out } = parseConfig(process.argv.slice(2))
+
+  let points: number
+  try {
+    points = sweepPoints(config).length
+  } catch (err) {
+    fail(err instanceof Error ? err.message : String(err))
+  }
+  const runs = points * config.seeds.length
+  console.error(`sweep: ${points} points x ${config.seeds.length} seeds, ${config.ticks} ticks each`)
+
+  const stream: Writable = out ? createWriteStream(out) : process.stdout
+  const header = formatHeader(config, format)
+  if (header) await writeLine(stream, header)
+
+  const started = Date.now()
+  let lastRun = -1
+  // simulator messages go to stderr with the progress lines; stdout is for data
+  for await (const row of runSweep(config, console.error)) {
+    if (row.run !== lastRun) {
+      lastRun = row.run
+      console.error(`run ${row.run + 1}/${runs} (seed ${row.seed})`)
+    }
+    await writeLine(stream, formatRow(config, row, format))
+  }
+  if (out) {
+    stream.end()
+    await once(stream, 'finish')
+  }
+  console.error(`sweep done in ${((Date.now() - started) / 1000).toFixed(1)}s${out ? `, wrote ${out}` : ''}`)
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err)
+  process.exit(1)
+})
@@ -0,0 +1,125 @@
+import { CPU, type SimLogger } from '../cpu/CPU'
+import type { Stats } from '../webgpu/types'
+import { HISTORY_FIELDS } from '../history'
+import { DEFAULT_RULE } from '../rules'
+import type { BoundaryMode } from '../boundary'
+import type { Neighborhood } from '../neighborhood'
+import { DEFAULT_PHYSICS, applyParams, type PhysicsParam, type PhysicsParams } from '../params'
+
+// headless parameter sweeps on the CPU reference (no React, no WebGPU, no WGSL imports).
+// every point of the cartesian product of `axes` is run once per seed from the seed's random
+// fill; rows carry the swept values plus the population stats, in the same columns as the
+// sidebar history CSV, so sweeps and interactive runs can be compared directly
+
+export interface SweepConfig {
+  width: number
+  height: number
+  ticks: number
+  every: number // emit a row every n ticks; the last tick is always emitted
+  density: number // initial random fill, 0..1
+  seeds: number[]
+  mode: 'LCR' | 'Conway'
+  rule: string
+  boundary: BoundaryMode
+  neighborhood: Neighborhood
+  base: Partial<PhysicsParams> // applied to every run
+  axes: Partial<Record<PhysicsParam, number[]>> // swept values, in column order
+}
+
+export const DEFAULT_SWEEP: SweepConfig = {
+  width: 128,
+  height: 128,
+  ticks: 500,
+  every: 1,
+  density: 0.3,
+  seeds: [1],
+  mode: 'LCR',
+  rule: DEFAULT_RULE,
+  boundary: 'torus',
+  neighborhood: 'moore',
+  base: {},
+  axes: {},
+}
+
+export interface SweepRow {
+  run: number // index of the (point, seed) pair, in execution order
+  seed: number
+  params: PhysicsParams
+  stats: Stats
+}
+
+// every parameter combination, validated up front so a bad point fails before hours of runs
+export function sweepPoints(config: SweepConfig): PhysicsParams[] {
+  const base = applyParams(DEFAULT_PHYSICS, config.base)
+  let points: Partial<PhysicsParams>[] = [{}]
+  for (const [param, values] of Object.entries(config.axes) as [PhysicsParam, number[]][]) {
+    if (values.length === 0) throw new Error(`Sweep axis ${param} has no values`)
+    points = points.flatMap((p) => values.map((v) => ({ ...p, [param]: v })))
+  }
+  return points.map((p) => applyParams(base, p))
+}
+
+// `log` receives the simulator's progress messages (console.log by default)
+export async function* runSweep(config: SweepConfig, log?: SimLogger): AsyncGenerator<SweepRow> {
+  if (!Number.isInteger(config.ticks) || config.ticks < 1) throw new Error('Sweep needs at least one tick')
+  if (!Number.isInteger(config.every) || config.every < 1) throw new Error('Sweep row interval must be a positive integer')
+  const points = sweepPoints(config)
+  let run = 0
+  for (const params of points) {
+    for (const seed of config.seeds) {
+      let stats: Stats | null = null
+      const sim = new CPU(
+        config.width,
+        config.height,
+        (s) => {
+          stats = s
+        },
+        log
+      )
+      await sim.init()
+      sim.setMode(config.mode)
+      sim.setRule(config.rule)
+      sim.setBoundary(config.boundary)
+      sim.setNeighborhood(config.neighborhood)
+      sim.setParams(params)
+      sim.setSeed(seed)
+      sim.randomize(config.density)
+      try {
+        for (let t = 1; t <= config.ticks; t++) {
+          await sim.step()
+          if (stats && (t % config.every === 0 || t === config.ticks)) {
+            yield { run, seed, params, stats }
+          }
+        }
+      } finally {
+        sim.destroy()
+      }
+      run++
+    }
+  }
+}
+
+// ----- output -----
+
+export type SweepFormat = 'csv' | 'jsonl'
+
+export function sweepColumns(config: SweepConfig): string[] {
+  return ['run', 'seed', ...Object.keys(config.axes), ...HISTORY_FIELDS]
+}
+
+function rowValues(config: SweepConfig, row: SweepRow): number[] {
+  const swept = (Object.keys(config.axes) as PhysicsParam[]).map((p) => row.params[p])
+  return [row.run, row.seed, ...swept, ...HISTORY_FIELDS.map((f) => row.stats[f])]
+}
+
+// header line for the format, or null when it has none
+export function formatHeader(config: SweepConfig, format: SweepFormat): string | null {
+  return format === 'csv' ? sweepColumns(config).join(',') : null
+}
+
+export function formatRow(config: SweepConfig, row: SweepRow, format: SweepFormat): string {
+  const values = rowValues(config, row)
+  if (format === 'csv') return values.map(String).join(',')
+  const columns = sweepColumns(config)
+  return JSON.stringify(Object.fromEntries(columns.map((c, i) => [c, values[i]])))
+}
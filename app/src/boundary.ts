@@ -0,0 +1,46 @@
+// grid boundary conditions, shared by the kernels (as a u32 uniform) and CPU-side coordinate helpers
+//  - torus:  coordinates wrap around (default)
+//  - dead:   cells beyond the edge read as empty/zero and cannot be entered
+//  - mirror: coordinates reflect at the edge (-1 -> 0, W -> W-1), zero-flux for diffusion
+
+export type BoundaryMode = 'torus' | 'dead' | 'mirror'
+
+export const BOUNDARY_MODES: { mode: BoundaryMode; label: string }[] = [
+  { mode: 'torus', label: 'Torus' },
+  { mode: 'dead', label: 'Dead border' },
+  { mode: 'mirror', label: 'Reflective' },
+]
+
+export const BOUNDARY_CODES: Record<BoundaryMode, number> = {
+  torus: 0,
+  dead: 1,
+  mirror: 2,
+}
+
+// index returned for coordinates that fall off a dead border
+export const OUTSIDE = -1
+
+export function resolveCoord(n: number, max: number, code: number): number {
+  switch (code) {
+    case 1:
+      return n < 0 || n >= max ? OUTSIDE : n
+    case 2: {
+      let v = n
+      if (v < 0) v = -v - 1
+      if (v >= max) v = 2 * max - v - 1
+      return Math.min(Math.max(v, 0), max - 1)
+    }
+    default: {
+      const r = n % max
+      return r < 0 ? r + max : r
+    }
+  }
+}
+
+// linear cell index under the boundary mode, or OUTSIDE
+export function resolveCell(col: number, row: number, width: number, height: number, code: number): number {
+  const x = resolveCoord(col, width, code)
+  const y = resolveCoord(row, height, code)
+  if (x === OUTSIDE || y === OUTSIDE) return OUTSIDE
+  return y * width + x
+}
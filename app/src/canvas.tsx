@@ -2,23 +2,71 @@ import React, { useRef, useEffect, useState, useCallback, useImperativeHandle }
 import { WebGPUManager } from './WebGPUManager';
 import { GPU, type Stats } from './gpu';
 import { type PatternName, getPatternCells, setPatterns } from './patterns';
+import { BOUNDARY_CODES, OUTSIDE, resolveCell, type BoundaryMode } from './boundary';
+import type { Neighborhood } from './neighborhood';
+import { DEFAULT_DISPLAY, type DisplaySettings } from './layers';
+import { DEFAULT_PHYSICS, type PhysicsParams } from './params';
+import { DEFAULT_SPECIES, type SpeciesConfig } from './species';
+import { DEFAULT_BRUSH, brushOffsets, sourcePreset, type Brush, type SourcePreset } from './sources';
+import { resampleSourceMap } from './presets';
+import type { SnapshotState } from './snapshot';
+import { UndoHistory, withSettings } from './timeline';
+import { mulberry32 } from './random';
+import { MOVEMENT_POLICIES, createMovementPolicy } from './policy/movement';
+import { MESSAGING_POLICIES, createMessagingPolicy } from './policy/messaging';
+import type { PolicyNet } from './policy/mlp';
+import type { ConformanceOptions, ConservationOptions } from './webgpu/conformance';
 
 interface CanvasProps{
     width?: number;
     height?: number;
     cellSize?: number;
     mode? : 'LCR' | 'Conway';
+    rule?: string;
+    boundary?: BoundaryMode;
+    neighborhood?: Neighborhood;
+    display?: DisplaySettings;
+    params?: PhysicsParams;
+    species?: SpeciesConfig;
+    drawSpecies?: number; // species of drawn cells and placed patterns
+    seed?: number;
+    movementPolicy?: string;
+    messagingPolicy?: string;
+    tool?: CanvasTool;
+    brush?: Brush;
     onStatsUpdate? : (stats: Stats) => void;
 }
 
+// what a mouse stroke edits: cell states, or the energy source map with the brush
+export type CanvasTool = 'cells' | 'source';
+
 export type CanvasHandler = {
   start: () => void;
   stop: () => void;
   toggle: () => void;
   reset: () => void;
   randomize: (density?: number) => void;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  getUndoState: () => { canUndo: boolean; canRedo: boolean };
+  setTimelineRecording: (enabled: boolean, interval?: number) => void;
+  getTimeline: () => number[];
+  rewindTo: (generation: number) => Promise<void>;
   setSpeed: (ms: number) => void;
   setMode: (mode: 'LCR' | 'Conway') => void;
+  setRule: (rule: string) => void;
+  setBoundary: (boundary: BoundaryMode) => void;
+  setNeighborhood: (neighborhood: Neighborhood) => void;
+  setSeed: (seed: number) => void;
+  applySourcePreset: (preset: SourcePreset, strength: number) => void;
+  getSourceMap: () => { map: Float32Array; width: number; height: number } | null;
+  loadSourceMap: (map: Float32Array, width: number, height: number) => void;
+  exportSnapshot: () => Promise<SnapshotState | null>;
+  loadSnapshot: (state: SnapshotState) => Promise<void>;
+  loadPolicyWeights: (net: PolicyNet) => void;
+  clearPolicyWeights: () => void;
+  setLineageTracking: (enabled: boolean) => Promise<void>;
+  exportLineage: () => string | null;
   getStats: () => Stats | null;
 }
 
@@ -27,6 +75,18 @@ export const Canvas = React.forwardRef<CanvasHandler, CanvasProps>(({
      height = 600, 
      cellSize = 4,
      mode = 'Conway',
+     rule,
+     boundary = 'torus',
+     neighborhood = 'moore',
+     display = DEFAULT_DISPLAY,
+     params = DEFAULT_PHYSICS,
+     species = DEFAULT_SPECIES,
+     drawSpecies = 0,
+     seed = 0,
+     movementPolicy = MOVEMENT_POLICIES[0].name,
+     messagingPolicy = MESSAGING_POLICIES[0].name,
+     tool = 'cells',
+     brush = DEFAULT_BRUSH,
      onStatsUpdate = () => {}
 }, ref) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -37,7 +97,7 @@ export const Canvas = React.forwardRef<CanvasHandler, CanvasProps>(({
 
     // drawing
     const [isDragging, setIsDragging] = useState(false);
-    const drawingStateRef = useRef<0 | 1>(1);
+    const drawingStateRef = useRef<number>(1);
     const [mousePos, setMousePos] = useState<{col: number; row: number} | null>(null);
 
     // pattern (to be migrated into sidebar controls)
@@ -46,44 +106,59 @@ export const Canvas = React.forwardRef<CanvasHandler, CanvasProps>(({
     const gridWidth = Math.floor(width / cellSize);
     const gridHeight = Math.floor(height / cellSize);
 
-    //cached grid and coordination
-    const gridDataRef = useRef<Uint32Array | null>(null);
-    const fetchInFlightRef = useRef<Promise<void> | null>(null);
-    const pendingGenRef = useRef<number | null>(null);
+    const overlayRef = useRef<HTMLCanvasElement>(null);
+    const displayRef = useRef(display);
+    const seedRef = useRef(seed);
+    const speciesRef = useRef(species);
+    const movementPolicyRef = useRef(movementPolicy);
+    const messagingPolicyRef = useRef(messagingPolicy);
+
+    // source map / snapshot waiting for a resize to land (presets and snapshots change grid size
+    // and state together)
+    const pendingSourceRef = useRef<{ map: Float32Array; width: number; height: number } | null>(null);
+    const pendingSnapshotRef = useRef<{ state: SnapshotState; resolve: () => void; reject: (err: unknown) => void } | null>(null);
+    const [pendingLoads, setPendingLoads] = useState(0);
     const rafIdRef = useRef<number | null>(null); 
+    // states before user edits (timeline.ts); only valid for the current grid size
+    const undoRef = useRef(new UndoHistory());
     const initStartedRef = useRef(false);
+    // latest grid size, for the GPU created asynchronously by the init effect
+    const gridSizeRef = useRef({ width: gridWidth, height: gridHeight });
 
-    const wrap = useCallback((n: number, max: number) => {
-        const r = n % max;
-        return r < 0 ? r + max : r;
-    }, []);
+    // cache index of a cell under the boundary mode, or OUTSIDE past a dead border
+    const cellIndex = useCallback((col: number, row: number) => {
+        return resolveCell(col, row, gridWidth, gridHeight, BOUNDARY_CODES[boundary]);
+    }, [gridWidth, gridHeight, boundary]);
+
+    // cells: the GPU renders straight from its state buffer, so this is cheap enough per frame
+    const requestDraw = useCallback(() => {
+        if(rafIdRef.current) return;
+        rafIdRef.current = requestAnimationFrame(() => {
+            rafIdRef.current = null;
+            gameRef.current?.render(cellSize);
+        });
+    }, [cellSize]);
+    const requestDrawRef = useRef<() => void>(() => {});
+    useEffect(() => {
+        requestDrawRef.current = requestDraw;
+    }, [requestDraw]);
 
-    const drawFromCache = useCallback(() => {
-        const canvas = canvasRef.current;
-        const data = gridDataRef.current;
-        if(!canvas) return;
+    // overlay: grid lines and pattern preview, redrawn only when they change (not per generation)
+    const drawOverlay = useCallback(() => {
+        const overlay = overlayRef.current;
+        if(!overlay) return;
 
-        const ctx = canvas.getContext('2d');
+        const ctx = overlay.getContext('2d');
         if (!ctx) return;
+        ctx.clearRect(0, 0, width, height);
 
-        //clear canvas
-        ctx.fillStyle = 'black';
-        ctx.fillRect(0, 0, width, height);
-
-        //render cells
-        if(data){
-        ctx.fillStyle = 'white';
-        for (let row = 0; row < gridHeight; row++){
-            let base = row * gridWidth;
-            for (let col = 0; col < gridWidth; col++){
-                if (data[base + col] === 1){
-                    ctx.fillRect(col * cellSize, row * cellSize, cellSize, cellSize);
-                }
-                }
+        if(tool === 'source' && mousePos){
+            // brush footprint (unresolved: shows where the stroke lands before wrapping)
+            ctx.fillStyle = brush.erase ? 'rgba(255, 255, 255, 0.25)' : brush.strength < 0 ? 'rgba(80, 120, 255, 0.35)' : 'rgba(255, 160, 0, 0.35)';
+            for (const [dx, dy] of brushOffsets(brush)){
+                ctx.fillRect((mousePos.col + dx) * cellSize, (mousePos.row + dy) * cellSize, cellSize, cellSize);
             }
-        }
-        
-        if(selectedPattern && mousePos){
+        } else if(selectedPattern && mousePos){
             const cells = getPatternCells(selectedPattern);
             if (cells){
                 ctx.fillStyle = 'rgba(255, 0, 0, 0.4)';
@@ -91,9 +166,11 @@ export const Canvas = React.forwardRef<CanvasHandler, CanvasProps>(({
                 ctx.lineWidth = 1;
                 for (let r = 0; r < cells.length; r++){
                     for (let c = 0; c < cells[r].length; c++){
-                        if (cells[r][c] === 1){
-                            const drawCol = wrap(mousePos.col + c, gridWidth);
-                            const drawRow = wrap(mousePos.row + r, gridHeight);
+                        if (cells[r][c] !== 0){
+                            const cell = cellIndex(mousePos.col + c, mousePos.row + r);
+                            if (cell === OUTSIDE) continue;
+                            const drawCol = cell % gridWidth;
+                            const drawRow = Math.floor(cell / gridWidth);
                             ctx.fillRect(drawCol * cellSize, drawRow * cellSize, cellSize, cellSize);
                             ctx.strokeRect(drawCol * cellSize, drawRow * cellSize, cellSize, cellSize);
                         }
@@ -101,89 +178,163 @@ export const Canvas = React.forwardRef<CanvasHandler, CanvasProps>(({
                 }
             }
         }
-        //draw grid lines
+
+        //draw grid lines as one path
         ctx.strokeStyle = 'rgba(255, 255, 255, 0.1)';
         ctx.lineWidth = 0.5;
-
+        ctx.beginPath();
         for (let col = 0; col <= gridWidth; col++){
-            ctx.beginPath();
             ctx.moveTo(col * cellSize, 0);
             ctx.lineTo(col * cellSize, gridHeight * cellSize);
-            ctx.stroke();
         }
-
         for (let row = 0; row <= gridHeight; row++){
-            ctx.beginPath();
             ctx.moveTo(0, row * cellSize);
             ctx.lineTo(gridWidth * cellSize, row * cellSize);
-            ctx.stroke();
         }
-    }, [width, height, cellSize, gridWidth, gridHeight, selectedPattern, mousePos, wrap]);
+        ctx.stroke();
+    }, [width, height, cellSize, gridWidth, gridHeight, selectedPattern, mousePos, cellIndex, tool, brush]);
+
+    // one undo step per user edit (a whole stroke, a pattern, clear, randomize): the state is
+    // recorded once as the edit begins, and the edit waits for that readback and its compression
+    // so it cannot leak into the recorded state
+    const beginEdit = useCallback(async (): Promise<GPU | null> => {
+        const game = gameRef.current;
+        if (!game) return null;
+        await undoRef.current.record(await game.exportSnapshot());
+        return game;
+    }, []);
 
-    const requestDraw = useCallback(() => {
-        if(rafIdRef.current) return;
-        rafIdRef.current = requestAnimationFrame(() => {
-            rafIdRef.current = null;
-            drawFromCache();
-        });
-    }, [drawFromCache]);
-    const requestDrawRef = useRef<() => void>(() => {});
-    useEffect(() => {
-        requestDrawRef.current = requestDraw;
-    }, [requestDraw]);
+    const edit = useCallback(async (apply: (game: GPU) => void) => {
+        const game = await beginEdit();
+        if (!game) return;
+        apply(game);
+        requestDrawRef.current();
+    }, [beginEdit]);
+
+    // undo and the generation timeline both hold states of the current grid size
+    const clearHistory = useCallback(() => {
+        undoRef.current.clear();
+        gameRef.current?.getTimeline()?.clear();
+    }, []);
+
+    const undoOrRedo = useCallback(async (redo: boolean) => {
+        const game = gameRef.current;
+        const history = undoRef.current;
+        if (!game || !(redo ? history.canRedo : history.canUndo)) return;
+        game.stop();
+        const current = await game.exportSnapshot();
+        const state = redo ? await history.redo(current) : await history.undo(current);
+        if (!state) return;
+        await game.importSnapshot(withSettings(state, current));
+        requestDrawRef.current();
+    }, []);
 
+    const rewind = useCallback(async (generation: number) => {
+        const game = gameRef.current;
+        const timeline = game?.getTimeline();
+        if (!game || !timeline) return;
+        game.stop();
+        const target = await timeline.get(generation);
+        if (!target) return;
+        const current = await game.exportSnapshot();
+        // keep the state being left, so the slider can come back to it
+        if (!timeline.has(current.generation)) await timeline.record(current);
+        await game.importSnapshot(withSettings(target, current));
+        requestDrawRef.current();
+    }, []);
+    const rewindTargetRef = useRef<number | null>(null);
+    const rewindingRef = useRef(false);
 
     useImperativeHandle(ref, () => ({
       start: () => gameRef.current?.start(),
       stop: () => gameRef.current?.stop(),
       toggle: () => { stats?.isRunning ? gameRef.current?.stop() : gameRef.current?.start() },
-      reset: () => gameRef.current?.reset(),
-      randomize: (density?: number) => gameRef.current?.randomize(density),
+      reset: () => void edit((game) => game.reset()),
+      randomize: (density?: number) => void edit((game) => game.randomize(density)),
+      undo: () => undoOrRedo(false),
+      redo: () => undoOrRedo(true),
+      getUndoState: () => ({ canUndo: undoRef.current.canUndo, canRedo: undoRef.current.canRedo }),
+      setTimelineRecording: (enabled, interval) => gameRef.current?.setTimelineRecording(enabled, interval),
+      // recorded generations, oldest first; empty while recording is off
+      getTimeline: () => gameRef.current?.getTimeline()?.generations() ?? [],
+      rewindTo: async (generation) => {
+        // a dragged slider asks faster than restores finish: run one at a time, latest wins
+        rewindTargetRef.current = generation;
+        if (rewindingRef.current) return;
+        rewindingRef.current = true;
+        try {
+          while (rewindTargetRef.current !== null){
+            const target = rewindTargetRef.current;
+            rewindTargetRef.current = null;
+            await rewind(target);
+          }
+        } finally {
+          rewindingRef.current = false;
+        }
+      },
       setSpeed: (ms: number) => gameRef.current?.setSpeed(ms),
       setMode: (mode) => gameRef.current?.setMode(mode),
+      setRule: (rule) => gameRef.current?.setRule(rule),
+      setBoundary: (boundary) => gameRef.current?.setBoundary(boundary),
+      setNeighborhood: (neighborhood) => gameRef.current?.setNeighborhood(neighborhood),
+      setSeed: (seed) => gameRef.current?.setSeed(seed),
+      applySourcePreset: (preset, strength) => {
+        const game = gameRef.current;
+        if (!game) return;
+        game.setSourceMap(sourcePreset(preset, gridWidth, gridHeight, strength, mulberry32(game.getSeed())));
+        requestDraw();
+      },
+      getSourceMap: () => {
+        const game = gameRef.current;
+        return game ? { map: game.getSourceMap(), width: gridWidth, height: gridHeight } : null;
+      },
+      loadSourceMap: (map, w, h) => {
+        // applied after the render this call is batched with, so a grid size set in the same
+        // event has been resized first
+        pendingSourceRef.current = { map, width: w, height: h };
+        setPendingLoads((n) => n + 1);
+      },
+      exportSnapshot: async () => (await gameRef.current?.exportSnapshot()) ?? null,
+      loadSnapshot: (state) => new Promise<void>((resolve, reject) => {
+        // same deferral as loadSourceMap; a snapshot is never resampled, so the grid must match
+        pendingSnapshotRef.current?.reject(new Error('Superseded by another snapshot load'));
+        pendingSnapshotRef.current = { state, resolve, reject };
+        setPendingLoads((n) => n + 1);
+      }),
+      loadPolicyWeights: (net) => {
+        // throws on a net the shader cannot run; kept across resizes
+        gameRef.current?.loadPolicyWeights(net);
+      },
+      clearPolicyWeights: () => gameRef.current?.clearPolicyWeights(),
+      setLineageTracking: async (enabled) => {
+        await gameRef.current?.setLineageTracking(enabled);
+      },
+      // null while tracking is off
+      exportLineage: () => gameRef.current?.getLineage()?.toCSV() ?? null,
       getStats: () => stats,
-    }), [stats]);
-
-    const scheduleFetch = useCallback((generation: number)=>{
-        pendingGenRef.current = generation;
-        if(fetchInFlightRef.current) return;
-
-        const runOnce = async () => {
-            pendingGenRef.current = null;
-            const game = gameRef.current;
-            if(!game) return;
-            const gridData = await game.getGridData();
-            gridDataRef.current = gridData;
-
-            // compute alive count (to be surfaced later in sidebar)
-
-            // fetched and cached one frame of grid data
-            requestDraw();
-        };
-        const loop = async () => {
-            do {
-                await runOnce();
-            } while (pendingGenRef.current !== null);
-        };
-        fetchInFlightRef.current = loop().finally(()=> {
-            fetchInFlightRef.current = null;
-        });
-    }, [requestDraw]);
+    }), [stats, gridWidth, gridHeight, requestDraw, edit, undoOrRedo, rewind]);
 
     const handleStatsUpdate = useCallback((newStats: Stats) =>{
         setStats(newStats);
         onStatsUpdate?.(newStats);
     }, [onStatsUpdate]);
+    // the GPU is created once and keeps its callback, so route it through the latest handler
+    const handleStatsUpdateRef = useRef(handleStatsUpdate);
+    useEffect(() => {
+        handleStatsUpdateRef.current = handleStatsUpdate;
+    }, [handleStatsUpdate]);
 
+    // every stats update follows a state change (tick, edit, reset, rule); resizing the canvas
+    // element clears it, so repaint on size changes too
     useEffect(() => {
         if(stats){
-            scheduleFetch(stats.generation);
+            requestDraw();
         }
-    }, [stats?.generation, scheduleFetch]);
+    }, [stats, width, height, requestDraw]);
 
     useEffect(() => {
-        requestDraw();
-    }, [mousePos, selectedPattern, cellSize, gridWidth, gridHeight, width, height, requestDraw]);
+        drawOverlay();
+    }, [drawOverlay]);
 
     useEffect(() => {
 
@@ -206,9 +357,23 @@ export const Canvas = React.forwardRef<CanvasHandler, CanvasProps>(({
 
             console.log('WebGPU initialized successfully');
             const device = webGPUManager.getDevice();
-            const game = new GPU(device, gridWidth, gridHeight, handleStatsUpdate);
+            const size = gridSizeRef.current;
+            const game = new GPU(device, size.width, size.height, (s) => handleStatsUpdateRef.current(s));
 
             await game.init();
+            // the grid may have been resized while the device came up
+            const latest = gridSizeRef.current;
+            if (latest.width !== size.width || latest.height !== size.height){
+                game.resize(latest.width, latest.height);
+            }
+            if (canvasRef.current){
+                game.attachCanvas(canvasRef.current);
+            }
+            game.setDisplay(displayRef.current);
+            game.setSeed(seedRef.current);
+            game.setSpecies(speciesRef.current);
+            game.setMovementPolicy(createMovementPolicy(movementPolicyRef.current));
+            game.setMessagingPolicy(createMessagingPolicy(messagingPolicyRef.current));
             console.log('Game initialized successfully');
 
             //random pattern init
@@ -217,6 +382,19 @@ export const Canvas = React.forwardRef<CanvasHandler, CanvasProps>(({
 
             gameRef.current = game;
             console.log('Canvas initialized successfully');
+
+            if (import.meta.env.DEV){
+                // dev hooks: `await lcrConformance({ ticks: 64 })` from the console diffs GPU vs CPU,
+                // `await lcrMoveConservation()` checks that movement transfers agent state losslessly
+                // (`npm run conformance` runs both on a page of their own). loaded lazily so the
+                // CPU reference stays out of the production bundle
+                Object.assign(window, {
+                    lcrConformance: async (opts?: ConformanceOptions) =>
+                        (await import('./webgpu/conformance')).runConformance(device, opts),
+                    lcrMoveConservation: async (opts?: ConservationOptions) =>
+                        (await import('./webgpu/conformance')).checkMoveConservation(opts),
+                });
+            }
         };
 
         // load patterns JSON
@@ -234,31 +412,109 @@ export const Canvas = React.forwardRef<CanvasHandler, CanvasProps>(({
 
         initializeWebGPU();
         loadPatterns();
+    // created once with the first grid size; later sizes go through the resize effect
+    }, []);
 
+    // unmount only: a destroyed GPU is never brought back
+    useEffect(() => {
         return () =>{
             console.log('Canvas unmounted');
             if (gameRef.current){
                 gameRef.current.destroy();
+                gameRef.current = null;
             }
         }
-    }, [gridWidth, gridHeight, handleStatsUpdate]);
+    }, []);
 
     // controlled mode by parent component
     useEffect(()=>{
       gameRef.current?.setMode(mode);
     }, [mode]);
 
+    // controlled life rule (already validated by the parent)
+    useEffect(()=>{
+      if (rule) gameRef.current?.setRule(rule);
+    }, [rule]);
+
+    // controlled boundary mode (the overlay preview follows via cellIndex)
+    useEffect(()=>{
+      gameRef.current?.setBoundary(boundary);
+    }, [boundary]);
+
+    // controlled neighborhood
+    useEffect(()=>{
+      gameRef.current?.setNeighborhood(neighborhood);
+    }, [neighborhood]);
+
+    // controlled physics params (validated by the parent; picked up on the next tick)
+    useEffect(()=>{
+      gameRef.current?.setParams(params);
+    }, [params]);
+
+    // controlled species (validated by the parent); colors change at once, so repaint
+    useEffect(()=>{
+      speciesRef.current = species;
+      gameRef.current?.setSpecies(species);
+      requestDrawRef.current();
+    }, [species]);
+
+    // controlled run seed; the parent re-randomizes when it wants the seed's initial state
+    useEffect(()=>{
+      seedRef.current = seed;
+      gameRef.current?.setSeed(seed);
+    }, [seed]);
+
+    // controlled movement policy, by name (policy/movement.ts); used while move_mode is 1
+    useEffect(()=>{
+      movementPolicyRef.current = movementPolicy;
+      gameRef.current?.setMovementPolicy(createMovementPolicy(movementPolicy));
+    }, [movementPolicy]);
+
+    // controlled messaging policy, by name (policy/messaging.ts); used by stages in learned mode
+    useEffect(()=>{
+      messagingPolicyRef.current = messagingPolicy;
+      gameRef.current?.setMessagingPolicy(createMessagingPolicy(messagingPolicy));
+    }, [messagingPolicy]);
+
+    // controlled display layers; only the picture changes, so just repaint
+    useEffect(()=>{
+      displayRef.current = display;
+      gameRef.current?.setDisplay(display);
+      requestDrawRef.current();
+    }, [display]);
+
     // resize GPU when grid dims change due to width/height/cellSize
     useEffect(() => {
+        gridSizeRef.current = { width: gridWidth, height: gridHeight };
         if (!gameRef.current) return;
         gameRef.current.resize(gridWidth, gridHeight);
-        // invalidate CPU cache and redraw
-        gridDataRef.current = null;
+        clearHistory();
         requestDrawRef.current();
-    }, [gridWidth, gridHeight]);
+    }, [gridWidth, gridHeight, clearHistory]);
+
+    // must stay after the resize effect: fits a loaded source map to the (possibly new) grid and
+    // restores a loaded snapshot once the grid has its size
+    useEffect(() => {
+        const game = gameRef.current;
+        if (!game) return;
+        const source = pendingSourceRef.current;
+        if (source){
+            pendingSourceRef.current = null;
+            game.setSourceMap(resampleSourceMap(source.map, source.width, source.height, gridWidth, gridHeight));
+            requestDrawRef.current();
+        }
+        const snapshot = pendingSnapshotRef.current;
+        if (snapshot){
+            pendingSnapshotRef.current = null;
+            game.importSnapshot(snapshot.state).then(() => {
+                requestDrawRef.current();
+                snapshot.resolve();
+            }, snapshot.reject);
+        }
+    }, [pendingLoads, gridWidth, gridHeight]);
     
     const localCoordsToCell = (event: React.MouseEvent<HTMLCanvasElement>) => {
-        const canvas = canvasRef.current;
+        const canvas = overlayRef.current;
         if (!canvas) return null;
         const rect = canvas.getBoundingClientRect();
         const col = Math.floor((event.clientX - rect.left) / cellSize);
@@ -266,82 +522,56 @@ export const Canvas = React.forwardRef<CanvasHandler, CanvasProps>(({
         return { col, row };
     };
 
+    // a stroke is recorded for undo on mouse down (beginEdit); every cell or brush stamp of it,
+    // the first one included, then goes straight to the GPU
+    const strokeAt = useCallback((game: GPU, pos: { col: number; row: number }) => {
+        if (tool === 'source'){
+            game.paintSource(pos.col, pos.row, brush);
+        } else {
+            game.setCell(pos.col, pos.row, drawingStateRef.current, drawSpecies);
+        }
+        requestDraw();
+    }, [tool, brush, drawSpecies, requestDraw]);
+
     const handleMouseDown = useCallback(async (event: React.MouseEvent<HTMLCanvasElement>) => {
         if (!gameRef.current) return;
         const pos = localCoordsToCell(event);
         if (!pos) return;
         setMousePos(pos);
 
-        if (selectedPattern){
+        if (tool === 'cells' && selectedPattern){
             const cells = getPatternCells(selectedPattern);
             if (cells){
-                gameRef.current.placePattern(cells, pos.col, pos.row);
-                // update CPU cache immediately for responsiveness
-                const data = gridDataRef.current;
-                if (data){
-                    let delta = 0;
-                    for (let r = 0; r < cells.length; r++){
-                        for (let c = 0; c < cells[r].length; c++){
-                            if (cells[r][c] === 1){
-                                const col = wrap(pos.col + c, gridWidth);
-                                const row = wrap(pos.row + r, gridHeight);
-                                const idx = row * gridWidth + col;
-                                if (data[idx] === 0){
-                                  data[idx] = 1;
-                                  delta++;
-                                }
-                            }
-                        }
-                    }
-                    // alive count state removed; will be reintroduced via sidebar later
-                    requestDraw();
-                    console.log('Pattern applied to CPU cache', { pattern: selectedPattern, at: pos });
-                }
+                await edit((game) => game.placePattern(cells, pos.col, pos.row, drawSpecies));
             }
             return;
         }
 
-        // draw mode
-        const current = await gameRef.current.getCell(pos.col, pos.row);
-        const desired = (current === 1 ? 0 : 1) as 0 | 1;
-        drawingStateRef.current = desired;
-        gameRef.current.setCell(pos.col, pos.row, desired);
-        // update CPU cache and redraw (wrapping)
-        const data = gridDataRef.current;
-        if (data){
-            const col = wrap(pos.col, gridWidth);
-            const row = wrap(pos.row, gridHeight);
-            const idx = row * gridWidth + col;
-            const old = data[idx];
-            const next = drawingStateRef.current;
-            if (old !== next){
-              data[idx] = next;
-              // alive count state removed; will be reintroduced via sidebar later
-            }
-            requestDraw();
+        if (tool === 'cells'){
+            // the stroke toggles the cell it starts on and paints that state along the drag
+            const current = await gameRef.current.getCell(pos.col, pos.row);
+            drawingStateRef.current = current === 1 ? 0 : 1;
         }
+        const game = await beginEdit();
+        if (!game) return;
+        strokeAt(game, pos);
         setIsDragging(true);
-    }, [cellSize, selectedPattern, wrap]);
+    }, [cellSize, selectedPattern, tool, drawSpecies, edit, beginEdit, strokeAt]);
 
     const handleMouseMove = useCallback((event: React.MouseEvent<HTMLCanvasElement>) => {
         const pos = localCoordsToCell(event);
         if (!pos) return;
         setMousePos(pos);
-        if (isDragging && !selectedPattern && gameRef.current){
-            gameRef.current.setCell(pos.col, pos.row, drawingStateRef.current);
-            const data = gridDataRef.current;
-            if (data){
-                const col = wrap(pos.col, gridWidth);
-                const row = wrap(pos.row, gridHeight);
-                data[row * gridWidth + col] = drawingStateRef.current;
-                requestDraw();
-            }
+        if (isDragging && (tool === 'source' || !selectedPattern) && gameRef.current){
+            strokeAt(gameRef.current, pos);
         }
-    }, [isDragging, selectedPattern, wrap]);
+    }, [isDragging, selectedPattern, tool, strokeAt]);
 
     const handleMouseUp = useCallback(() => {
+        // a finished cell stroke changes the population; recount it on the GPU
+        if (isDragging && tool === 'cells') void gameRef.current?.refreshStats();
         setIsDragging(false);
-    }, []);
+    }, [isDragging, tool]);
 
     const handleCanvasClick = useCallback((_event: React.MouseEvent<HTMLCanvasElement>) => {
         // placeholder to keep onClick, actual actions handled on mouse down/up
@@ -352,7 +582,8 @@ export const Canvas = React.forwardRef<CanvasHandler, CanvasProps>(({
         const onKeyDown = (e: KeyboardEvent) => {
             if (!gameRef.current) return;
             const code = e.code;
-            if ([ 'Space', 'KeyR', 'Escape' ].includes(code) || (code === 'KeyC' && e.ctrlKey)){
+            const undoKey = code === 'KeyZ' && (e.ctrlKey || e.metaKey);
+            if ([ 'Space', 'KeyR', 'Escape' ].includes(code) || (code === 'KeyC' && e.ctrlKey) || undoKey){
                 e.preventDefault();
             }
             switch (code){
@@ -364,14 +595,17 @@ export const Canvas = React.forwardRef<CanvasHandler, CanvasProps>(({
                     }
                     break;
                 case 'KeyR':
-                    gameRef.current.randomize();
+                    void edit((game) => game.randomize());
                     break;
                 case 'Escape':
                     setSelectedPattern(null);
                     break;
                 default:
                     if (code === 'KeyC' && e.ctrlKey){
-                        gameRef.current.reset();
+                        void edit((game) => game.reset());
+                    } else if (undoKey){
+                        // Ctrl+Z undo, Ctrl+Shift+Z redo
+                        void undoOrRedo(e.shiftKey);
                     }
                     break;
             }
@@ -380,21 +614,28 @@ export const Canvas = React.forwardRef<CanvasHandler, CanvasProps>(({
         return () => {
             document.removeEventListener('keydown', onKeyDown);
         };
-    }, [stats]);
+    }, [stats, edit, undoOrRedo]);
 
     return (
         <div className="flex flex-col items-center space-y-4 relative w-full">
-          <div className="relative inline-block">
+          <div className="relative inline-block border border-gray-300">
+            {/* cells: WebGPU render pipeline; overlay: grid lines, pattern preview and input */}
             <canvas
               ref={canvasRef}
               width={width}
               height={height}
+              className="block"
+              style={{ imageRendering: 'pixelated' }}
+            />
+            <canvas
+              ref={overlayRef}
+              width={width}
+              height={height}
               onClick={handleCanvasClick}
               onMouseDown={handleMouseDown}
               onMouseMove={handleMouseMove}
               onMouseUp={handleMouseUp}
-              className="border border-gray-300 cursor-crosshair"
-              style={{ imageRendering: 'pixelated' }}
+              className="absolute inset-0 cursor-crosshair"
             />
           </div>
         </div>
@@ -0,0 +1,130 @@
+import { useMemo } from 'react'
+
+export type ChartSeries = {
+    label: string
+    values: ArrayLike<number>
+    color: string
+}
+
+type TimeSeriesChartProps = {
+    title: string
+    x: ArrayLike<number> // generation of each sample, ascending
+    series: ChartSeries[]
+    width?: number
+    height?: number
+    format?: (value: number) => string
+}
+
+// at most this many points per polyline; longer series are decimated to min/max per bucket
+// so spikes survive at any window size
+const MAX_POINTS = 400
+
+function decimate(x: ArrayLike<number>, y: ArrayLike<number>): [number, number][] {
+    const n = Math.min(x.length, y.length)
+    const buckets = Math.floor(MAX_POINTS / 2)
+    if (n <= MAX_POINTS) {
+        const pts: [number, number][] = []
+        for (let i = 0; i < n; i++) pts.push([x[i], y[i]])
+        return pts
+    }
+    const pts: [number, number][] = []
+    for (let b = 0; b < buckets; b++) {
+        const lo = Math.floor((b * n) / buckets)
+        const hi = Math.floor(((b + 1) * n) / buckets)
+        let iMin = lo
+        let iMax = lo
+        for (let i = lo + 1; i < hi; i++) {
+            if (y[i] < y[iMin]) iMin = i
+            if (y[i] > y[iMax]) iMax = i
+        }
+        const [a, c] = iMin < iMax ? [iMin, iMax] : [iMax, iMin]
+        pts.push([x[a], y[a]])
+        if (c !== a) pts.push([x[c], y[c]])
+    }
+    return pts
+}
+
+const defaultFormat = (v: number) =>
+    Math.abs(v) >= 1000 ? Math.round(v).toLocaleString() : Number(v.toFixed(2)).toString()
+
+// small line chart for the sidebar: shared x axis (generation), y range fit to all series
+export function TimeSeriesChart({
+    title,
+    x,
+    series,
+    width = 240,
+    height = 64,
+    format = defaultFormat,
+}: TimeSeriesChartProps){
+    const { paths, yMin, yMax } = useMemo(() => {
+        let yMin = Infinity
+        let yMax = -Infinity
+        for (const s of series) {
+            for (let i = 0; i < s.values.length; i++) {
+                const v = s.values[i]
+                if (v < yMin) yMin = v
+                if (v > yMax) yMax = v
+            }
+        }
+        if (!Number.isFinite(yMin)) {
+            yMin = 0
+            yMax = 1
+        }
+        if (yMax === yMin) yMax = yMin + 1
+
+        const x0 = x.length > 0 ? x[0] : 0
+        const x1 = x.length > 1 ? x[x.length - 1] : x0 + 1
+        const sx = (gen: number) => ((gen - x0) / (x1 - x0)) * width
+        const sy = (v: number) => height - ((v - yMin) / (yMax - yMin)) * height
+
+        const paths = series.map((s) =>
+            decimate(x, s.values)
+                .map(([gx, v]) => `${sx(gx).toFixed(1)},${sy(v).toFixed(1)}`)
+                .join(' ')
+        )
+        return { paths, yMin, yMax }
+    }, [x, series, width, height])
+
+    const latest = (s: ChartSeries) => (s.values.length > 0 ? s.values[s.values.length - 1] : 0)
+
+    return (
+        <figure className="flex flex-col gap-0.5">
+            <figcaption className="flex items-center justify-between gap-2 text-xs">
+                <span className="text-sidebar-foreground/60">{title}</span>
+                <span className="flex gap-2 tabular-nums">
+                    {series.map((s) => (
+                        <span key={s.label} style={{ color: s.color }} title={s.label}>
+                            {format(latest(s))}
+                        </span>
+                    ))}
+                </span>
+            </figcaption>
+            <div className="relative">
+                <svg
+                    viewBox={`0 0 ${width} ${height}`}
+                    preserveAspectRatio="none"
+                    className="h-16 w-full rounded-sm border border-sidebar-border"
+                    role="img"
+                    aria-label={`${title}: ${series.map((s) => s.label).join(', ')}`}
+                >
+                    {paths.map((points, i) => (
+                        <polyline
+                            key={series[i].label}
+                            points={points}
+                            fill="none"
+                            stroke={series[i].color}
+                            strokeWidth={1}
+                            vectorEffect="non-scaling-stroke"
+                        />
+                    ))}
+                </svg>
+                <span className="pointer-events-none absolute top-0 left-1 text-[10px] text-sidebar-foreground/50 tabular-nums">
+                    {format(yMax)}
+                </span>
+                <span className="pointer-events-none absolute bottom-0 left-1 text-[10px] text-sidebar-foreground/50 tabular-nums">
+                    {format(yMin)}
+                </span>
+            </div>
+        </figure>
+    )
+}
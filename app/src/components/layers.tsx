@@ -0,0 +1,97 @@
+import { Switch } from './ui/switch'
+import { DraggableNumericInput } from './ui/draggable'
+import { NumberField } from './number-field'
+import { LAYERS, COLORMAPS, type Colormap, type DisplaySettings, type LayerSettings } from '../layers'
+
+type LayerControlsProps = {
+    display: DisplaySettings
+    onChange: (display: DisplaySettings) => void
+}
+
+// sidebar controls for the render layers: cell opacity, then per layer an on/off switch,
+// colormap, opacity and value range (range is hidden for the categorical map, which ignores it)
+export function LayerControls({ display, onChange }: LayerControlsProps){
+    const updateLayer = (field: LayerSettings['field'], patch: Partial<LayerSettings>) => {
+        onChange({
+            ...display,
+            layers: display.layers.map((l) => (l.field === field ? { ...l, ...patch } : l)),
+        })
+    }
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="flex items-center gap-2">
+                <span className="text-xs text-sidebar-foreground/60 flex-1">Cells</span>
+                <DraggableNumericInput
+                    width={32}
+                    ariaLabel="Cell opacity percentage"
+                    value={Math.round(display.cellOpacity * 100)}
+                    min={0}
+                    max={100}
+                    dragScale={0.5}
+                    onChange={(v) => onChange({ ...display, cellOpacity: v / 100 })}
+                />
+                <span className="text-xs text-sidebar-foreground/60">%</span>
+            </div>
+            {LAYERS.map(({ field, label }) => {
+                const layer = display.layers.find((l) => l.field === field)
+                if (!layer) return null
+                return (
+                    <div key={field} className="flex flex-col gap-1">
+                        <div className="flex items-center gap-2">
+                            <Switch
+                                aria-label={`Show ${label} layer`}
+                                checked={layer.enabled}
+                                onCheckedChange={(checked: boolean) => updateLayer(field, { enabled: checked })}
+                            />
+                            <span className={`text-xs flex-1 ${layer.enabled ? '' : 'text-sidebar-foreground/60'}`}>
+                                {label}
+                            </span>
+                            <select
+                                aria-label={`${label} colormap`}
+                                className="h-7 rounded-md border border-input bg-transparent px-1 text-xs"
+                                value={layer.colormap}
+                                onChange={(e) => updateLayer(field, { colormap: e.target.value as Colormap })}
+                            >
+                                {COLORMAPS.map((c) => (
+                                    <option key={c.colormap} value={c.colormap}>
+                                        {c.label}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        {layer.enabled && (
+                            <div className="flex items-center gap-1 pl-11">
+                                <DraggableNumericInput
+                                    width={32}
+                                    ariaLabel={`${label} opacity percentage`}
+                                    value={Math.round(layer.opacity * 100)}
+                                    min={0}
+                                    max={100}
+                                    dragScale={0.5}
+                                    onChange={(v) => updateLayer(field, { opacity: v / 100 })}
+                                />
+                                <span className="text-xs text-sidebar-foreground/60 mr-1">%</span>
+                                {layer.colormap !== 'categorical' && (
+                                    <>
+                                        <NumberField
+                                            ariaLabel={`${label} range minimum`}
+                                            value={layer.min}
+                                            onCommit={(v) => updateLayer(field, { min: v })}
+                                        />
+                                        <span className="text-xs text-sidebar-foreground/60">–</span>
+                                        <NumberField
+                                            ariaLabel={`${label} range maximum`}
+                                            value={layer.max}
+                                            onCommit={(v) => updateLayer(field, { max: v })}
+                                        />
+                                    </>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                )
+            })}
+        </div>
+    )
+}
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react'
+import { Input } from './ui/input'
+import { cn } from '@/lib/utils'
+
+type NumberFieldProps = {
+    ariaLabel: string
+    value: number
+    onCommit: (value: number) => void
+    className?: string
+}
+
+// free-form number box (ranges can be fractional or negative, which the draggable input rounds away)
+export function NumberField({ ariaLabel, value, onCommit, className }: NumberFieldProps){
+    const [draft, setDraft] = useState(String(value))
+    useEffect(() => setDraft(String(value)), [value])
+
+    const commit = () => {
+        const parsed = Number.parseFloat(draft)
+        if (Number.isFinite(parsed)) onCommit(parsed)
+        else setDraft(String(value))
+    }
+
+    return (
+        <Input
+            aria-label={ariaLabel}
+            className={cn('h-7 px-1.5 text-xs tabular-nums', className)}
+            inputMode="decimal"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+                // keep typed characters out of the global canvas/sidebar hotkeys
+                e.stopPropagation()
+                if (e.key === 'Enter') commit()
+            }}
+            onBlur={commit}
+        />
+    )
+}
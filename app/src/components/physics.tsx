@@ -0,0 +1,50 @@
+import { DraggableNumericInput } from './ui/draggable'
+import { PARAM_SPECS, maxDiffusionMilli, type PhysicsParam, type PhysicsParams } from '../params'
+
+type PhysicsControlsProps = {
+    params: PhysicsParams
+    error: string | null
+    onChange: (patch: Partial<PhysicsParams>) => void
+}
+
+// sidebar "Physics" section: one labelled control per LCR parameter (params.ts); modes get a
+// select, everything else a draggable integer bounded by its spec
+export function PhysicsControls({ params, error, onChange }: PhysicsControlsProps){
+    const bound = (param: PhysicsParam, max: number) =>
+        param === 'energy_diff_milli' ? Math.min(max, maxDiffusionMilli(params.energy_leak_milli)) : max
+
+    return (
+        <div className="flex flex-col gap-1.5">
+            {PARAM_SPECS.map((spec) => (
+                <label key={spec.param} className="flex items-center justify-between gap-2">
+                    <span className="text-xs text-sidebar-foreground/60">{spec.label}</span>
+                    {spec.options ? (
+                        <select
+                            aria-label={spec.label}
+                            className="h-7 rounded-md border border-input bg-transparent px-1 text-xs"
+                            value={params[spec.param]}
+                            onChange={(e) => onChange({ [spec.param]: Number(e.target.value) })}
+                        >
+                            {spec.options.map((o) => (
+                                <option key={o.value} value={o.value}>
+                                    {o.label}
+                                </option>
+                            ))}
+                        </select>
+                    ) : (
+                        <DraggableNumericInput
+                            width={40}
+                            ariaLabel={spec.label}
+                            value={params[spec.param]}
+                            min={spec.min}
+                            max={bound(spec.param, spec.max)}
+                            dragScale={spec.max > 100 ? 2 : 0.1}
+                            onChange={(v) => onChange({ [spec.param]: v })}
+                        />
+                    )}
+                </label>
+            ))}
+            {error && <span className="text-xs text-destructive">{error}</span>}
+        </div>
+    )
+}
@@ -0,0 +1,98 @@
+import { useRef, useState } from 'react'
+import { DownloadIcon, UploadIcon } from 'lucide-react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import type { Preset } from '../presets'
+
+type PresetControlsProps = {
+    presets: Preset[]
+    error: string | null
+    onSave: (name: string) => void
+    onLoad: (preset: Preset) => void
+    onDelete: (name: string) => void
+    onDownload: (name: string) => void
+    onUpload: (file: File) => void
+}
+
+// sidebar "Presets" section: save the current configuration under a name (localStorage),
+// load/delete saved ones, and move them in and out as JSON files
+export function PresetControls({ presets, error, onSave, onLoad, onDelete, onDownload, onUpload }: PresetControlsProps){
+    const [name, setName] = useState('')
+    const [selected, setSelected] = useState('')
+    const fileRef = useRef<HTMLInputElement>(null)
+    const current = presets.find((p) => p.name === selected) ?? null
+
+    const save = () => {
+        if (!name.trim()) return
+        onSave(name)
+        setSelected(name.trim())
+    }
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="flex items-center gap-2">
+                <Input
+                    aria-label="Preset name"
+                    className="h-8"
+                    placeholder="Preset name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyDown={(e) => {
+                        // keep typed characters out of the global canvas/sidebar hotkeys
+                        e.stopPropagation()
+                        if (e.key === 'Enter') save()
+                    }}
+                />
+                <Button variant="outline" size="sm" onClick={save} disabled={!name.trim()}>
+                    Save
+                </Button>
+            </div>
+            <select
+                aria-label="Saved presets"
+                className="h-8 w-full rounded-md border border-input bg-transparent px-2 text-sm"
+                value={current ? selected : ''}
+                onChange={(e) => setSelected(e.target.value)}
+            >
+                <option value="">{presets.length ? 'Saved presets…' : 'No saved presets'}</option>
+                {presets.map((p) => (
+                    <option key={p.name} value={p.name}>
+                        {p.name}
+                    </option>
+                ))}
+            </select>
+            <div className="flex items-center gap-2">
+                <Button variant="secondary" size="sm" disabled={!current} onClick={() => current && onLoad(current)}>
+                    Load
+                </Button>
+                <Button variant="outline" size="sm" disabled={!current} onClick={() => current && onDelete(current.name)}>
+                    Delete
+                </Button>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    className="ml-auto"
+                    aria-label="Download preset as JSON"
+                    disabled={!current}
+                    onClick={() => current && onDownload(current.name)}
+                >
+                    <DownloadIcon />
+                </Button>
+                <Button variant="outline" size="sm" aria-label="Load preset from JSON file" onClick={() => fileRef.current?.click()}>
+                    <UploadIcon />
+                </Button>
+                <input
+                    ref={fileRef}
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0]
+                        if (file) onUpload(file)
+                        e.target.value = ''
+                    }}
+                />
+            </div>
+            {error && <span className="text-xs text-destructive">{error}</span>}
+        </div>
+    )
+}
@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react'
+import { Switch } from './ui/switch'
+import { Input } from './ui/input'
+import { DraggableNumericInput } from './ui/draggable'
+import { MAX_SPECIES, type SpeciesConfig, type SpeciesCounting, type SpeciesSettings } from '../species'
+import type { SpeciesStats } from '../webgpu/types'
+
+type SpeciesControlsProps = {
+    config: SpeciesConfig
+    error: string | null
+    drawSpecies: number
+    stats: SpeciesStats[] | null
+    onChange: (config: SpeciesConfig) => void
+    onDrawSpeciesChange: (species: number) => void
+}
+
+// sidebar "Species" section (species.ts): how many species, Life counting and message filter,
+// then per species in use its rule, costs, starting energy, color and live/energy totals. rules
+// are committed on Enter or blur like the Life Rule field, so a half-typed rule is never applied
+export function SpeciesControls({ config, error, drawSpecies, stats, onChange, onDrawSpeciesChange }: SpeciesControlsProps){
+    const [ruleDrafts, setRuleDrafts] = useState(() => config.species.map((s) => s.rule))
+    useEffect(() => {
+        setRuleDrafts(config.species.map((s) => s.rule))
+    }, [config])
+
+    const updateSpecies = (k: number, patch: Partial<SpeciesSettings>) => {
+        onChange({ ...config, species: config.species.map((s, j) => (j === k ? { ...s, ...patch } : s)) })
+    }
+
+    return (
+        <div className="flex flex-col gap-1.5">
+            <label className="flex items-center justify-between gap-2">
+                <span className="text-xs text-sidebar-foreground/60">Species</span>
+                <DraggableNumericInput
+                    width={32}
+                    ariaLabel="Species count"
+                    value={config.count}
+                    min={1}
+                    max={MAX_SPECIES}
+                    dragScale={0.05}
+                    onChange={(v) => onChange({ ...config, count: v })}
+                />
+            </label>
+            {config.count > 1 && (
+                <>
+                    <label className="flex items-center justify-between gap-2">
+                        <span className="text-xs text-sidebar-foreground/60">Life counts</span>
+                        <select
+                            aria-label="Species neighbor counting"
+                            className="h-7 rounded-md border border-input bg-transparent px-1 text-xs"
+                            value={config.counting}
+                            onChange={(e) => onChange({ ...config, counting: e.target.value as SpeciesCounting })}
+                        >
+                            <option value="all">All neighbors</option>
+                            <option value="same">Same species</option>
+                        </select>
+                    </label>
+                    <div className="flex items-center justify-between gap-2">
+                        <span className="text-xs text-sidebar-foreground/60">Hear own species only</span>
+                        <Switch
+                            aria-label="Filter messages by species"
+                            checked={config.filterMessages}
+                            onCheckedChange={(checked: boolean) => onChange({ ...config, filterMessages: checked })}
+                        />
+                    </div>
+                    <label className="flex items-center justify-between gap-2">
+                        <span className="text-xs text-sidebar-foreground/60">Draw as</span>
+                        <select
+                            aria-label="Species of drawn cells"
+                            className="h-7 rounded-md border border-input bg-transparent px-1 text-xs"
+                            value={Math.min(drawSpecies, config.count - 1)}
+                            onChange={(e) => onDrawSpeciesChange(Number(e.target.value))}
+                        >
+                            {config.species.slice(0, config.count).map((s, k) => (
+                                <option key={k} value={k}>
+                                    {s.name}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    {config.species.slice(0, config.count).map((s, k) => (
+                        <div key={k} className="flex flex-col gap-1 pt-1">
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="color"
+                                    aria-label={`${s.name} color`}
+                                    className="h-5 w-5 shrink-0 cursor-pointer rounded border-0 bg-transparent p-0"
+                                    value={s.color}
+                                    onChange={(e) => updateSpecies(k, { color: e.target.value })}
+                                />
+                                <span className="text-sm flex-1">{s.name}</span>
+                                <Input
+                                    aria-label={`${s.name} rule in B/S notation`}
+                                    className="h-7 w-24 font-mono text-xs"
+                                    value={ruleDrafts[k]}
+                                    placeholder="B3/S23"
+                                    onChange={(e) => setRuleDrafts(ruleDrafts.map((r, j) => (j === k ? e.target.value : r)))}
+                                    onKeyDown={(e) => {
+                                        // keep typed characters out of the global canvas/sidebar hotkeys
+                                        e.stopPropagation()
+                                        if (e.key === 'Enter') updateSpecies(k, { rule: ruleDrafts[k] })
+                                    }}
+                                    onBlur={() => updateSpecies(k, { rule: ruleDrafts[k] })}
+                                />
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <span className="text-xs text-sidebar-foreground/60 flex-1">Move / message (‰)</span>
+                                <DraggableNumericInput
+                                    width={36}
+                                    ariaLabel={`${s.name} move cost`}
+                                    value={s.moveCostMilli}
+                                    min={0}
+                                    max={1000}
+                                    dragScale={2}
+                                    onChange={(v) => updateSpecies(k, { moveCostMilli: v })}
+                                />
+                                <DraggableNumericInput
+                                    width={36}
+                                    ariaLabel={`${s.name} message cost`}
+                                    value={s.msgCostMilli}
+                                    min={0}
+                                    max={1000}
+                                    dragScale={2}
+                                    onChange={(v) => updateSpecies(k, { msgCostMilli: v })}
+                                />
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <span className="text-xs text-sidebar-foreground/60 flex-1">Start energy (‰)</span>
+                                <DraggableNumericInput
+                                    width={36}
+                                    ariaLabel={`${s.name} starting energy`}
+                                    value={s.startEnergyMilli}
+                                    min={1}
+                                    max={1000}
+                                    dragScale={2}
+                                    onChange={(v) => updateSpecies(k, { startEnergyMilli: v })}
+                                />
+                            </div>
+                            {stats && (
+                                <span className="text-xs text-sidebar-foreground/60 tabular-nums">
+                                    {stats[k].liveCells} live, +{stats[k].births} / -{stats[k].deaths}, energy {stats[k].totalEnergy.toFixed(1)}
+                                </span>
+                            )}
+                        </div>
+                    ))}
+                </>
+            )}
+            {error && <span className="text-xs text-destructive">{error}</span>}
+        </div>
+    )
+}
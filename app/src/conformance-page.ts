@@ -0,0 +1,49 @@
+import { WebGPUManager } from "./WebGPUManager";
+import { checkMoveConservation, runConformance, type ConformanceOptions } from "./webgpu/conformance";
+
+// `npm run conformance`: diffs the WebGPU kernels against the CPU reference in the browser
+// and prints the report. options come from the query string, e.g.
+// /conformance.html?ticks=64&width=32&height=32&seed=7; the title ends in PASS or FAIL
+const report = document.getElementById("report")!;
+
+function numberOption(params: URLSearchParams, key: string): number | undefined {
+  const value = params.get(key);
+  return value === null ? undefined : Number(value);
+}
+
+async function run(): Promise<boolean> {
+  const params = new URLSearchParams(window.location.search);
+  const options: ConformanceOptions = {
+    ticks: numberOption(params, "ticks"),
+    width: numberOption(params, "width"),
+    height: numberOption(params, "height"),
+    seed: numberOption(params, "seed"),
+    density: numberOption(params, "density"),
+  };
+
+  const manager = WebGPUManager.getInstance();
+  if (!(await manager.init())) {
+    report.textContent = "WebGPU is not available in this browser";
+    return false;
+  }
+  const conformance = await runConformance(manager.getDevice(), options);
+  const conservation = checkMoveConservation({ seed: options.seed });
+  const lines = conformance.modes.map((m) => {
+    const where = `${m.mode} ${m.boundary} ${m.neighborhood}`;
+    if (!m.divergence) return `ok    ${where} (${m.ticksRun} ticks)`;
+    const d = m.divergence;
+    return `FAIL  ${where}: tick ${d.tick} ${d.field} at (${d.col}, ${d.row}) gpu ${d.gpu} cpu ${d.cpu}, ${d.mismatches} cells`;
+  });
+  lines.push(`${conservation.ok ? "ok  " : "FAIL"}  movement conservation (${conservation.moves} moves)`);
+  report.textContent = lines.join("\n");
+  return conformance.ok && conservation.ok;
+}
+
+run()
+  .then((ok) => {
+    document.title = `LCR conformance: ${ok ? "PASS" : "FAIL"}`;
+  })
+  .catch((err) => {
+    report.textContent = `conformance run failed: ${err instanceof Error ? err.message : String(err)}`;
+    document.title = "LCR conformance: FAIL";
+  });
@@ -0,0 +1 @@
+export { CPU } from './cpu/CPU'
@@ -0,0 +1,671 @@
+import type { SimUniformParams } from '../webgpu/uniforms'
+import { EMPTY_POPULATION_STATS, type Stats, type PopulationStats, type FieldName, type FieldData } from '../webgpu/types'
+import { parseRule, formatRule, DEFAULT_RULE, type LifeRule } from '../rules'
+import { createCpuBuffers, type CpuBuffers } from './buffers'
+import { BOUNDARY_CODES, OUTSIDE, resolveCell, type BoundaryMode } from '../boundary'
+import { NEIGHBORHOOD_CODES, effectiveKBits, neighborhoodSize, type Neighborhood } from '../neighborhood'
+import { DEFAULT_PHYSICS, applyParams, type PhysicsParams } from '../params'
+import { msgStage1Broadcast, msgStage2Receive, msgStage3aRespond, msgStage3bPack } from './messaging'
+import { moveClearIntents, moveProposeIntents, moveApply, moveVacate } from './movement'
+import { energyDiffuse, energyPostLife } from './energy'
+import { lifeStep } from './life'
+import { reduceStats } from './stats'
+import { policyMsg1, policyMsg3, policyMove } from './policy'
+import { lineageMove, lineageAssign } from './lineage'
+import { genomeMove, genomeInherit } from './genome'
+import { speciesMove } from './species'
+import { MAX_SEED, isValidSeed, mulberry32 } from '../random'
+import type { MessagingPolicy, MovementPolicy, Observation } from '../policy/types'
+import { checkActions } from '../policy/movement'
+import { checkPayloads } from '../policy/messaging'
+import { validatePolicyNet, type PolicyNet } from '../policy/mlp'
+import { SNAPSHOT_FIELDS, type SnapshotState } from '../snapshot'
+import { FIRST_AGENT_ID, LineageLog, assignFounderIds } from '../lineage'
+import { DEFAULT_TIMELINE_INTERVAL, GenerationTimeline } from '../timeline'
+import { assignFounderGenomes, founderGenome } from '../genome'
+import { stampBrush, writeRegion, type Brush } from '../sources'
+import { DEFAULT_SPECIES, assignSpecies, founderEnergy, founderSpecies, speciesUniforms, validateSpecies, type SpeciesConfig } from '../species'
+
+export type SimLogger = (message: string, details?: object) => void;
+
+// Pure TypeScript reference for the GPU simulator: same surface as GPU, same pass order,
+// same buffer swaps. Runs headless (Node, no WebGPU) and serves as an oracle for the kernels.
+export class CPU {
+    // core state arrays (named after the GPU buffers they mirror)
+    private buffers!: CpuBuffers;
+
+    // sim params
+    private width: number;
+    private height: number;
+    private generation: number = 0;
+    private isRunning: boolean = false;
+    private timerId: ReturnType<typeof setTimeout> | null = null;
+    private speed: number = 200; // ms/tick
+
+    // LCR physics uniforms (params.ts), validated by setParams
+    private params: PhysicsParams = { ...DEFAULT_PHYSICS };
+
+    // run seed (random.ts): drives randomize and salts the kernel hashes
+    private seed = 0;
+
+    // TypeScript policies (policy/): movement while move_mode is 1, messaging for the stages
+    // whose msg_mode is 2 (learned)
+    private movementPolicy: MovementPolicy | null = null;
+    private messagingPolicy: MessagingPolicy | null = null;
+
+    // MLP of policy.wgsl (policy/mlp.ts); while loaded it replaces the TypeScript policies for
+    // every learned head
+    private policyNet: PolicyNet | null = null;
+
+    // lineage log (lineage.ts), fed after every tick while tracking is on
+    private lineage: LineageLog | null = null;
+
+    // recent generations (timeline.ts), recorded at the start of every interval-th tick while on
+    private timeline: GenerationTimeline | null = null;
+
+    // mode: 'LCR' (full multi-pass) or 'Conway' (classic Life only)
+    private mode: 'LCR' | 'Conway' = 'LCR';
+
+    // outer-totalistic rule used by the Life pass in both modes
+    private rule: LifeRule = parseRule(DEFAULT_RULE);
+
+    // species (species.ts): per-species rules, costs and colors; count 1 = off
+    private species: SpeciesConfig = DEFAULT_SPECIES;
+
+    // how neighborhoods behave at the grid edge (all passes)
+    private boundary: BoundaryMode = 'torus';
+
+    // cells counted by Life and addressed by messages, scent and movement
+    private neighborhood: Neighborhood = 'moore';
+
+    // population stats of the last tick, same terms as the GPU reduction
+    private population: PopulationStats = { ...EMPTY_POPULATION_STATS };
+
+    // the tick step() is running, if any
+    private stepInFlight: Promise<void> | null = null;
+
+    private onUpdate: (stats: Stats) => void;
+
+    // progress messages; headless callers pass their own to keep stdout for data
+    private log: SimLogger;
+
+    constructor(
+        width: number,
+        height: number,
+        onUpdate?: (stats: Stats) => void,
+        log?: SimLogger
+    ){
+        this.width = width;
+        this.height = height;
+        this.onUpdate = onUpdate || (() => {});
+        this.log = log || console.log;
+    }
+
+    setMode(mode: 'LCR' | 'Conway'): void {
+        if (this.mode !== mode){
+            this.mode = mode;
+            this.notifyUpdate();
+        }
+    }
+
+    // accepts B/S notation or pre-parsed masks; throws on invalid notation
+    setRule(rule: string | LifeRule): void {
+        this.rule = typeof rule === 'string' ? parseRule(rule) : { ...rule };
+        this.notifyUpdate();
+    }
+
+    getRule(): string {
+        return formatRule(this.rule);
+    }
+
+    // validated (throws); agents keep their species index, takes effect on the next tick
+    setSpecies(config: SpeciesConfig): void {
+        this.species = validateSpecies(config);
+        this.notifyUpdate();
+    }
+
+    getSpecies(): SpeciesConfig {
+        return validateSpecies(this.species);
+    }
+
+    setBoundary(boundary: BoundaryMode): void {
+        if (this.boundary !== boundary){
+            this.boundary = boundary;
+            this.notifyUpdate();
+        }
+    }
+
+    getBoundary(): BoundaryMode {
+        return this.boundary;
+    }
+
+    setNeighborhood(neighborhood: Neighborhood): void {
+        if (this.neighborhood !== neighborhood){
+            this.neighborhood = neighborhood;
+            this.notifyUpdate();
+        }
+    }
+
+    getNeighborhood(): Neighborhood {
+        return this.neighborhood;
+    }
+
+    // partial update, validated as a whole (params.ts); throws and keeps the old values on error.
+    // takes effect on the next tick
+    setParams(partial: Partial<PhysicsParams>): void {
+        this.params = applyParams(this.params, partial);
+        this.notifyUpdate();
+    }
+
+    getParams(): PhysicsParams {
+        return { ...this.params };
+    }
+
+    // takes effect from the next tick; randomize() afterwards replays the seed's initial state
+    setSeed(seed: number): void {
+        if (!isValidSeed(seed)){
+            throw new Error(`Seed must be an integer in 0..${MAX_SEED}, got ${seed}`);
+        }
+        this.seed = seed;
+        this.notifyUpdate();
+    }
+
+    getSeed(): number {
+        return this.seed;
+    }
+
+    // null leaves ppoActions as last written (writeField), for actions computed elsewhere
+    setMovementPolicy(policy: MovementPolicy | null): void {
+        this.movementPolicy = policy;
+    }
+
+    getMovementPolicy(): MovementPolicy | null {
+        return this.movementPolicy;
+    }
+
+    // null leaves learnedMsgStage1/3 as last written (writeField)
+    setMessagingPolicy(policy: MessagingPolicy | null): void {
+        this.messagingPolicy = policy;
+    }
+
+    getMessagingPolicy(): MessagingPolicy | null {
+        return this.messagingPolicy;
+    }
+
+    // validated (throws); takes effect from the next tick
+    loadPolicyWeights(net: PolicyNet): void {
+        validatePolicyNet(net);
+        this.policyNet = { layout: { ...net.layout, hidden: [...net.layout.hidden] }, weights: net.weights.slice() };
+    }
+
+    clearPolicyWeights(): void {
+        this.policyNet = null;
+    }
+
+    getPolicyNet(): PolicyNet | null {
+        return this.policyNet;
+    }
+
+    // agent ids are always maintained; turning tracking on starts a fresh log with the current
+    // agents as founders. synchronous here, the ids are already on the host (GPU reads them back)
+    setLineageTracking(enabled: boolean): void {
+        this.lineage = enabled ? new LineageLog(this.generation, this.buffers.agentId) : null;
+    }
+
+    getLineage(): LineageLog | null {
+        return this.lineage;
+    }
+
+    // every `interval`-th tick; turning recording off (or changing the interval) drops what was recorded
+    setTimelineRecording(enabled: boolean, interval: number = DEFAULT_TIMELINE_INTERVAL): void {
+        if (enabled === (this.timeline !== null) && (!this.timeline || this.timeline.interval === interval)) return;
+        this.timeline = enabled ? new GenerationTimeline(interval) : null;
+    }
+
+    getTimeline(): GenerationTimeline | null {
+        return this.timeline;
+    }
+
+    // observation of the arrays as the passes run so far left them (live views, no copies)
+    private observe(): Observation {
+        const b = this.buffers;
+        return {
+            width: this.width,
+            height: this.height,
+            generation: this.generation,
+            seed: this.seed,
+            boundary: this.boundary,
+            neighborhood: this.neighborhood,
+            neighbors: neighborhoodSize(NEIGHBORHOOD_CODES[this.neighborhood]),
+            kBits: effectiveKBits(this.params.msg_k_bits, NEIGHBORHOOD_CODES[this.neighborhood]),
+            alive: b.aliveIn,
+            energy: b.energySrc,
+            age: b.ageIn,
+            inbox0: b.inbox0,
+            inbox1: b.inbox1,
+            energyScent: b.energyScent,
+            lastPos: b.lastPos,
+        };
+    }
+
+    async init(): Promise<void> {
+        this.buffers = createCpuBuffers(this.width, this.height);
+        this.population = { ...EMPTY_POPULATION_STATS };
+        this.log('CPU sim initialized', { width: this.width, height: this.height });
+    }
+
+    private uniforms(): SimUniformParams {
+        return {
+            width: this.width,
+            height: this.height,
+            generation: this.generation,
+            seed: this.seed,
+            ...this.params,
+            ...speciesUniforms(this.species, this.rule, this.params),
+            life_states: this.rule.states,
+            boundary: BOUNDARY_CODES[this.boundary],
+            neighborhood: NEIGHBORHOOD_CODES[this.neighborhood],
+        };
+    }
+
+    // grid io
+    setGridData(data: Uint32Array): void {
+        if (data.length !== this.width * this.height){
+            throw new Error(`Data length mismatch for grid size ${this.width}x${this.height}`);
+        }
+        this.buffers.aliveIn.set(data);
+    }
+
+    async getGridData(): Promise<Uint32Array> {
+        return this.buffers.aliveIn.slice();
+    }
+
+    // current (read side) array holding a named field
+    private fieldArray(field: FieldName): FieldData {
+        const b = this.buffers;
+        switch (field) {
+            case 'alive': return b.aliveIn;
+            case 'energy': return b.energySrc;
+            case 'dead_energy': return b.deadEnergy;
+            case 'age': return b.ageIn;
+            case 'msg_out': return b.msgOut;
+            case 'inbox0': return b.inbox0;
+            case 'inbox1': return b.inbox1;
+            case 'energy_scent': return b.energyScent;
+            case 'last_pos': return b.lastPos;
+            case 'activity': return b.activity;
+            case 'msg_last': return b.msgLast;
+            case 'source_map': return b.sourceMap;
+            case 'learned_msg_stage1': return b.learnedMsgStage1;
+            case 'learned_msg_stage3': return b.learnedMsgStage3;
+            case 'ppo_actions': return b.ppoActions;
+            case 'agent_id': return b.agentId;
+            case 'agent_id_mid': return b.agentIdMid;
+            case 'birth_parents': return b.birthParents;
+            case 'genome_move': return b.genomeMove;
+            case 'genome_msg': return b.genomeMsg;
+            case 'genome_move_mid': return b.genomeMoveMid;
+            case 'genome_msg_mid': return b.genomeMsgMid;
+            case 'species': return b.species;
+            case 'species_mid': return b.speciesMid;
+        }
+    }
+
+    writeField(field: FieldName, data: FieldData): void {
+        if (data.length !== this.width * this.height){
+            throw new Error(`Data length mismatch for field ${field} on grid ${this.width}x${this.height}`);
+        }
+        const dst = this.fieldArray(field);
+        // copy raw bits so f32 fields written as u32 (or vice versa) round-trip exactly
+        new Uint8Array(dst.buffer, dst.byteOffset, dst.byteLength)
+            .set(new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+    }
+
+    async readField(field: FieldName): Promise<FieldData> {
+        return this.fieldArray(field).slice();
+    }
+
+    // full state for snapshot.ts: settings plus every field buffer
+    async exportSnapshot(): Promise<SnapshotState> {
+        const fields = new Map<FieldName, FieldData>();
+        for (const field of SNAPSHOT_FIELDS){
+            fields.set(field, await this.readField(field));
+        }
+        return {
+            width: this.width,
+            height: this.height,
+            generation: this.generation,
+            mode: this.mode,
+            rule: formatRule(this.rule),
+            boundary: this.boundary,
+            neighborhood: this.neighborhood,
+            params: { ...this.params },
+            seed: this.seed,
+            nextAgentId: this.buffers.agentIdCounter[0],
+            species: validateSpecies(this.species),
+            fields,
+        };
+    }
+
+    // restores a snapshot taken on a grid of the same size; stops the run
+    async importSnapshot(state: SnapshotState): Promise<void> {
+        if (state.width !== this.width || state.height !== this.height){
+            throw new Error(`Snapshot grid ${state.width}x${state.height} does not match ${this.width}x${this.height}`);
+        }
+        this.stop();
+        this.mode = state.mode;
+        this.rule = parseRule(state.rule);
+        this.boundary = state.boundary;
+        this.neighborhood = state.neighborhood;
+        this.params = { ...state.params };
+        this.seed = state.seed;
+        this.species = validateSpecies(state.species);
+        this.generation = state.generation;
+        for (const [field, data] of state.fields){
+            this.writeField(field, data);
+        }
+        this.buffers.agentIdCounter[0] = state.nextAgentId;
+        if (this.lineage) this.lineage = new LineageLog(this.generation, this.buffers.agentId);
+        await this.refreshStats();
+    }
+
+    // energy source map (sources.ts); kept across reset/randomize
+    setSourceMap(data: Float32Array): void {
+        if (data.length !== this.width * this.height){
+            throw new Error(`Data length mismatch for source map on grid ${this.width}x${this.height}`);
+        }
+        this.buffers.sourceMap.set(data);
+    }
+
+    getSourceMap(): Float32Array {
+        return this.buffers.sourceMap.slice();
+    }
+
+    setSourceRegion(col: number, row: number, w: number, h: number, values: ArrayLike<number>): void {
+        writeRegion(this.buffers.sourceMap, this.width, this.height, col, row, w, h, values);
+    }
+
+    paintSource(col: number, row: number, brush: Brush): void {
+        stampBrush(this.buffers.sourceMap, this.width, this.height, BOUNDARY_CODES[this.boundary], col, row, brush);
+    }
+
+    private cellIndex(col: number, row: number): number {
+        return resolveCell(col, row, this.width, this.height, BOUNDARY_CODES[this.boundary]);
+    }
+
+    async getCell(col: number, row: number): Promise<number> {
+        const i = this.cellIndex(col, row);
+        return i === OUTSIDE ? 0 : this.buffers.aliveIn[i];
+    }
+
+    // state: 0 dead, 1 alive, 2..states-1 refractory (Generations rules); clamped to the rule.
+    // species (species.ts) applies to a live cell only
+    setCell(col: number, row: number, state: number, species: number = 0): void {
+        const i = this.cellIndex(col, row);
+        if (i === OUTSIDE) return;
+        const alive = Math.min(Math.max(0, Math.floor(state)), this.rule.states - 1);
+        this.buffers.aliveIn[i] = alive;
+        // a drawn cell is a new founder: it gets an id on the next tick, and a founder genome,
+        // species and starting energy now
+        this.buffers.agentId[i] = 0;
+        const [move, msg] = alive === 1 ? founderGenome(i % this.width, Math.floor(i / this.width), this.generation, this.seed) : [0, 0];
+        this.buffers.genomeMove[i] = move;
+        this.buffers.genomeMsg[i] = msg;
+        const s = alive === 1 ? founderSpecies(this.species, species) : 0;
+        this.buffers.species[i] = s;
+        this.buffers.energySrc[i] = alive === 1 ? founderEnergy(this.species, s) : 0.0;
+    }
+
+    async toggleCell(col: number, row: number): Promise<void> {
+        const current = await this.getCell(col, row);
+        this.setCell(col, row, current === 1 ? 0 : 1);
+        await this.refreshStats();
+    }
+
+    placePattern(cells: number[][], startCol: number, startRow: number, species: number = 0): boolean {
+        if (!cells || cells.length === 0) return false;
+        let placed = false;
+        for (let r = 0; r < cells.length; r++){
+            const rowArr = cells[r];
+            for (let c = 0; c < rowArr.length; c++){
+                if (rowArr[c] !== 0){
+                    this.setCell(startCol + c, startRow + r, rowArr[c], species);
+                    placed = true;
+                }
+            }
+        }
+        if (placed) void this.refreshStats();
+        return placed;
+    }
+
+    // simulation step. TypeScript policies are awaited mid-tick, so a call while a tick is still
+    // running gets that tick back instead of starting a second one on the same arrays (as GPU.step)
+    step(): Promise<void> {
+        if (!this.stepInFlight){
+            this.stepInFlight = this.runStep().finally(() => {
+                this.stepInFlight = null;
+            });
+        }
+        return this.stepInFlight;
+    }
+
+    private async runStep(): Promise<void> {
+        if (this.timeline?.due(this.generation)) await this.timeline.record(await this.exportSnapshot());
+        const U = this.uniforms();
+        const b = this.buffers;
+
+        if (this.mode === 'LCR'){
+            const net = this.policyNet;
+            const messaging = this.messagingPolicy;
+            if (net && U.msg_mode_stage1 === 2){
+                policyMsg1(U, b, net);
+            } else if (messaging?.broadcast && U.msg_mode_stage1 === 2){
+                const obs = this.observe();
+                const payloads = await messaging.broadcast(obs);
+                checkPayloads(payloads, obs, messaging.name);
+                b.learnedMsgStage1.set(payloads);
+            }
+            msgStage1Broadcast(U, b);
+            msgStage2Receive(U, b);
+            if (net && U.msg_mode_stage3 === 2){
+                policyMsg3(U, b, net);
+            } else if (messaging?.reply && U.msg_mode_stage3 === 2){
+                const obs = this.observe();
+                const payloads = await messaging.reply(obs);
+                checkPayloads(payloads, obs, messaging.name);
+                b.learnedMsgStage3.set(payloads);
+            }
+            msgStage3aRespond(U, b);
+            msgStage3bPack(U, b);
+            const policy = U.move_mode === 1 ? this.movementPolicy : null;
+            if (net && U.move_mode === 1){
+                policyMove(U, b, net);
+            } else if (policy){
+                const obs = this.observe();
+                const actions = await policy.act(obs);
+                checkActions(actions, obs, policy.name);
+                b.ppoActions.set(actions);
+            }
+            moveClearIntents(U, b);
+            moveProposeIntents(U, b);
+            moveApply(U, b);
+            moveVacate(U, b);
+            speciesMove(U, b);
+            lineageMove(U, b);
+            genomeMove(U, b);
+            energyDiffuse(U, b);
+            lifeStep(U, b);
+            energyPostLife(U, b);
+            lineageAssign(U, b);
+            genomeInherit(U, b);
+        } else {
+            // Conway mode: copy aliveIn -> aliveMid (and the ids, genomes and species with it), then run Life only
+            b.aliveMid.set(b.aliveIn);
+            b.agentIdMid.set(b.agentId);
+            b.genomeMoveMid.set(b.genomeMove);
+            b.genomeMsgMid.set(b.genomeMsg);
+            b.speciesMid.set(b.species);
+            lifeStep(U, b);
+            lineageAssign(U, b);
+            genomeInherit(U, b);
+        }
+
+        this.population = reduceStats({
+            before: b.aliveMid, after: b.aliveNext,
+            energy: b.energyDst, age: b.ageOut,
+            deadEnergy: b.deadEnergy, activity: b.activity,
+            species: b.species,
+        }, this.mode === 'LCR');
+        this.lineage?.recordTick({
+            generation: this.generation + 1,
+            width: this.width,
+            height: this.height,
+            boundary: this.boundary,
+            neighborhood: this.neighborhood,
+            idMid: b.agentIdMid,
+            id: b.agentId,
+            birthParents: b.birthParents,
+        });
+
+        // swaps for next tick
+        [b.aliveIn, b.aliveNext] = [b.aliveNext, b.aliveIn];
+        if (this.mode === 'LCR'){
+            [b.energySrc, b.energyDst] = [b.energyDst, b.energySrc];
+            [b.ageIn, b.ageOut] = [b.ageOut, b.ageIn];
+        }
+
+        this.generation++;
+        this.notifyUpdate();
+    }
+
+    // recompute stats for the current state without stepping (after edits); births/deaths read 0
+    async refreshStats(): Promise<void> {
+        const b = this.buffers;
+        this.population = reduceStats({
+            before: b.aliveIn, after: b.aliveIn,
+            energy: b.energySrc, age: b.ageIn,
+            deadEnergy: b.deadEnergy, activity: b.activity,
+            species: b.species,
+        }, this.mode === 'LCR');
+        this.notifyUpdate();
+    }
+
+    // animation loop (timer based so it also runs outside the browser)
+    start(): void {
+        if (this.isRunning) return;
+        this.isRunning = true;
+        this.schedule();
+        this.notifyUpdate();
+    }
+
+    stop(): void {
+        if (!this.isRunning) return;
+        this.isRunning = false;
+        if (this.timerId){
+            clearTimeout(this.timerId);
+            this.timerId = null;
+        }
+        this.notifyUpdate();
+    }
+
+    private schedule(): void {
+        this.timerId = setTimeout(async () => {
+            if (!this.isRunning) return;
+            await this.step();
+            if (this.isRunning) this.schedule();
+        }, this.speed);
+    }
+
+    // controls
+    reset(): void {
+        this.stop();
+        this.generation = 0;
+        this.clearState();
+        this.notifyUpdate();
+    }
+
+    // same seed and density, same initial state
+    randomize(density: number = 0.3): void {
+        const rand = mulberry32(this.seed);
+        const b = this.buffers;
+        this.clearState();
+        for (let i = 0; i < this.width * this.height; i++) {
+            b.aliveIn[i] = rand() < density ? 1 : 0;
+        }
+        b.agentIdCounter[0] = assignFounderIds(b.aliveIn, b.agentId);
+        assignFounderGenomes(b.aliveIn, this.width, 0, this.seed, b.genomeMove, b.genomeMsg);
+        assignSpecies(b.aliveIn, this.width, this.seed, this.species.count, b.species);
+        for (let i = 0; i < this.width * this.height; i++) {
+            b.energySrc[i] = b.aliveIn[i] === 1 ? founderEnergy(this.species, b.species[i]) : 0.0;
+        }
+        this.generation = 0;
+        if (this.lineage) this.lineage = new LineageLog(0, b.agentId);
+        void this.refreshStats();
+    }
+
+    // zero every state array except the source map, matching GPU.reset/randomize
+    private clearState(): void {
+        const b = this.buffers;
+        b.aliveIn.fill(0);
+        b.aliveMid.fill(0);
+        b.aliveNext.fill(0);
+        b.energySrc.fill(0);
+        b.energyDst.fill(0);
+        b.msgOut.fill(0);
+        b.msgLast.fill(0);
+        b.inbox0.fill(0);
+        b.inbox1.fill(0);
+        b.energyScent.fill(0);
+        b.lastPos.fill(0);
+        b.intentHash.fill(0);
+        b.deadEnergy.fill(0);
+        b.ageIn.fill(0);
+        b.ageOut.fill(0);
+        b.activity.fill(0);
+        b.agentId.fill(0);
+        b.agentIdMid.fill(0);
+        b.birthParents.fill(0);
+        b.agentIdCounter[0] = FIRST_AGENT_ID;
+        b.genomeMove.fill(0);
+        b.genomeMsg.fill(0);
+        b.genomeMoveMid.fill(0);
+        b.genomeMsgMid.fill(0);
+        b.species.fill(0);
+        b.speciesMid.fill(0);
+        if (this.lineage) this.lineage = new LineageLog(this.generation, b.agentId);
+        this.population = { ...EMPTY_POPULATION_STATS };
+    }
+
+    setSpeed(speed: number): void {
+        this.speed = Math.max(50, Math.min(1000, speed));
+        this.notifyUpdate();
+    }
+
+    // leaves the timeline to its owner, as GPU.resize does
+    resize(newWidth: number, newHeight: number): void {
+        this.stop();
+        this.width = newWidth;
+        this.height = newHeight;
+        this.buffers = createCpuBuffers(this.width, this.height);
+        if (this.lineage) this.lineage = new LineageLog(this.generation, this.buffers.agentId);
+        this.log('CPU grid resized', { width: this.width, height: this.height });
+        this.notifyUpdate();
+    }
+
+    private notifyUpdate(): void {
+        if (this.onUpdate) {
+            this.onUpdate({
+                generation: this.generation,
+                isRunning: this.isRunning,
+                speed: this.speed,
+                width: this.width,
+                height: this.height,
+                ...this.population,
+            });
+        }
+    }
+
+    destroy(): void {
+        this.stop();
+    }
+}
@@ -0,0 +1,71 @@
+// host-side mirror of CoreBuffers: one typed array per storage buffer, same roles and names
+import { FIRST_AGENT_ID } from '../lineage'
+
+export interface CpuBuffers {
+    aliveIn: Uint32Array;
+    aliveMid: Uint32Array;
+    aliveNext: Uint32Array;
+    energySrc: Float32Array;
+    energyDst: Float32Array;
+    sourceMap: Float32Array;
+    deadEnergy: Float32Array;
+    ageIn: Uint32Array;
+    ageOut: Uint32Array;
+    msgOut: Uint32Array;
+    msgLast: Uint32Array;
+    inbox0: Uint32Array;
+    inbox1: Uint32Array;
+    energyScent: Uint32Array;
+    learnedMsgStage1: Uint32Array;
+    learnedMsgStage3: Uint32Array;
+    lastPos: Uint32Array;
+    intentHash: Uint32Array;
+    ppoActions: Uint32Array;
+    activity: Uint32Array;
+    agentId: Uint32Array;
+    agentIdMid: Uint32Array;
+    birthParents: Uint32Array;
+    agentIdCounter: Uint32Array; // [0]: next free id
+    genomeMove: Uint32Array;
+    genomeMsg: Uint32Array;
+    genomeMoveMid: Uint32Array;
+    genomeMsgMid: Uint32Array;
+    species: Uint32Array;
+    speciesMid: Uint32Array;
+}
+
+export function createCpuBuffers(width: number, height: number): CpuBuffers {
+    const cells = width * height;
+    return {
+        aliveIn: new Uint32Array(cells),
+        aliveMid: new Uint32Array(cells),
+        aliveNext: new Uint32Array(cells),
+        energySrc: new Float32Array(cells),
+        energyDst: new Float32Array(cells),
+        sourceMap: new Float32Array(cells),
+        deadEnergy: new Float32Array(cells),
+        ageIn: new Uint32Array(cells),
+        ageOut: new Uint32Array(cells),
+        msgOut: new Uint32Array(cells),
+        msgLast: new Uint32Array(cells),
+        inbox0: new Uint32Array(cells),
+        inbox1: new Uint32Array(cells),
+        energyScent: new Uint32Array(cells),
+        learnedMsgStage1: new Uint32Array(cells),
+        learnedMsgStage3: new Uint32Array(cells),
+        lastPos: new Uint32Array(cells),
+        intentHash: new Uint32Array(cells),
+        ppoActions: new Uint32Array(cells),
+        activity: new Uint32Array(cells),
+        agentId: new Uint32Array(cells),
+        agentIdMid: new Uint32Array(cells),
+        birthParents: new Uint32Array(cells),
+        agentIdCounter: new Uint32Array([FIRST_AGENT_ID]),
+        genomeMove: new Uint32Array(cells),
+        genomeMsg: new Uint32Array(cells),
+        genomeMoveMid: new Uint32Array(cells),
+        genomeMsgMid: new Uint32Array(cells),
+        species: new Uint32Array(cells),
+        speciesMid: new Uint32Array(cells),
+    };
+}
@@ -0,0 +1,67 @@
+// CPU port of energy.wgsl (pass A diffuse, pass B post-Life)
+import type { SimUniformParams } from '../webgpu/uniforms'
+import type { CpuBuffers } from './buffers'
+import { f32, milli, cellAt, OUTSIDE } from './math'
+
+// energy beyond a dead border is held at zero (absorbing edge)
+function energyAt(E: Float32Array, j: number): number {
+    return j === OUTSIDE ? 0 : E[j];
+}
+
+function laplacian(E: Float32Array, U: SimUniformParams, x: number, y: number): number {
+    const c = energyAt(E, cellAt(U, x, y));
+    const n = energyAt(E, cellAt(U, x, y - 1));
+    const s = energyAt(E, cellAt(U, x, y + 1));
+    const w = energyAt(E, cellAt(U, x - 1, y));
+    const e = energyAt(E, cellAt(U, x + 1, y));
+    return f32(f32(f32(f32(n + s) + w) + e) - f32(4 * c));
+}
+
+export function energyDiffuse(U: SimUniformParams, b: CpuBuffers): void {
+    const L = milli(U.energy_leak_milli);
+    const D = milli(U.energy_diff_milli);
+    for (let y = 0; y < U.height; y++) {
+        for (let x = 0; x < U.width; x++) {
+            const i = y * U.width + x;
+            const E = b.energySrc[i];
+            const lap = laplacian(b.energySrc, U, x, y);
+            let eNext = f32(f32(f32(f32(1 - L) * E) + f32(D * lap)) + b.sourceMap[i]);
+            if (eNext < 0) eNext = 0;
+            b.energyDst[i] = eNext;
+        }
+    }
+}
+
+export function energyPostLife(U: SimUniformParams, b: CpuBuffers): void {
+    const decay = milli(U.energy_decay_milli);
+    const cells = U.width * U.height;
+    for (let i = 0; i < cells; i++) {
+        b.deadEnergy[i] = Math.max(0, f32(b.deadEnergy[i] - decay));
+
+        const aPrev = b.aliveMid[i];
+        let aNext = b.aliveNext[i];
+
+        let e = b.energyDst[i];
+        if (aNext === 1 && e <= 0) {
+            aNext = 0;
+        }
+
+        if (aPrev === 0 && aNext === 1) {
+            e = Math.min(1, f32(e + b.deadEnergy[i]));
+            b.deadEnergy[i] = 0;
+            b.ageOut[i] = 0;
+        } else if (aNext === 1) {
+            e = Math.min(e, 1);
+            b.ageOut[i] = (b.ageIn[i] + 1) >>> 0;
+        } else {
+            if (e > 0) {
+                b.deadEnergy[i] = f32(b.deadEnergy[i] + e);
+            }
+            e = 0;
+            b.ageOut[i] = 0;
+        }
+
+        b.aliveNext[i] = aNext;
+        b.energyDst[i] = e;
+    }
+}
@@ -0,0 +1,72 @@
+// CPU port of genome.wgsl
+import type { SimUniformParams } from '../webgpu/uniforms'
+import type { CpuBuffers } from './buffers'
+import { cellAt, countOneBits, neighborOffset, randHash3 } from './math'
+import { founderGenome } from '../genome'
+
+function nthSetBit(mask: number, r: number): number {
+    let left = r;
+    for (let d = 0; d < 32; d++) {
+        if (!(mask & (1 << d))) continue;
+        if (left === 0) return d;
+        left--;
+    }
+    return 0;
+}
+
+function mutate(U: SimUniformParams, w: number, x: number, y: number, word: number): number {
+    let out = w >>> 0;
+    if (U.mutation_milli === 0) return out;
+    for (let b = 0; b < 32; b++) {
+        const h = randHash3((x ^ 0x61c88647) >>> 0, (y ^ (word * 32 + b)) >>> 0, U.generation, U.seed);
+        if (h % 1000 < U.mutation_milli) out = (out ^ (1 << b)) >>> 0;
+    }
+    return out;
+}
+
+export function genomeMove(U: SimUniformParams, b: CpuBuffers): void {
+    const cells = U.width * U.height;
+    for (let i = 0; i < cells; i++) {
+        let src = -1;
+        if (b.aliveMid[i] === 1) {
+            if (b.aliveIn[i] === 0) {
+                // arrival: move_apply recorded the winning source in last_pos
+                const p = b.lastPos[i];
+                src = (p >>> 16) * U.width + (p & 0xffff);
+            } else {
+                src = i;
+            }
+        }
+        b.genomeMoveMid[i] = src < 0 ? 0 : b.genomeMove[src];
+        b.genomeMsgMid[i] = src < 0 ? 0 : b.genomeMsg[src];
+    }
+}
+
+export function genomeInherit(U: SimUniformParams, b: CpuBuffers): void {
+    for (let y = 0; y < U.height; y++) {
+        for (let x = 0; x < U.width; x++) {
+            const i = y * U.width + x;
+            if (b.aliveNext[i] !== 1) {
+                b.genomeMove[i] = 0;
+                b.genomeMsg[i] = 0;
+                continue;
+            }
+            if (b.aliveMid[i] === 1 && b.agentIdMid[i] !== 0) {
+                b.genomeMove[i] = b.genomeMoveMid[i];
+                b.genomeMsg[i] = b.genomeMsgMid[i];
+                continue;
+            }
+            const mask = b.aliveMid[i] !== 1 ? b.birthParents[i] : 0;
+            if (mask === 0) {
+                [b.genomeMove[i], b.genomeMsg[i]] = founderGenome(x, y, U.generation, U.seed);
+                continue;
+            }
+            const h = randHash3((x ^ 0x3c6ef372) >>> 0, (y ^ 0xa54ff53a) >>> 0, U.generation, U.seed);
+            const d = nthSetBit(mask, h % countOneBits(mask));
+            const [ox, oy] = neighborOffset(U, d, y);
+            const p = cellAt(U, x + ox, y + oy);
+            b.genomeMove[i] = mutate(U, b.genomeMoveMid[p], x, y, 0);
+            b.genomeMsg[i] = mutate(U, b.genomeMsgMid[p], x, y, 1);
+        }
+    }
+}
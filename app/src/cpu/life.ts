@@ -0,0 +1,50 @@
+// CPU port of life_step.wgsl (B/S masks plus Generations states over the configured neighborhood)
+import type { SimUniformParams } from '../webgpu/uniforms'
+import type { CpuBuffers } from './buffers'
+import { cellAt, OUTSIDE, neighborCount, neighborOffset } from './math'
+import { MAX_SPECIES } from '../species'
+
+// live neighbors per species
+function countNeighbors(U: SimUniformParams, b: CpuBuffers, x: number, y: number): number[] {
+    const count = new Array<number>(MAX_SPECIES).fill(0);
+    for (let d = 0; d < neighborCount(U); d++) {
+        const [ox, oy] = neighborOffset(U, d, y);
+        const j = cellAt(U, x + ox, y + oy);
+        if (j !== OUTSIDE && b.aliveMid[j] === 1) count[Math.min(b.speciesMid[j], MAX_SPECIES - 1)]++;
+    }
+    return count;
+}
+
+// species with most live neighbors, lowest index on ties
+function dominantSpecies(count: number[]): number {
+    let best = 0;
+    for (let s = 1; s < MAX_SPECIES; s++) {
+        if (count[s] > count[best]) best = s;
+    }
+    return best;
+}
+
+export function lifeStep(U: SimUniformParams, b: CpuBuffers): void {
+    for (let y = 0; y < U.height; y++) {
+        for (let x = 0; x < U.width; x++) {
+            const i = y * U.width + x;
+            const current = b.aliveMid[i];
+            const count = countNeighbors(U, b, x, y);
+
+            let next = 0;
+            let s = 0;
+            if (current >= 2) {
+                if (current + 1 < U.life_states) next = current + 1;
+            } else {
+                s = current === 1 ? Math.min(b.speciesMid[i], MAX_SPECIES - 1) : dominantSpecies(count);
+                const neighbors = U.species_counting === 1 ? count[s] : count[0] + count[1] + count[2] + count[3];
+                const mask = current === 1 ? U.species_survive[s] : U.species_birth[s];
+                if (neighbors < 32) next = (mask >>> neighbors) & 1;
+                if (current === 1 && next === 0 && U.life_states > 2) next = 2;
+            }
+
+            b.aliveNext[i] = next;
+            b.species[i] = current === 1 || next === 1 ? s : 0;
+        }
+    }
+}
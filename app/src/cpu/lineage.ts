@@ -0,0 +1,48 @@
+// CPU port of lineage.wgsl; count, scan and assign fold into one row-major sweep, which hands
+// out ids in the same order as the workgroup offsets plus in-group ranks of the kernels
+import type { SimUniformParams } from '../webgpu/uniforms'
+import type { CpuBuffers } from './buffers'
+import { cellAt, OUTSIDE, neighborCount, neighborOffset } from './math'
+
+export function lineageMove(U: SimUniformParams, b: CpuBuffers): void {
+    const cells = U.width * U.height;
+    for (let i = 0; i < cells; i++) {
+        let id = 0;
+        if (b.aliveMid[i] === 1) {
+            if (b.aliveIn[i] === 0) {
+                // arrival: move_apply recorded the winning source in last_pos
+                const p = b.lastPos[i];
+                id = b.agentId[(p >>> 16) * U.width + (p & 0xffff)];
+            } else {
+                id = b.agentId[i];
+            }
+        }
+        b.agentIdMid[i] = id;
+    }
+}
+
+export function lineageAssign(U: SimUniformParams, b: CpuBuffers): void {
+    const W = U.width;
+    let next = b.agentIdCounter[0];
+    for (let y = 0; y < U.height; y++) {
+        for (let x = 0; x < W; x++) {
+            const i = y * W + x;
+            let mask = 0;
+            if (b.aliveNext[i] === 1 && b.aliveMid[i] !== 1) {
+                for (let d = 0; d < neighborCount(U); d++) {
+                    const [ox, oy] = neighborOffset(U, d, y);
+                    const j = cellAt(U, x + ox, y + oy);
+                    if (j !== OUTSIDE && b.aliveMid[j] === 1) mask = (mask | (1 << d)) >>> 0;
+                }
+            }
+            b.birthParents[i] = mask;
+            if (b.aliveNext[i] === 1 && (b.aliveMid[i] !== 1 || b.agentIdMid[i] === 0)) {
+                b.agentId[i] = next;
+                next = (next + 1) >>> 0;
+            } else {
+                b.agentId[i] = b.aliveNext[i] === 1 ? b.agentIdMid[i] : 0;
+            }
+        }
+    }
+    b.agentIdCounter[0] = next;
+}
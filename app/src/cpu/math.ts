@@ -0,0 +1,53 @@
+// scalar helpers that reproduce WGSL u32/f32 semantics on the CPU
+import { resolveCell } from '../boundary'
+import { neighborDir, neighborhoodSize } from '../neighborhood'
+import type { SimUniformParams } from '../webgpu/uniforms'
+
+export { OUTSIDE } from '../boundary'
+export { randHash3 } from '../random'
+
+export const f32 = Math.fround;
+
+// 0.001 as the kernels see it (abstract float literal converted to f32)
+export const MILLI = f32(0.001);
+
+export function u32mul(a: number, b: number): number {
+    return Math.imul(a, b) >>> 0;
+}
+
+export function milli(v: number): number {
+    return f32(f32(v) * MILLI);
+}
+
+// same as idx() in every kernel: linear index under U.boundary, or OUTSIDE (-1) beyond a dead border
+export function cellAt(U: SimUniformParams, col: number, row: number): number {
+    return resolveCell(col, row, U.width, U.height, U.boundary);
+}
+
+// neighbor_dir()/neighbor_count() of the kernels, for the neighborhood in the uniforms
+export function neighborCount(U: SimUniformParams): number {
+    return neighborhoodSize(U.neighborhood);
+}
+
+export function neighborOffset(U: SimUniformParams, d: number, row: number): readonly [number, number] {
+    return neighborDir(U.neighborhood, d, row);
+}
+
+// messaging.wgsl hash3 (xor mix); seed is U.seed
+export function hash3(x: number, y: number, t: number, seed: number): number {
+    let h = (u32mul(x, 374761393) ^ u32mul(y, 668265263) ^ u32mul(t, 2246822519) ^ u32mul(seed, 3266489917)) >>> 0;
+    h = (h ^ (h >>> 13)) >>> 0;
+    h = u32mul(h, 1274126177);
+    h = (h ^ (h >>> 16)) >>> 0;
+    return h;
+}
+
+export function countOneBits(v: number): number {
+    let n = v >>> 0;
+    let c = 0;
+    while (n) {
+        n &= n - 1;
+        c++;
+    }
+    return c;
+}
@@ -0,0 +1,158 @@
+// CPU port of messaging.wgsl; one function per entry point, each a full-grid dispatch
+import type { SimUniformParams } from '../webgpu/uniforms'
+import type { CpuBuffers } from './buffers'
+import { f32, milli, cellAt, OUTSIDE, neighborCount, neighborOffset, hash3, countOneBits } from './math'
+import { effectiveKBits } from '../neighborhood'
+import { MAX_SPECIES } from '../species'
+
+function kBits(U: SimUniformParams): number {
+    return effectiveKBits(U.msg_k_bits, U.neighborhood);
+}
+
+function maskK(U: SimUniformParams): number {
+    return ((1 << kBits(U)) - 1) >>> 0;
+}
+
+function packInbox(U: SimUniformParams, bits: number[]): number {
+    let acc = 0;
+    const k = kBits(U);
+    const m = maskK(U);
+    for (let d = 0; d < bits.length; d++) {
+        acc = (acc | ((bits[d] & m) << (d * k))) >>> 0;
+    }
+    return acc;
+}
+
+function chargeForPayload(U: SimUniformParams, b: CpuBuffers, i: number, payload: number): void {
+    if (payload === 0) return;
+    const ones = countOneBits(payload & maskK(U));
+    const cost = f32(ones * milli(U.species_msg_cost[Math.min(b.species[i], MAX_SPECIES - 1)]));
+    b.energySrc[i] = Math.max(0, f32(b.energySrc[i] - cost));
+}
+
+function gatherNeighbors(U: SimUniformParams, b: CpuBuffers, x: number, y: number): number[] {
+    const i = y * U.width + x;
+    const neigh = new Array<number>(neighborCount(U));
+    for (let d = 0; d < neigh.length; d++) {
+        const [ox, oy] = neighborOffset(U, d, y);
+        const j = cellAt(U, x + ox, y + oy);
+        // silent beyond a dead border and, with the species filter, from other species
+        const filtered = U.species_filter === 1 && j !== OUTSIDE && b.species[j] !== b.species[i];
+        neigh[d] = j === OUTSIDE || filtered ? 0 : b.msgOut[j] & maskK(U);
+    }
+    return neigh;
+}
+
+// reply rule of the messaging word over the stage-1 inbox (genome.ts)
+function genomeReply(U: SimUniformParams, b: CpuBuffers, i: number): number {
+    const g = b.genomeMsg[i];
+    const k = kBits(U);
+    let heard = 0;
+    for (let d = 0; d < neighborCount(U); d++) {
+        heard |= (b.inbox0[i] >>> (d * k)) & maskK(U);
+    }
+    const c = g >>> 8;
+    switch ((g >>> 4) & 3) {
+        case 1: return c;
+        case 2: return heard;
+        case 3: return (heard ^ c) >>> 0;
+        default: return 0;
+    }
+}
+
+export function msgStage1Broadcast(U: SimUniformParams, b: CpuBuffers): void {
+    const m = maskK(U);
+    for (let y = 0; y < U.height; y++) {
+        for (let x = 0; x < U.width; x++) {
+            const i = y * U.width + x;
+            if (b.aliveIn[i] !== 1) {
+                b.msgOut[i] = 0;
+                b.activity[i] = 0;
+                continue;
+            }
+
+            let payload = 0;
+            switch (U.msg_mode_stage1) {
+                case 0:
+                    payload = 0;
+                    break;
+                case 1:
+                    payload = hash3(x, y, U.generation, U.seed) & m;
+                    break;
+                case 3:
+                    payload = b.genomeMsg[i] & m;
+                    break;
+                default:
+                    payload = b.learnedMsgStage1[i] & m;
+                    break;
+            }
+
+            if (U.msg_mode_stage1 >= 2) {
+                chargeForPayload(U, b, i, payload);
+            }
+
+            b.msgOut[i] = payload;
+            b.msgLast[i] = payload;
+            b.activity[i] = payload !== 0 ? 1 : 0;
+        }
+    }
+}
+
+export function msgStage2Receive(U: SimUniformParams, b: CpuBuffers): void {
+    for (let y = 0; y < U.height; y++) {
+        for (let x = 0; x < U.width; x++) {
+            const i = y * U.width + x;
+            b.inbox0[i] = packInbox(U, gatherNeighbors(U, b, x, y));
+
+            let scentMask = 0;
+            for (let d = 0; d < neighborCount(U); d++) {
+                const [ox, oy] = neighborOffset(U, d, y);
+                const j = cellAt(U, x + ox, y + oy);
+                if (j !== OUTSIDE && b.deadEnergy[j] > 0) {
+                    scentMask |= 1 << d;
+                }
+            }
+            b.energyScent[i] = scentMask;
+        }
+    }
+}
+
+export function msgStage3aRespond(U: SimUniformParams, b: CpuBuffers): void {
+    const m = maskK(U);
+    for (let y = 0; y < U.height; y++) {
+        for (let x = 0; x < U.width; x++) {
+            const i = y * U.width + x;
+            let reply = 0;
+            if (b.aliveIn[i] === 1) {
+                switch (U.msg_mode_stage3) {
+                    case 0:
+                        reply = 0;
+                        break;
+                    case 1:
+                        reply = hash3((x ^ 0x9e3779b9) >>> 0, (y ^ 0x7f4a7c15) >>> 0, (U.generation ^ 0x85ebca6b) >>> 0, U.seed) & m;
+                        break;
+                    case 3:
+                        reply = genomeReply(U, b, i) & m;
+                        break;
+                    default:
+                        reply = b.learnedMsgStage3[i] & m;
+                        break;
+                }
+                if (U.msg_mode_stage3 >= 2) {
+                    chargeForPayload(U, b, i, reply);
+                }
+            }
+            b.msgOut[i] = reply >>> 0;
+            if (reply !== 0) b.activity[i] |= 2;
+        }
+    }
+}
+
+export function msgStage3bPack(U: SimUniformParams, b: CpuBuffers): void {
+    for (let y = 0; y < U.height; y++) {
+        for (let x = 0; x < U.width; x++) {
+            const i = y * U.width + x;
+            b.inbox1[i] = packInbox(U, gatherNeighbors(U, b, x, y));
+        }
+    }
+}
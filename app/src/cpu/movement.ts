@@ -0,0 +1,174 @@
+// CPU port of movement.wgsl; atomicMax on intent_hash is order-independent so a serial scan matches
+import type { SimUniformParams } from '../webgpu/uniforms'
+import type { CpuBuffers } from './buffers'
+import { f32, cellAt, OUTSIDE, neighborCount, neighborOffset, randHash3, countOneBits } from './math'
+import { effectiveKBits } from '../neighborhood'
+
+function tieBreakHash(x: number, y: number, generation: number, seed: number): number {
+    return randHash3((x ^ 0x9e3779b9) >>> 0, (y ^ 0x7f4a7c15) >>> 0, generation, seed);
+}
+
+// a cell an agent may move into; beyond a dead border counts as a wall
+function isEmpty(b: CpuBuffers, j: number): boolean {
+    return j !== OUTSIDE && b.aliveIn[j] === 0;
+}
+
+function emptyDirs(U: SimUniformParams, b: CpuBuffers, x: number, y: number): number[] {
+    const dirs: number[] = [];
+    for (let d = 0; d < neighborCount(U); d++) {
+        const [ox, oy] = neighborOffset(U, d, y);
+        if (isEmpty(b, cellAt(U, x + ox, y + oy))) {
+            dirs.push(d);
+        }
+    }
+    return dirs;
+}
+
+// genetic mode: action from the movement word (genome.ts); n = stay
+function genomeAction(U: SimUniformParams, b: CpuBuffers, x: number, y: number): number {
+    const i = y * U.width + x;
+    const n = neighborCount(U);
+    const g = b.genomeMove[i];
+    const h = randHash3((x ^ 0x85ebca6b) >>> 0, (y ^ 0xc2b2ae35) >>> 0, U.generation, U.seed);
+    if ((h & 0xff) >= (g & 0xff)) return n;
+    const rule = (g >>> 8) & 3;
+    if (rule === 3) return ((g >>> 16) & 31) % n;
+    const k = effectiveKBits(U.msg_k_bits, U.neighborhood);
+    const m = (1 << k) - 1;
+    let cand = 0;
+    for (let d = 0; d < n; d++) {
+        const [ox, oy] = neighborOffset(U, d, y);
+        if (!isEmpty(b, cellAt(U, x + ox, y + oy))) continue;
+        let ok = true;
+        if (rule === 1) ok = (b.energyScent[i] & (1 << d)) !== 0;
+        if (rule === 2) ok = ((b.inbox1[i] >>> (d * k)) & m) === ((g >>> 12) & m);
+        if (ok) cand = (cand | (1 << d)) >>> 0;
+    }
+    if (cand === 0) return n;
+    let left = (h >>> 8) % countOneBits(cand);
+    for (let d = 0; d < n; d++) {
+        if (!(cand & (1 << d))) continue;
+        if (left === 0) return d;
+        left--;
+    }
+    return n;
+}
+
+// target index the agent at (x, y) would move to this tick; -1 (OUTSIDE) if it stays
+function chosenTarget(U: SimUniformParams, b: CpuBuffers, x: number, y: number): number {
+    const i = cellAt(U, x, y);
+    const n = neighborCount(U);
+    switch (U.move_mode) {
+        case 1:
+        case 2: {
+            const act = b.ppoActions[i] % (n + 1);
+            if (act === n) return -1;
+            const [ox, oy] = neighborOffset(U, act, y);
+            return cellAt(U, x + ox, y + oy);
+        }
+        default: {
+            const dirs = emptyDirs(U, b, x, y);
+            if (dirs.length === 0) return -1;
+            const seed = randHash3(x, y, U.generation, U.seed);
+            const [ox, oy] = neighborOffset(U, dirs[seed % dirs.length], y);
+            return cellAt(U, x + ox, y + oy);
+        }
+    }
+}
+
+export function moveClearIntents(U: SimUniformParams, b: CpuBuffers): void {
+    b.intentHash.fill(0, 0, U.width * U.height);
+}
+
+export function moveProposeIntents(U: SimUniformParams, b: CpuBuffers): void {
+    const n = neighborCount(U);
+    for (let y = 0; y < U.height; y++) {
+        for (let x = 0; x < U.width; x++) {
+            const i = y * U.width + x;
+            if (b.aliveIn[i] !== 1) continue;
+
+            let tgt: number;
+            if (U.move_mode === 2) {
+                b.ppoActions[i] = genomeAction(U, b, x, y);
+            }
+            if (U.move_mode === 1 || U.move_mode === 2) {
+                const act = b.ppoActions[i] % (n + 1);
+                if (act === n) continue;
+                const [ox, oy] = neighborOffset(U, act, y);
+                const j = cellAt(U, x + ox, y + oy);
+                if (!isEmpty(b, j)) {
+                    // blocked: an attempt, charged by speciesMove, and stay
+                    b.activity[i] |= 4;
+                    continue;
+                }
+                tgt = j;
+            } else {
+                tgt = chosenTarget(U, b, x, y);
+                if (tgt < 0) continue;
+            }
+
+            const h = tieBreakHash(x, y, U.generation, U.seed);
+            if (h > b.intentHash[tgt]) b.intentHash[tgt] = h;
+
+            b.activity[i] |= 4;
+        }
+    }
+}
+
+export function moveApply(U: SimUniformParams, b: CpuBuffers): void {
+    const W = U.width;
+    for (let y = 0; y < U.height; y++) {
+        for (let x = 0; x < W; x++) {
+            const i = y * W + x;
+            let a = b.aliveIn[i];
+
+            // arrival: pull the winning agent's state onto this cell
+            const wh = b.intentHash[i];
+            if (wh !== 0) {
+                a = 1;
+                let srcx = x;
+                let srcy = y;
+                for (let d = 0; d < neighborCount(U); d++) {
+                    const [ox, oy] = neighborOffset(U, d, y);
+                    const s = cellAt(U, x + ox, y + oy);
+                    if (s === OUTSIDE || b.aliveIn[s] !== 1) continue;
+                    const sx = s % W;
+                    const sy = Math.floor(s / W);
+                    if (chosenTarget(U, b, sx, sy) !== i) continue;
+                    if (tieBreakHash(sx, sy, U.generation, U.seed) === wh) {
+                        srcx = sx;
+                        srcy = sy;
+                        b.energySrc[i] = f32(b.energySrc[i] + b.energySrc[s]);
+                        b.ageIn[i] = b.ageIn[s];
+                        b.msgLast[i] = b.msgLast[s];
+                        break;
+                    }
+                }
+                b.lastPos[i] = ((srcx & 0xffff) | ((srcy & 0xffff) << 16)) >>> 0;
+            }
+
+            // departure
+            if (b.aliveIn[i] === 1) {
+                const j = chosenTarget(U, b, x, y);
+                if (j !== OUTSIDE && b.intentHash[j] === tieBreakHash(x, y, U.generation, U.seed)) {
+                    a = 0;
+                }
+            }
+
+            b.aliveMid[i] = a;
+        }
+    }
+}
+
+// clear the origin of every agent that moved out (its state now lives at the target)
+export function moveVacate(U: SimUniformParams, b: CpuBuffers): void {
+    const cells = U.width * U.height;
+    for (let i = 0; i < cells; i++) {
+        if (b.aliveIn[i] === 1 && b.aliveMid[i] === 0) {
+            b.energySrc[i] = 0;
+            b.ageIn[i] = 0;
+            b.msgLast[i] = 0;
+            b.activity[i] |= 8;
+        }
+    }
+}
@@ -0,0 +1,112 @@
+// CPU port of policy.wgsl; one function per entry point, each a full-grid dispatch.
+// f32 arithmetic in the kernel's order; outputs can still differ from the GPU in the last ulp
+// (drivers may fuse multiply-adds, and WGSL leaves tanh precision to the implementation), which
+// only matters for outputs within an ulp of a decision threshold
+import type { SimUniformParams } from '../webgpu/uniforms'
+import type { CpuBuffers } from './buffers'
+import { f32, cellAt, OUTSIDE, neighborCount, neighborOffset } from './math'
+import { effectiveKBits, MAX_NEIGHBORHOOD_SIZE } from '../neighborhood'
+import {
+    POLICY_INPUTS,
+    POLICY_MSG1_OUTPUT,
+    POLICY_MSG3_OUTPUT,
+    POLICY_STAY_OUTPUT,
+    MAX_POLICY_UNITS,
+    policyLayerSizes,
+    type PolicyNet,
+} from '../policy/mlp'
+
+// the two ping-pong activation rows of the kernel (var<private> acts)
+const acts: [Float32Array, Float32Array] = [new Float32Array(MAX_POLICY_UNITS), new Float32Array(MAX_POLICY_UNITS)];
+
+function loadInputs(U: SimUniformParams, b: CpuBuffers, i: number, input: Float32Array): void {
+    input.fill(0, 0, POLICY_INPUTS);
+    const n = neighborCount(U);
+    const k = effectiveKBits(U.msg_k_bits, U.neighborhood);
+    const m = ((1 << k) - 1) >>> 0;
+    const scale = m > 0 ? f32(1 / m) : 0;
+    const scent = b.energyScent[i];
+    const in0 = b.inbox0[i];
+    const in1 = b.inbox1[i];
+    input[0] = b.energySrc[i];
+    input[1] = f32(f32(b.ageIn[i]) * f32(0.01));
+    for (let d = 0; d < n; d++) {
+        input[2 + d] = (scent >>> d) & 1;
+        input[2 + MAX_NEIGHBORHOOD_SIZE + d] = f32(((in0 >>> (d * k)) & m) * scale);
+        input[2 + 2 * MAX_NEIGHBORHOOD_SIZE + d] = f32(((in1 >>> (d * k)) & m) * scale);
+    }
+}
+
+// runs the net on cell i; returns the row of acts holding the outputs
+function forward(U: SimUniformParams, b: CpuBuffers, net: PolicyNet, i: number): Float32Array {
+    const sizes = policyLayerSizes(net.layout);
+    const w = net.weights;
+    const tanh = net.layout.activation === 'tanh';
+    let [src, dst] = acts;
+    loadInputs(U, b, i, src);
+    let offset = 0;
+    for (let l = 0; l + 1 < sizes.length; l++) {
+        const nIn = sizes[l];
+        const nOut = sizes[l + 1];
+        const hidden = l + 2 < sizes.length;
+        for (let o = 0; o < nOut; o++) {
+            let acc = 0;
+            const row = offset + o * nIn;
+            for (let j = 0; j < nIn; j++) {
+                acc = f32(acc + f32(w[row + j] * src[j]));
+            }
+            acc = f32(acc + w[offset + nOut * nIn + o]);
+            if (hidden) acc = tanh ? f32(Math.tanh(acc)) : Math.max(acc, 0);
+            dst[o] = acc;
+        }
+        offset += nOut * nIn + nOut;
+        [src, dst] = [dst, src];
+    }
+    return src;
+}
+
+function payloadBits(U: SimUniformParams, res: Float32Array, first: number): number {
+    let p = 0;
+    for (let bit = 0; bit < effectiveKBits(U.msg_k_bits, U.neighborhood); bit++) {
+        if (res[first + bit] > 0) p = (p | (1 << bit)) >>> 0;
+    }
+    return p;
+}
+
+export function policyMsg1(U: SimUniformParams, b: CpuBuffers, net: PolicyNet): void {
+    for (let i = 0; i < U.width * U.height; i++) {
+        b.learnedMsgStage1[i] = b.aliveIn[i] === 1 ? payloadBits(U, forward(U, b, net, i), POLICY_MSG1_OUTPUT) : 0;
+    }
+}
+
+export function policyMsg3(U: SimUniformParams, b: CpuBuffers, net: PolicyNet): void {
+    for (let i = 0; i < U.width * U.height; i++) {
+        b.learnedMsgStage3[i] = b.aliveIn[i] === 1 ? payloadBits(U, forward(U, b, net, i), POLICY_MSG3_OUTPUT) : 0;
+    }
+}
+
+// argmax over stay and the directions whose target is free (ties keep stay, then lower d)
+export function policyMove(U: SimUniformParams, b: CpuBuffers, net: PolicyNet): void {
+    const n = neighborCount(U);
+    for (let y = 0; y < U.height; y++) {
+        for (let x = 0; x < U.width; x++) {
+            const i = y * U.width + x;
+            if (b.aliveIn[i] !== 1) {
+                b.ppoActions[i] = n;
+                continue;
+            }
+            const res = forward(U, b, net, i);
+            let best = n;
+            let bestV = res[POLICY_STAY_OUTPUT];
+            for (let d = 0; d < n; d++) {
+                const [ox, oy] = neighborOffset(U, d, y);
+                const j = cellAt(U, x + ox, y + oy);
+                if (j !== OUTSIDE && b.aliveIn[j] === 0 && res[d] > bestV) {
+                    best = d;
+                    bestV = res[d];
+                }
+            }
+            b.ppoActions[i] = best;
+        }
+    }
+}
@@ -0,0 +1,34 @@
+// CPU port of species.wgsl
+import type { SimUniformParams } from '../webgpu/uniforms'
+import type { CpuBuffers } from './buffers'
+import { f32, milli } from './math'
+import { MAX_SPECIES } from '../species'
+
+function halfCost(U: SimUniformParams, s: number): number {
+    return f32(milli(U.species_move_cost[Math.min(s, MAX_SPECIES - 1)]) * f32(0.5));
+}
+
+export function speciesMove(U: SimUniformParams, b: CpuBuffers): void {
+    const cells = U.width * U.height;
+    for (let i = 0; i < cells; i++) {
+        if (b.aliveMid[i] !== 1) {
+            b.speciesMid[i] = 0;
+            continue;
+        }
+        if (b.aliveIn[i] === 0) {
+            // arrival: move_apply recorded the winning source in last_pos
+            const p = b.lastPos[i];
+            const s = b.species[(p >>> 16) * U.width + (p & 0xffff)];
+            const h = halfCost(U, s);
+            b.speciesMid[i] = s;
+            b.energySrc[i] = Math.max(0, f32(Math.max(0, f32(b.energySrc[i] - h)) - h));
+            continue;
+        }
+        const s = b.species[i];
+        b.speciesMid[i] = s;
+        if (b.activity[i] & 4) {
+            // blocked or lost the target: the attempt half only
+            b.energySrc[i] = Math.max(0, f32(b.energySrc[i] - halfCost(U, s)));
+        }
+    }
+}
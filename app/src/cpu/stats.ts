@@ -0,0 +1,64 @@
+// CPU counterpart of stats.wgsl: the same per-cell terms, summed serially
+import type { PopulationStats, SpeciesStats } from '../webgpu/types'
+import { MAX_SPECIES } from '../species'
+
+export interface StatsInputs {
+    before: Uint32Array;        // pre-Life state (aliveMid), or the current state between ticks
+    after: Uint32Array;         // this tick's result (aliveNext)
+    energy: Float32Array;
+    age: Uint32Array;
+    deadEnergy: Float32Array;
+    activity: Uint32Array;
+    species: Uint32Array;       // after Life, where dying agents keep theirs
+}
+
+export function reduceStats(s: StatsInputs, lcr: boolean): PopulationStats {
+    let live = 0, births = 0, deaths = 0, maxAge = 0, ageSum = 0;
+    let movesAttempted = 0, movesSucceeded = 0, messagesSent = 0;
+    let totalEnergy = 0, corpseEnergy = 0;
+    const species: SpeciesStats[] = Array.from({ length: MAX_SPECIES }, () => ({
+        liveCells: 0, births: 0, deaths: 0, totalEnergy: 0,
+    }));
+    for (let i = 0; i < s.after.length; i++) {
+        const before = s.before[i];
+        const after = s.after[i];
+        const sp = species[Math.min(s.species[i], MAX_SPECIES - 1)];
+        if (after === 1) {
+            live++;
+            sp.liveCells++;
+            if (before !== 1) {
+                births++;
+                sp.births++;
+            }
+        } else if (before === 1) {
+            deaths++;
+            sp.deaths++;
+        }
+        if (!lcr) continue;
+
+        if (after === 1) {
+            totalEnergy += s.energy[i];
+            sp.totalEnergy += s.energy[i];
+            ageSum += s.age[i];
+            if (s.age[i] > maxAge) maxAge = s.age[i];
+        }
+        corpseEnergy += s.deadEnergy[i];
+        const a = s.activity[i];
+        messagesSent += (a & 1) + ((a >>> 1) & 1);
+        movesAttempted += (a >>> 2) & 1;
+        movesSucceeded += (a >>> 3) & 1;
+    }
+    return {
+        liveCells: live,
+        births,
+        deaths,
+        totalEnergy,
+        corpseEnergy,
+        meanAge: live > 0 ? ageSum / live : 0,
+        maxAge,
+        movesAttempted,
+        movesSucceeded,
+        messagesSent,
+        species,
+    };
+}
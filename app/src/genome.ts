@@ -0,0 +1,80 @@
+import { randHash3 } from './random'
+
+// heritable genomes (genome.wgsl): every agent carries two u32 words that travel with it and
+// are copied, with per-bit mutation, into each agent born next to it. the genetic modes decode
+// them instead of a global setting:
+//
+//   movement word (move_mode 2, movement.wgsl)
+//     bits 0-7    move chance: moves when an 8-bit hash is below it (0 never moves)
+//     bits 8-9    rule: 0 random empty neighbor, 1 toward corpse scent, 2 toward a neighbor whose
+//                 reply equals the signal, 3 fixed heading (blocked attempts still cost)
+//     bits 12-15  signal followed by rule 2 (low k bits used)
+//     bits 16-20  heading of rule 3 (mod neighbor count)
+//   messaging word (msg modes 3, messaging.wgsl)
+//     bits 0-3    broadcast payload
+//     bits 4-5    reply rule: 0 silent, 1 constant, 2 echo (OR of the inbox), 3 echo xor constant
+//     bits 8-11   reply constant
+//
+// the other bits are not expressed and drift freely. genetic payloads cost energy like learned ones
+
+export const GENOME_WORDS = 2
+
+export interface MoveGenes {
+  chance: number
+  rule: 'random' | 'scent' | 'signal' | 'heading'
+  signal: number
+  heading: number
+}
+
+export interface MessageGenes {
+  broadcast: number
+  reply: 'silent' | 'constant' | 'echo' | 'echo-xor'
+  constant: number
+}
+
+const MOVE_RULES: MoveGenes['rule'][] = ['random', 'scent', 'signal', 'heading']
+const REPLY_RULES: MessageGenes['reply'][] = ['silent', 'constant', 'echo', 'echo-xor']
+
+export function decodeMoveGenes(word: number): MoveGenes {
+  return {
+    chance: word & 0xff,
+    rule: MOVE_RULES[(word >>> 8) & 3],
+    signal: (word >>> 12) & 0xf,
+    heading: (word >>> 16) & 0x1f,
+  }
+}
+
+export function decodeMessageGenes(word: number): MessageGenes {
+  return {
+    broadcast: word & 0xf,
+    reply: REPLY_RULES[(word >>> 4) & 3],
+    constant: (word >>> 8) & 0xf,
+  }
+}
+
+// founder_word() of genome.wgsl: the words of an agent without parents
+export function founderGenome(x: number, y: number, generation: number, seed: number): [number, number] {
+  const salt = (x ^ 0x27d4eb2f) >>> 0
+  return [randHash3(salt, (y ^ 0x165667b1) >>> 0, generation, seed), randHash3(salt, (y ^ 0x165667b2) >>> 0, generation, seed)]
+}
+
+// genomes for a fresh population (randomize), as genome_inherit would hand them to founders
+export function assignFounderGenomes(
+  alive: Uint32Array,
+  width: number,
+  generation: number,
+  seed: number,
+  move: Uint32Array,
+  msg: Uint32Array
+): void {
+  for (let i = 0; i < alive.length; i++) {
+    if (alive[i] !== 1) {
+      move[i] = 0
+      msg[i] = 0
+      continue
+    }
+    const [m, s] = founderGenome(i % width, Math.floor(i / width), generation, seed)
+    move[i] = m
+    msg[i] = s
+  }
+}
@@ -0,0 +1,119 @@
+import type { Stats } from './webgpu/types'
+
+// rolling per-generation history of the population stats, backing the sidebar charts and CSV export.
+// one sample per generation in a fixed-capacity ring; edits at the current generation replace the
+// newest sample and a generation going backwards (reset, randomize, resize) starts a new run
+
+export const HISTORY_FIELDS = [
+  'generation',
+  'liveCells',
+  'births',
+  'deaths',
+  'totalEnergy',
+  'corpseEnergy',
+  'meanAge',
+] as const
+
+export type HistoryField = (typeof HISTORY_FIELDS)[number]
+
+export const DEFAULT_HISTORY_WINDOW = 5000
+export const MIN_HISTORY_WINDOW = 100
+export const MAX_HISTORY_WINDOW = 100000
+
+type Columns = Record<HistoryField, Float64Array>
+
+function allocColumns(capacity: number): Columns {
+  const cols = {} as Columns
+  for (const f of HISTORY_FIELDS) cols[f] = new Float64Array(capacity)
+  return cols
+}
+
+export class StatsHistory {
+  private columns: Columns
+  private capacity: number
+  private start = 0
+  private length = 0
+
+  constructor(capacity: number = DEFAULT_HISTORY_WINDOW) {
+    this.capacity = clampWindow(capacity)
+    this.columns = allocColumns(this.capacity)
+  }
+
+  get size(): number {
+    return this.length
+  }
+
+  get window(): number {
+    return this.capacity
+  }
+
+  // keeps the newest samples that still fit
+  setWindow(capacity: number): void {
+    const next = clampWindow(capacity)
+    if (next === this.capacity) return
+    const keep = Math.min(this.length, next)
+    const cols = allocColumns(next)
+    for (const f of HISTORY_FIELDS) cols[f].set(this.series(f).subarray(this.length - keep))
+    this.columns = cols
+    this.capacity = next
+    this.start = 0
+    this.length = keep
+  }
+
+  clear(): void {
+    this.start = 0
+    this.length = 0
+  }
+
+  // returns true when the history changed
+  record(stats: Stats): boolean {
+    if (this.length > 0) {
+      const last = this.columns.generation[this.slot(this.length - 1)]
+      if (stats.generation < last) {
+        this.clear()
+      } else if (stats.generation === last) {
+        this.write(this.slot(this.length - 1), stats)
+        return true
+      }
+    }
+    if (this.length < this.capacity) {
+      this.write(this.slot(this.length), stats)
+      this.length++
+    } else {
+      this.write(this.start, stats)
+      this.start = (this.start + 1) % this.capacity
+    }
+    return true
+  }
+
+  // samples of one field, oldest first
+  series(field: HistoryField): Float64Array {
+    const col = this.columns[field]
+    const out = new Float64Array(this.length)
+    const head = Math.min(this.length, this.capacity - this.start)
+    out.set(col.subarray(this.start, this.start + head))
+    out.set(col.subarray(0, this.length - head), head)
+    return out
+  }
+
+  toCSV(): string {
+    const cols = HISTORY_FIELDS.map((f) => this.series(f))
+    const lines = [HISTORY_FIELDS.join(',')]
+    for (let i = 0; i < this.length; i++) {
+      lines.push(cols.map((c) => String(c[i])).join(','))
+    }
+    return lines.join('\n') + '\n'
+  }
+
+  private slot(n: number): number {
+    return (this.start + n) % this.capacity
+  }
+
+  private write(slot: number, stats: Stats): void {
+    for (const f of HISTORY_FIELDS) this.columns[f][slot] = stats[f]
+  }
+}
+
+function clampWindow(n: number): number {
+  return Math.min(MAX_HISTORY_WINDOW, Math.max(MIN_HISTORY_WINDOW, Math.floor(n)))
+}
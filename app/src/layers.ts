@@ -0,0 +1,109 @@
+import { MAX_SPECIES } from './species'
+
+// display layers drawn over the cells by render.wgsl, one per LCR state buffer.
+// layers are composited in LAYERS order over the cell colors: each enabled layer mixes its
+// colormap color in with its opacity. zero values are transparent so sparse fields (messages,
+// scent, corpses) only tint the cells that carry them.
+//  - range [min, max] maps values to 0..1 along continuous colormaps
+//  - 'categorical' ignores the range and gives each distinct integer payload its own hue
+
+export type LayerField =
+  | 'energy'
+  | 'dead_energy'
+  | 'age'
+  | 'msg_out'
+  | 'inbox0'
+  | 'energy_scent'
+  | 'source_map'
+
+export type Colormap = 'grey' | 'heat' | 'viridis' | 'inferno' | 'diverging' | 'categorical'
+
+export const COLORMAPS: { colormap: Colormap; label: string }[] = [
+  { colormap: 'grey', label: 'Grey' },
+  { colormap: 'heat', label: 'Heat' },
+  { colormap: 'viridis', label: 'Viridis' },
+  { colormap: 'inferno', label: 'Inferno' },
+  { colormap: 'diverging', label: 'Diverging' },
+  { colormap: 'categorical', label: 'Categorical' },
+]
+
+export const COLORMAP_CODES: Record<Colormap, number> = {
+  grey: 0,
+  heat: 1,
+  viridis: 2,
+  inferno: 3,
+  diverging: 4,
+  categorical: 5,
+}
+
+export interface LayerSettings {
+  field: LayerField
+  enabled: boolean
+  opacity: number // 0..1
+  colormap: Colormap
+  min: number
+  max: number
+}
+
+export interface DisplaySettings {
+  cellOpacity: number // 0 hides alive/refractory cells, leaving only the layers
+  layers: LayerSettings[]
+}
+
+// fixed order: matches the layer slots in render.wgsl
+export const LAYERS: { field: LayerField; label: string; defaults: Omit<LayerSettings, 'field' | 'enabled'> }[] = [
+  { field: 'energy', label: 'Energy', defaults: { opacity: 0.7, colormap: 'heat', min: 0, max: 1 } },
+  { field: 'dead_energy', label: 'Corpse energy', defaults: { opacity: 0.7, colormap: 'inferno', min: 0, max: 1 } },
+  { field: 'age', label: 'Age', defaults: { opacity: 0.7, colormap: 'viridis', min: 0, max: 100 } },
+  { field: 'msg_out', label: 'Messages out', defaults: { opacity: 0.8, colormap: 'categorical', min: 0, max: 15 } },
+  { field: 'inbox0', label: 'Inbox', defaults: { opacity: 0.8, colormap: 'categorical', min: 0, max: 255 } },
+  { field: 'energy_scent', label: 'Energy scent', defaults: { opacity: 0.6, colormap: 'categorical', min: 0, max: 255 } },
+  { field: 'source_map', label: 'Energy sources', defaults: { opacity: 0.5, colormap: 'diverging', min: -1, max: 1 } },
+]
+
+export const LAYER_COUNT = LAYERS.length
+
+export const DEFAULT_DISPLAY: DisplaySettings = {
+  cellOpacity: 1,
+  layers: LAYERS.map(({ field, defaults }) => ({ field, enabled: false, ...defaults })),
+}
+
+// render uniforms: 8-word header (width, height, cell size, states, cell opacity, pad), one
+// 4-word slot per layer (opacity, colormap, min, max; opacity 0 disables the slot), then one
+// rgb + pad agent color per species
+export const RENDER_UNIFORM_BYTES = 32 + LAYER_COUNT * 16 + MAX_SPECIES * 16
+
+export function packRenderUniforms(
+  width: number,
+  height: number,
+  cellSize: number,
+  states: number,
+  display: DisplaySettings,
+  speciesColors: [number, number, number][]
+): ArrayBuffer {
+  const bytes = new ArrayBuffer(RENDER_UNIFORM_BYTES)
+  const u32 = new Uint32Array(bytes)
+  const f32 = new Float32Array(bytes)
+  u32[0] = width
+  u32[1] = height
+  u32[2] = Math.max(1, Math.floor(cellSize))
+  u32[3] = states
+  f32[4] = clamp01(display.cellOpacity)
+  LAYERS.forEach(({ field }, slot) => {
+    const layer = display.layers.find((l) => l.field === field)
+    const base = 8 + slot * 4
+    if (!layer || !layer.enabled) return
+    f32[base] = clamp01(layer.opacity)
+    u32[base + 1] = COLORMAP_CODES[layer.colormap]
+    f32[base + 2] = layer.min
+    f32[base + 3] = layer.max
+  })
+  speciesColors.slice(0, MAX_SPECIES).forEach((rgb, s) => {
+    f32.set(rgb, 8 + LAYER_COUNT * 4 + s * 4)
+  })
+  return bytes
+}
+
+function clamp01(v: number): number {
+  return Math.min(1, Math.max(0, v))
+}
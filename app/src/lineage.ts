@@ -0,0 +1,104 @@
+import { BOUNDARY_CODES, OUTSIDE, resolveCell, type BoundaryMode } from './boundary'
+import { NEIGHBORHOOD_CODES, neighborDir, neighborhoodSize, type Neighborhood } from './neighborhood'
+
+// agent identities (lineage.wgsl): agent_id holds a nonzero id per live agent that follows it
+// through moves; births get fresh ids in row-major order from a counter, founders (the initial
+// fill, cells drawn by hand) get theirs on randomize or on the next tick. the lineage log below
+// is rebuilt on the host from per-tick readbacks, only while tracking is on
+
+export const FIRST_AGENT_ID = 1
+
+// ids for a fresh population, row-major like the kernel; returns the next free id
+export function assignFounderIds(alive: Uint32Array, ids: Uint32Array): number {
+  let next = FIRST_AGENT_ID
+  for (let i = 0; i < alive.length; i++) ids[i] = alive[i] === 1 ? next++ : 0
+  return next
+}
+
+export interface LineageRecord {
+  id: number
+  born: number // generation the agent first appeared in
+  cell: number // where it appeared
+  parents: number[] // ids of the agents next to it before Life; [] for founders
+  died: number | null // generation it was gone in, null while alive
+}
+
+// what one tick leaves behind (fields agent_id_mid, agent_id, birth_parents)
+export interface LineageTick {
+  generation: number // generation after the tick
+  width: number
+  height: number
+  boundary: BoundaryMode
+  neighborhood: Neighborhood
+  idMid: Uint32Array // ids after movement, before Life
+  id: Uint32Array // ids after the tick
+  birthParents: Uint32Array // bit d: neighbor d was an agent before Life (births only)
+}
+
+export class LineageLog {
+  private records = new Map<number, LineageRecord>()
+  private live = new Set<number>()
+
+  // agents present when tracking starts, recorded as founders
+  constructor(generation: number, ids: Uint32Array) {
+    for (let i = 0; i < ids.length; i++) {
+      if (ids[i] !== 0) this.add({ id: ids[i], born: generation, cell: i, parents: [], died: null })
+    }
+  }
+
+  get size(): number {
+    return this.records.size
+  }
+
+  get(id: number): LineageRecord | undefined {
+    return this.records.get(id)
+  }
+
+  recordTick(tick: LineageTick): void {
+    const { width, height, idMid, id, birthParents } = tick
+    const boundary = BOUNDARY_CODES[tick.boundary]
+    const code = NEIGHBORHOOD_CODES[tick.neighborhood]
+    const n = neighborhoodSize(code)
+    const present = new Set<number>()
+    for (let i = 0; i < id.length; i++) {
+      const a = id[i]
+      if (a === 0) continue
+      present.add(a)
+      if (this.records.has(a)) continue
+      const parents: number[] = []
+      const mask = birthParents[i]
+      if (mask !== 0) {
+        const x = i % width
+        const y = Math.floor(i / width)
+        for (let d = 0; d < n; d++) {
+          if (!(mask & (1 << d))) continue
+          const [dx, dy] = neighborDir(code, d, y)
+          const j = resolveCell(x + dx, y + dy, width, height, boundary)
+          if (j !== OUTSIDE && idMid[j] !== 0) parents.push(idMid[j])
+        }
+      }
+      this.add({ id: a, born: tick.generation, cell: i, parents, died: null })
+    }
+    for (const a of this.live) {
+      if (present.has(a)) continue
+      this.records.get(a)!.died = tick.generation
+      this.live.delete(a)
+    }
+  }
+
+  // records in id order (= birth order)
+  entries(): LineageRecord[] {
+    return [...this.records.values()].sort((a, b) => a.id - b.id)
+  }
+
+  // one row per agent; parents space-separated
+  toCSV(): string {
+    const rows = this.entries().map((r) => [r.id, r.born, r.cell, r.died ?? '', r.parents.join(' ')].join(','))
+    return ['id,born,cell,died,parents', ...rows].join('\n') + '\n'
+  }
+
+  private add(record: LineageRecord): void {
+    this.records.set(record.id, record)
+    this.live.add(record.id)
+  }
+}
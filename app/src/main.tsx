@@ -1,10 +1,10 @@
-import { StrictMode, useEffect, useRef, useState, useCallback } from "react";
+import { StrictMode, useEffect, useRef, useState, useCallback, useMemo } from "react";
 import { createRoot } from "react-dom/client";
-import {PlayIcon, PauseIcon, Grid2X2Plus, Turtle, Rabbit, FullscreenIcon} from 'lucide-react'
+import {PlayIcon, PauseIcon, Grid2X2Plus, Turtle, Rabbit, FullscreenIcon, DownloadIcon, UploadIcon, History, Dices, RotateCcw, XIcon, Undo2, Redo2, StepBack} from 'lucide-react'
 import "./index.css";
 import { Canvas } from "./canvas";
 import { Button } from "./components/ui/button";
-import type { CanvasHandler } from "./canvas";
+import type { CanvasHandler, CanvasTool } from "./canvas";
 import type { Stats } from "./gpu";
 import {
   SidebarProvider,
@@ -21,6 +21,47 @@ import {
 } from "./components/ui/sidebar";
 import { clamp, DraggableNumericInput } from "./components/ui/draggable";
 import { Switch } from './components/ui/switch'
+import { Input } from './components/ui/input'
+import { RULE_PRESETS, DEFAULT_RULE, parseRule, formatRule } from './rules'
+import { BOUNDARY_MODES, type BoundaryMode } from './boundary'
+import { NEIGHBORHOODS, type Neighborhood } from './neighborhood'
+import { StatsHistory, DEFAULT_HISTORY_WINDOW, MIN_HISTORY_WINDOW, MAX_HISTORY_WINDOW } from './history'
+import { TimeSeriesChart } from './components/charts'
+import { LayerControls } from './components/layers'
+import { DEFAULT_DISPLAY, type DisplaySettings } from './layers'
+import { NumberField } from './components/number-field'
+import { PhysicsControls } from './components/physics'
+import { DEFAULT_PHYSICS, applyParams, type PhysicsParams } from './params'
+import { PresetControls } from './components/presets'
+import { SpeciesControls } from './components/species'
+import { DEFAULT_SPECIES, validateSpecies, type SpeciesConfig } from './species'
+import { MOVEMENT_POLICIES } from './policy/movement'
+import { MESSAGING_POLICIES } from './policy/messaging'
+import { parsePolicyNet, policyLayerSizes } from './policy/mlp'
+import {
+  createPreset,
+  parsePreset,
+  serializePreset,
+  encodeSourceMap,
+  decodeSourceMap,
+  loadStoredPresets,
+  storePreset,
+  deleteStoredPreset,
+  type Preset,
+} from './presets'
+import {
+  BRUSH_SHAPES,
+  SOURCE_PRESETS,
+  DEFAULT_BRUSH,
+  MAX_SOURCE_STRENGTH,
+  clampStrength,
+  type Brush,
+  type BrushShape,
+  type SourcePreset,
+} from './sources'
+import { encodeSnapshot, decodeSnapshot } from './snapshot'
+import { MAX_SEED, isValidSeed, randomSeed } from './random'
+import { downloadText, downloadBlob } from './lib/utils'
 
 function SidebarHotkeys() {
   const { toggleSidebar } = useSidebar();
@@ -141,6 +182,66 @@ function App() {
   const [mode, setMode] = useState<"LCR" | "Conway">("LCR");
   const [speed, setSpeedValue] = useState(200); //200ms default
   const [density, setDensity] = useState(30); //0.3 default
+  const [rule, setRule] = useState(DEFAULT_RULE);
+  const [ruleDraft, setRuleDraft] = useState(DEFAULT_RULE);
+  const [ruleError, setRuleError] = useState<string | null>(null);
+  const [boundary, setBoundary] = useState<BoundaryMode>("torus");
+  const [neighborhood, setNeighborhood] = useState<Neighborhood>("moore");
+  const [display, setDisplay] = useState<DisplaySettings>(DEFAULT_DISPLAY);
+  const [params, setParams] = useState<PhysicsParams>(DEFAULT_PHYSICS);
+  const [paramsError, setParamsError] = useState<string | null>(null);
+  const [species, setSpecies] = useState<SpeciesConfig>(DEFAULT_SPECIES);
+  const [speciesError, setSpeciesError] = useState<string | null>(null);
+  const [drawSpecies, setDrawSpecies] = useState(0);
+  const [seed, setSeed] = useState(randomSeed);
+  const [movementPolicy, setMovementPolicy] = useState(MOVEMENT_POLICIES[0].name);
+  const [messagingPolicy, setMessagingPolicy] = useState(MESSAGING_POLICIES[0].name);
+  const [seedError, setSeedError] = useState<string | null>(null);
+  const [policyNetLabel, setPolicyNetLabel] = useState<string | null>(null);
+  const [policyNetError, setPolicyNetError] = useState<string | null>(null);
+  const policyNetFileRef = useRef<HTMLInputElement>(null);
+  const [trackLineage, setTrackLineage] = useState(false);
+  const [recordTimeline, setRecordTimeline] = useState(false);
+  const [presets, setPresets] = useState<Preset[]>(loadStoredPresets);
+  const [presetError, setPresetError] = useState<string | null>(null);
+  const [compressSnapshot, setCompressSnapshot] = useState(true);
+  const [snapshotError, setSnapshotError] = useState<string | null>(null);
+  const snapshotFileRef = useRef<HTMLInputElement>(null);
+  const [tool, setTool] = useState<CanvasTool>("cells");
+  const [brush, setBrush] = useState<Brush>(DEFAULT_BRUSH);
+  const [sourcePreset, setSourcePreset] = useState<SourcePreset>("spot");
+  const historyRef = useRef(new StatsHistory(DEFAULT_HISTORY_WINDOW));
+  const [historyWindow, setHistoryWindow] = useState(DEFAULT_HISTORY_WINDOW);
+
+  const handleStatsUpdate = useCallback((next: Stats) => {
+    historyRef.current.record(next);
+    setStats(next);
+  }, []);
+
+  const handleHistoryWindowChange = useCallback((next: number) => {
+    const clamped = clamp(next, MIN_HISTORY_WINDOW, MAX_HISTORY_WINDOW);
+    historyRef.current.setWindow(clamped);
+    setHistoryWindow(clamped);
+  }, []);
+
+  const exportHistory = useCallback(() => {
+    const gen = stats?.generation ?? 0;
+    downloadText(`lcr-stats-gen${gen}.csv`, historyRef.current.toCSV(), "text/csv");
+  }, [stats?.generation]);
+
+  // history is mutated in place; re-read it whenever a new stats sample arrives
+  const chartData = useMemo(() => {
+    const h = historyRef.current;
+    return {
+      generation: h.series("generation"),
+      live: h.series("liveCells"),
+      births: h.series("births"),
+      deaths: h.series("deaths"),
+      energy: h.series("totalEnergy"),
+      corpse: h.series("corpseEnergy"),
+      meanAge: h.series("meanAge"),
+    };
+  }, [stats, historyWindow]);
 
   useEffect(() => {
     if (stats?.speed != null) {
@@ -160,6 +261,210 @@ function App() {
     canvasRef.current?.randomize(clamped / 100);
   }, []);
 
+  // a new seed restarts the run from that seed's initial state
+  const handleSeedChange = useCallback((next: number) => {
+    if (!isValidSeed(next)) {
+      setSeedError(`Seed must be an integer in 0..${MAX_SEED}`);
+      return;
+    }
+    setSeed(next);
+    setSeedError(null);
+    canvasRef.current?.setSeed(next);
+    canvasRef.current?.randomize(density / 100);
+  }, [density]);
+
+  const commitRule = useCallback((text: string) => {
+    try {
+      const normalized = formatRule(parseRule(text));
+      setRule(normalized);
+      setRuleDraft(normalized);
+      setRuleError(null);
+    } catch (err) {
+      setRuleError(err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  const handlePhysicsChange = useCallback((patch: Partial<PhysicsParams>) => {
+    try {
+      setParams(applyParams(params, patch));
+      setParamsError(null);
+    } catch (err) {
+      setParamsError(err instanceof Error ? err.message : String(err));
+    }
+  }, [params]);
+
+  const handleSpeciesChange = useCallback((next: SpeciesConfig) => {
+    try {
+      setSpecies(validateSpecies(next));
+      setSpeciesError(null);
+    } catch (err) {
+      setSpeciesError(err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  // presets: snapshot of every setting that shapes a run (see presets.ts)
+  const currentPreset = useCallback((name: string): Preset => {
+    const source = canvasRef.current?.getSourceMap();
+    return createPreset(name, {
+      mode,
+      rule,
+      boundary,
+      neighborhood,
+      params,
+      grid: {
+        width: Math.floor(canvasWidth / cellSize),
+        height: Math.floor(canvasHeight / cellSize),
+        cellSize,
+      },
+      speed,
+      seed,
+      species,
+      sourceMap: source ? encodeSourceMap(source.map) : null,
+    });
+  }, [mode, rule, boundary, neighborhood, params, canvasWidth, canvasHeight, cellSize, speed, seed, species]);
+
+  const applyPreset = useCallback((preset: Preset) => {
+    const c = preset.config;
+    setMode(c.mode);
+    setRule(c.rule);
+    setRuleDraft(c.rule);
+    setRuleError(null);
+    setBoundary(c.boundary);
+    setNeighborhood(c.neighborhood);
+    setParams(c.params);
+    setParamsError(null);
+    handleSpeedChange(c.speed);
+    setSeed(c.seed);
+    setSeedError(null);
+    setSpecies(c.species);
+    setSpeciesError(null);
+    setCellSize(clamp(c.grid.cellSize, 1, 10));
+    applyWidth(c.grid.width * c.grid.cellSize);
+    applyHeight(c.grid.height * c.grid.cellSize);
+    const map = c.sourceMap ? decodeSourceMap(c.sourceMap) : new Float32Array(c.grid.width * c.grid.height);
+    canvasRef.current?.loadSourceMap(map, c.grid.width, c.grid.height);
+    setPresetError(null);
+    console.log('Preset loaded', { name: preset.name });
+  }, [handleSpeedChange, applyWidth, applyHeight]);
+
+  const handleSavePreset = useCallback((name: string) => {
+    try {
+      setPresets(storePreset(currentPreset(name)));
+      setPresetError(null);
+    } catch (err) {
+      setPresetError(err instanceof Error ? err.message : String(err));
+    }
+  }, [currentPreset]);
+
+  const handleUploadPreset = useCallback(async (file: File) => {
+    try {
+      const preset = parsePreset(await file.text());
+      setPresets(storePreset(preset));
+      applyPreset(preset);
+    } catch (err) {
+      setPresetError(err instanceof Error ? err.message : String(err));
+    }
+  }, [applyPreset]);
+
+  const handleDownloadPreset = useCallback((name: string) => {
+    const preset = presets.find((p) => p.name === name);
+    if (!preset) return;
+    const file = name.replace(/[^\w.-]+/g, "_") || "preset";
+    downloadText(`${file}.lcr.json`, serializePreset(preset), "application/json");
+  }, [presets]);
+
+  // snapshots: the full simulation state as a binary file (see snapshot.ts)
+  const handleSaveSnapshot = useCallback(async () => {
+    try {
+      const state = await canvasRef.current?.exportSnapshot();
+      if (!state) return;
+      const bytes = await encodeSnapshot(state, { compress: compressSnapshot });
+      downloadBlob(`lcr-gen${state.generation}.lcrsnap`, new Blob([bytes as BlobPart], { type: "application/octet-stream" }));
+      setSnapshotError(null);
+    } catch (err) {
+      setSnapshotError(err instanceof Error ? err.message : String(err));
+    }
+  }, [compressSnapshot]);
+
+  const handleLoadSnapshot = useCallback(async (file: File) => {
+    try {
+      const state = await decodeSnapshot(new Uint8Array(await file.arrayBuffer()));
+      // sync the controls first so their effects do not overwrite the restored settings
+      setMode(state.mode);
+      setRule(state.rule);
+      setRuleDraft(state.rule);
+      setRuleError(null);
+      setBoundary(state.boundary);
+      setNeighborhood(state.neighborhood);
+      setParams(state.params);
+      setParamsError(null);
+      setSeed(state.seed);
+      setSeedError(null);
+      setSpecies(state.species);
+      setSpeciesError(null);
+      applyWidth(state.width * cellSize);
+      applyHeight(state.height * cellSize);
+      await canvasRef.current?.loadSnapshot(state);
+      setSnapshotError(null);
+    } catch (err) {
+      setSnapshotError(err instanceof Error ? err.message : String(err));
+    }
+  }, [applyWidth, applyHeight, cellSize]);
+
+  // neural policy: MLP weights run on the GPU for every learned head (see policy/mlp.ts)
+  const handleLoadPolicyNet = useCallback(async (file: File) => {
+    try {
+      const net = parsePolicyNet(await file.text());
+      canvasRef.current?.loadPolicyWeights(net);
+      setPolicyNetLabel(`${policyLayerSizes(net.layout).join("-")} ${net.layout.activation}`);
+      setPolicyNetError(null);
+    } catch (err) {
+      setPolicyNetError(err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  const handleClearPolicyNet = useCallback(() => {
+    canvasRef.current?.clearPolicyWeights();
+    setPolicyNetLabel(null);
+    setPolicyNetError(null);
+  }, []);
+
+  // lineage: births and deaths per agent id, logged from the moment tracking is switched on
+  const handleTrackLineage = useCallback(async (enabled: boolean) => {
+    await canvasRef.current?.setLineageTracking(enabled);
+    setTrackLineage(enabled);
+  }, []);
+
+  const exportLineage = useCallback(() => {
+    const csv = canvasRef.current?.exportLineage();
+    if (!csv) return;
+    const gen = stats?.generation ?? 0;
+    downloadText(`lcr-lineage-gen${gen}.csv`, csv, "text/csv");
+  }, [stats?.generation]);
+
+  // timeline: the recorded generations plus the current one, oldest first (see timeline.ts);
+  // every rewind and tick arrives as a stats update, so re-read them on those
+  const timelineGenerations = useMemo(() => {
+    const gens = canvasRef.current?.getTimeline() ?? [];
+    const gen = stats?.generation ?? 0;
+    return gens.includes(gen) ? gens : [...gens, gen].sort((a, b) => a - b);
+  }, [stats, recordTimeline]);
+  const timelineIndex = timelineGenerations.indexOf(stats?.generation ?? 0);
+  const undoState = useMemo(
+    () => canvasRef.current?.getUndoState() ?? { canUndo: false, canRedo: false },
+    [stats]
+  );
+
+  const handleRecordTimeline = useCallback((enabled: boolean) => {
+    canvasRef.current?.setTimelineRecording(enabled);
+    setRecordTimeline(enabled);
+  }, []);
+
+  const handleRewind = useCallback((generation: number | undefined) => {
+    if (generation === undefined || generation === stats?.generation) return;
+    void canvasRef.current?.rewindTo(generation);
+  }, [stats?.generation]);
+
   const handleCellSizeChange = useCallback((next: number) => {
     const clamped = clamp(next, 1, 10);
     setCellSize(clamped);
@@ -194,6 +499,24 @@ function App() {
               >
                 Clear
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!undoState.canUndo}
+                onClick={() => canvasRef.current?.undo()}
+                aria-label="Undo (Ctrl+Z)"
+              >
+                <Undo2 />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!undoState.canRedo}
+                onClick={() => canvasRef.current?.redo()}
+                aria-label="Redo (Ctrl+Shift+Z)"
+              >
+                <Redo2 />
+              </Button>
             </div>
           </div>
         </SidebarHeader>
@@ -217,6 +540,316 @@ function App() {
             </SidebarGroupContent>
           </SidebarGroup>
 
+          <SidebarGroup>
+            <SidebarGroupLabel>Presets</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <PresetControls
+                presets={presets}
+                error={presetError}
+                onSave={handleSavePreset}
+                onLoad={applyPreset}
+                onDelete={(name) => setPresets(deleteStoredPreset(name))}
+                onDownload={handleDownloadPreset}
+                onUpload={handleUploadPreset}
+              />
+            </SidebarGroupContent>
+          </SidebarGroup>
+
+          <SidebarGroup>
+            <SidebarGroupLabel>Snapshot</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <div className="flex flex-col gap-2">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    aria-label="Compress snapshot"
+                    checked={compressSnapshot}
+                    onCheckedChange={(checked: boolean) => setCompressSnapshot(checked)}
+                  />
+                  <span className="text-xs text-sidebar-foreground/60 flex-1">Compress</span>
+                  <Button variant="outline" size="sm" aria-label="Save snapshot" onClick={handleSaveSnapshot}>
+                    <DownloadIcon />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    aria-label="Load snapshot from file"
+                    onClick={() => snapshotFileRef.current?.click()}
+                  >
+                    <UploadIcon />
+                  </Button>
+                  <input
+                    ref={snapshotFileRef}
+                    type="file"
+                    accept=".lcrsnap,application/octet-stream"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleLoadSnapshot(file);
+                      e.target.value = "";
+                    }}
+                  />
+                </div>
+                {snapshotError && <span className="text-xs text-destructive">{snapshotError}</span>}
+              </div>
+            </SidebarGroupContent>
+          </SidebarGroup>
+
+          <SidebarGroup>
+            <SidebarGroupLabel>Life Rule</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <div className="flex flex-col gap-2">
+                <select
+                  aria-label="Rule preset"
+                  className="h-8 w-full rounded-md border border-input bg-transparent px-2 text-sm"
+                  value={RULE_PRESETS.some((p) => p.notation === rule) ? rule : ""}
+                  onChange={(e) => {
+                    if (e.target.value) commitRule(e.target.value);
+                  }}
+                >
+                  {RULE_PRESETS.map((p) => (
+                    <option key={p.notation} value={p.notation}>
+                      {p.name} ({p.notation})
+                    </option>
+                  ))}
+                  <option value="">Custom</option>
+                </select>
+                <Input
+                  aria-label="Rule in B/S notation"
+                  aria-invalid={ruleError !== null}
+                  className="h-8 font-mono"
+                  value={ruleDraft}
+                  placeholder="B3/S23"
+                  onChange={(e) => {
+                    setRuleDraft(e.target.value);
+                    setRuleError(null);
+                  }}
+                  onKeyDown={(e) => {
+                    // keep typed characters out of the global canvas/sidebar hotkeys
+                    e.stopPropagation();
+                    if (e.key === "Enter") commitRule(ruleDraft);
+                  }}
+                  onBlur={() => commitRule(ruleDraft)}
+                />
+                {ruleError && (
+                  <span className="text-xs text-destructive">{ruleError}</span>
+                )}
+              </div>
+            </SidebarGroupContent>
+          </SidebarGroup>
+
+          <SidebarGroup>
+            <SidebarGroupLabel>Boundary</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <select
+                aria-label="Boundary condition"
+                className="h-8 w-full rounded-md border border-input bg-transparent px-2 text-sm"
+                value={boundary}
+                onChange={(e) => setBoundary(e.target.value as BoundaryMode)}
+              >
+                {BOUNDARY_MODES.map((b) => (
+                  <option key={b.mode} value={b.mode}>
+                    {b.label}
+                  </option>
+                ))}
+              </select>
+            </SidebarGroupContent>
+          </SidebarGroup>
+
+          <SidebarGroup>
+            <SidebarGroupLabel>Neighborhood</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <select
+                aria-label="Neighborhood"
+                className="h-8 w-full rounded-md border border-input bg-transparent px-2 text-sm"
+                value={neighborhood}
+                onChange={(e) => setNeighborhood(e.target.value as Neighborhood)}
+              >
+                {NEIGHBORHOODS.map((n) => (
+                  <option key={n.neighborhood} value={n.neighborhood}>
+                    {n.label}
+                  </option>
+                ))}
+              </select>
+            </SidebarGroupContent>
+          </SidebarGroup>
+
+          <SidebarGroup>
+            <SidebarGroupLabel>Physics</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <PhysicsControls params={params} error={paramsError} onChange={handlePhysicsChange} />
+              {(params.msg_mode_stage1 === 2 || params.msg_mode_stage3 === 2) && (
+                <label className="flex items-center justify-between gap-2 pt-1.5">
+                  <span className="text-xs text-sidebar-foreground/60">Messaging policy</span>
+                  <select
+                    aria-label="Messaging policy"
+                    className="h-7 rounded-md border border-input bg-transparent px-1 text-xs"
+                    value={messagingPolicy}
+                    onChange={(e) => setMessagingPolicy(e.target.value)}
+                  >
+                    {MESSAGING_POLICIES.map((p) => (
+                      <option key={p.name} value={p.name}>
+                        {p.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              {params.move_mode === 1 && (
+                <label className="flex items-center justify-between gap-2 pt-1.5">
+                  <span className="text-xs text-sidebar-foreground/60">Movement policy</span>
+                  <select
+                    aria-label="Movement policy"
+                    className="h-7 rounded-md border border-input bg-transparent px-1 text-xs"
+                    value={movementPolicy}
+                    onChange={(e) => setMovementPolicy(e.target.value)}
+                  >
+                    {MOVEMENT_POLICIES.map((p) => (
+                      <option key={p.name} value={p.name}>
+                        {p.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              {(params.msg_mode_stage1 === 2 || params.msg_mode_stage3 === 2 || params.move_mode === 1) && (
+                <div className="flex flex-col gap-1 pt-1.5">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-sidebar-foreground/60 flex-1">
+                      Neural policy: {policyNetLabel ?? "none"}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      aria-label="Load policy weights from file"
+                      onClick={() => policyNetFileRef.current?.click()}
+                    >
+                      <UploadIcon />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      aria-label="Clear policy weights"
+                      disabled={policyNetLabel === null}
+                      onClick={handleClearPolicyNet}
+                    >
+                      <XIcon />
+                    </Button>
+                    <input
+                      ref={policyNetFileRef}
+                      type="file"
+                      accept=".json,application/json"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleLoadPolicyNet(file);
+                        e.target.value = "";
+                      }}
+                    />
+                  </div>
+                  {policyNetError && <span className="text-xs text-destructive">{policyNetError}</span>}
+                </div>
+              )}
+            </SidebarGroupContent>
+          </SidebarGroup>
+
+          <SidebarGroup>
+            <SidebarGroupLabel>Species</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SpeciesControls
+                config={species}
+                error={speciesError}
+                drawSpecies={drawSpecies}
+                stats={stats?.species ?? null}
+                onChange={handleSpeciesChange}
+                onDrawSpeciesChange={setDrawSpecies}
+              />
+            </SidebarGroupContent>
+          </SidebarGroup>
+
+          <SidebarGroup>
+            <SidebarGroupLabel>Energy Sources</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <div className="flex flex-col gap-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className={`text-sm ${tool === "cells" ? "font-bold" : ""}`}>Draw cells</span>
+                  <Switch
+                    aria-label="Paint energy sources"
+                    checked={tool === "source"}
+                    onCheckedChange={(checked: boolean) => setTool(checked ? "source" : "cells")}
+                  />
+                  <span className={`text-sm ${tool === "source" ? "font-bold" : ""}`}>Paint sources</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <select
+                    aria-label="Brush shape"
+                    className="h-8 flex-1 rounded-md border border-input bg-transparent px-2 text-sm"
+                    value={brush.shape}
+                    onChange={(e) => setBrush({ ...brush, shape: e.target.value as BrushShape })}
+                  >
+                    {BRUSH_SHAPES.map((b) => (
+                      <option key={b.shape} value={b.shape}>
+                        {b.label}
+                      </option>
+                    ))}
+                  </select>
+                  <DraggableNumericInput
+                    width={24}
+                    ariaLabel="Brush radius in cells"
+                    label="R"
+                    value={brush.radius}
+                    min={0}
+                    max={50}
+                    dragScale={0.2}
+                    onChange={(radius) => setBrush({ ...brush, radius })}
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-sidebar-foreground/60">Strength</span>
+                  <NumberField
+                    ariaLabel={`Brush strength per tick, -${MAX_SOURCE_STRENGTH} to ${MAX_SOURCE_STRENGTH}`}
+                    className="w-20"
+                    value={brush.strength}
+                    onCommit={(v) => setBrush({ ...brush, strength: clampStrength(v) })}
+                  />
+                  <span className="ml-auto text-xs text-sidebar-foreground/60">Erase</span>
+                  <Switch
+                    aria-label="Erase sources"
+                    checked={brush.erase}
+                    onCheckedChange={(erase: boolean) => setBrush({ ...brush, erase })}
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <select
+                    aria-label="Source map preset"
+                    className="h-8 flex-1 rounded-md border border-input bg-transparent px-2 text-sm"
+                    value={sourcePreset}
+                    onChange={(e) => setSourcePreset(e.target.value as SourcePreset)}
+                  >
+                    {SOURCE_PRESETS.map((p) => (
+                      <option key={p.preset} value={p.preset}>
+                        {p.label}
+                      </option>
+                    ))}
+                  </select>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => canvasRef.current?.applySourcePreset(sourcePreset, brush.strength)}
+                  >
+                    Apply
+                  </Button>
+                </div>
+              </div>
+            </SidebarGroupContent>
+          </SidebarGroup>
+
+          <SidebarGroup>
+            <SidebarGroupLabel>Layers</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <LayerControls display={display} onChange={setDisplay} />
+            </SidebarGroupContent>
+          </SidebarGroup>
+
           <SidebarGroup>
             <SidebarGroupLabel>Grid Size</SidebarGroupLabel>
             <SidebarGroupContent>
@@ -283,6 +916,29 @@ function App() {
             </SidebarGroupContent>
           </SidebarGroup>
 
+          <SidebarGroup>
+            <SidebarGroupLabel>Seed</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <div className="flex flex-col gap-2">
+                <div className="flex items-center gap-2">
+                  <NumberField ariaLabel="Run seed" value={seed} onCommit={handleSeedChange} />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    aria-label="Restart from seed"
+                    onClick={() => canvasRef.current?.randomize(density / 100)}
+                  >
+                    <RotateCcw />
+                  </Button>
+                  <Button variant="outline" size="sm" aria-label="New random seed" onClick={() => handleSeedChange(randomSeed())}>
+                    <Dices />
+                  </Button>
+                </div>
+                {seedError && <span className="text-xs text-destructive">{seedError}</span>}
+              </div>
+            </SidebarGroupContent>
+          </SidebarGroup>
+
           <SidebarGroup>
             <SidebarGroupLabel>Speed</SidebarGroupLabel>
             <SidebarGroupContent>
@@ -302,6 +958,151 @@ function App() {
               </div>
             </SidebarGroupContent>
           </SidebarGroup>
+
+          <SidebarGroup>
+            <SidebarGroupLabel>Population</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <dl className="grid grid-cols-[1fr_auto] gap-x-4 gap-y-0.5 text-xs tabular-nums">
+                {[
+                  ["Live", stats?.liveCells ?? 0],
+                  ["Births", stats?.births ?? 0],
+                  ["Deaths", stats?.deaths ?? 0],
+                  ["Energy", (stats?.totalEnergy ?? 0).toFixed(1)],
+                  ["Corpse energy", (stats?.corpseEnergy ?? 0).toFixed(1)],
+                  ["Mean age", (stats?.meanAge ?? 0).toFixed(1)],
+                  ["Max age", stats?.maxAge ?? 0],
+                  ["Moves", `${stats?.movesSucceeded ?? 0} / ${stats?.movesAttempted ?? 0}`],
+                  ["Messages", stats?.messagesSent ?? 0],
+                ].map(([label, value]) => (
+                  <div key={label} className="contents">
+                    <dt className="text-sidebar-foreground/60">{label}</dt>
+                    <dd className="text-right">{value}</dd>
+                  </div>
+                ))}
+              </dl>
+            </SidebarGroupContent>
+          </SidebarGroup>
+
+          <SidebarGroup>
+            <SidebarGroupLabel>Lineage</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <div className="flex items-center gap-2">
+                <span className="text-sm flex-1">Track agents</span>
+                <Switch
+                  aria-label="Track agent lineage"
+                  checked={trackLineage}
+                  onCheckedChange={(checked: boolean) => handleTrackLineage(checked)}
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!trackLineage}
+                  onClick={exportLineage}
+                  aria-label="Export lineage as CSV"
+                >
+                  <DownloadIcon /> CSV
+                </Button>
+              </div>
+            </SidebarGroupContent>
+          </SidebarGroup>
+
+          <SidebarGroup>
+            <SidebarGroupLabel>Timeline</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <div className="flex flex-col gap-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm flex-1">Record generations</span>
+                  <Switch
+                    aria-label="Record recent generations"
+                    checked={recordTimeline}
+                    onCheckedChange={(checked: boolean) => handleRecordTimeline(checked)}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!recordTimeline || timelineIndex <= 0}
+                    onClick={() => handleRewind(timelineGenerations[timelineIndex - 1])}
+                    aria-label="Step back one generation"
+                  >
+                    <StepBack />
+                  </Button>
+                </div>
+                {recordTimeline && (
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="range"
+                      aria-label="Timeline"
+                      className="flex-1"
+                      min={0}
+                      max={timelineGenerations.length - 1}
+                      value={Math.max(0, timelineIndex)}
+                      onChange={(e) => handleRewind(timelineGenerations[Number(e.target.value)])}
+                    />
+                    <span className="text-xs text-sidebar-foreground/60 tabular-nums">
+                      {timelineGenerations[0] ?? 0}–{timelineGenerations[timelineGenerations.length - 1] ?? 0}
+                    </span>
+                  </div>
+                )}
+              </div>
+            </SidebarGroupContent>
+          </SidebarGroup>
+
+          <SidebarGroup>
+            <SidebarGroupLabel>History</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <div className="flex flex-col gap-2">
+                <div className="flex items-center gap-2">
+                  <DraggableNumericInput
+                    width={48}
+                    ariaLabel="History window in generations"
+                    label={History}
+                    labelClassName="w-4 h-4 text-sidebar-foreground/60"
+                    value={historyWindow}
+                    min={MIN_HISTORY_WINDOW}
+                    max={MAX_HISTORY_WINDOW}
+                    dragScale={50}
+                    onChange={handleHistoryWindowChange}
+                  />
+                  <span className="text-xs text-sidebar-foreground/60">gens</span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="ml-auto"
+                    onClick={exportHistory}
+                    aria-label="Export history as CSV"
+                  >
+                    <DownloadIcon /> CSV
+                  </Button>
+                </div>
+                <TimeSeriesChart
+                  title="Population"
+                  x={chartData.generation}
+                  series={[{ label: "Live", values: chartData.live, color: "var(--chart-2)" }]}
+                />
+                <TimeSeriesChart
+                  title="Births / deaths"
+                  x={chartData.generation}
+                  series={[
+                    { label: "Births", values: chartData.births, color: "var(--chart-2)" },
+                    { label: "Deaths", values: chartData.deaths, color: "var(--chart-1)" },
+                  ]}
+                />
+                <TimeSeriesChart
+                  title="Energy / corpse energy"
+                  x={chartData.generation}
+                  series={[
+                    { label: "Energy", values: chartData.energy, color: "var(--chart-4)" },
+                    { label: "Corpse energy", values: chartData.corpse, color: "var(--chart-3)" },
+                  ]}
+                />
+                <TimeSeriesChart
+                  title="Mean age"
+                  x={chartData.generation}
+                  series={[{ label: "Mean age", values: chartData.meanAge, color: "var(--chart-5)" }]}
+                />
+              </div>
+            </SidebarGroupContent>
+          </SidebarGroup>
         </SidebarContent>
         <SidebarFooter />
       </Sidebar>
@@ -313,7 +1114,19 @@ function App() {
           height={canvasHeight}
           cellSize={cellSize}
           mode={mode}
-          onStatsUpdate={setStats}
+          rule={rule}
+          boundary={boundary}
+          neighborhood={neighborhood}
+          display={display}
+          params={params}
+          species={species}
+          drawSpecies={Math.min(drawSpecies, species.count - 1)}
+          seed={seed}
+          movementPolicy={movementPolicy}
+          messagingPolicy={messagingPolicy}
+          tool={tool}
+          brush={brush}
+          onStatsUpdate={handleStatsUpdate}
         />
       </SidebarInset>
 
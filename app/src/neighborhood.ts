@@ -0,0 +1,87 @@
+// neighborhoods used for life counting, message inboxes, energy scent and movement directions,
+// shared by the kernels (as a u32 uniform) and the CPU backend
+//  - moore:      8 cells, d = 0..7: nw, n, ne, w, e, sw, s, se (default)
+//  - vonNeumann: 4 cells, d = 0..3: n, w, e, s
+//  - hex:        6 cells on odd-r offset rows (odd rows sit half a cell right),
+//                d = 0..5: nw, ne, w, e, sw, se. Wraps cleanly only with an even grid height
+//  - moore2:     24 cells, the 5x5 block minus the center in row-major order (Larger than Life)
+//
+// direction d of a cell is also its bit in energy_scent, its k-bit slot in the inboxes and its
+// ppo action; action n (the neighborhood size) means stay
+
+export type Neighborhood = 'moore' | 'vonNeumann' | 'hex' | 'moore2'
+
+export const NEIGHBORHOODS: { neighborhood: Neighborhood; label: string }[] = [
+  { neighborhood: 'moore', label: 'Moore (8)' },
+  { neighborhood: 'vonNeumann', label: 'von Neumann (4)' },
+  { neighborhood: 'hex', label: 'Hexagonal (6)' },
+  { neighborhood: 'moore2', label: 'Moore radius 2 (24)' },
+]
+
+export const NEIGHBORHOOD_CODES: Record<Neighborhood, number> = {
+  moore: 0,
+  vonNeumann: 1,
+  hex: 2,
+  moore2: 3,
+}
+
+// largest neighborhood size; bounds the life count range and per-cell direction arrays
+export const MAX_NEIGHBORHOOD_SIZE = 24
+
+export function neighborhoodSize(code: number): number {
+  switch (code) {
+    case 1:
+      return 4
+    case 2:
+      return 6
+    case 3:
+      return 24
+    default:
+      return 8
+  }
+}
+
+const VON_NEUMANN_DIRS: ReadonlyArray<readonly [number, number]> = [
+  [0, -1],
+  [-1, 0],
+  [1, 0],
+  [0, 1],
+]
+
+// same as neighbor_dir() in the kernels: offset of direction d for a cell in `row`
+export function neighborDir(code: number, d: number, row: number): readonly [number, number] {
+  switch (code) {
+    case 1:
+      return VON_NEUMANN_DIRS[d < 3 ? d : 3]
+    case 2: {
+      const s = row & 1
+      switch (d) {
+        case 0:
+          return [s - 1, -1]
+        case 1:
+          return [s, -1]
+        case 2:
+          return [-1, 0]
+        case 3:
+          return [1, 0]
+        case 4:
+          return [s - 1, 1]
+        default:
+          return [s, 1]
+      }
+    }
+    case 3: {
+      const k = d < 12 ? d : d + 1
+      return [(k % 5) - 2, Math.floor(k / 5) - 2]
+    }
+    default: {
+      const k = d < 4 ? d : d + 1
+      return [(k % 3) - 1, Math.floor(k / 3) - 1]
+    }
+  }
+}
+
+// message bits per neighbor actually used: k is capped so size * k fits a 32-bit inbox
+export function effectiveKBits(kBits: number, code: number): number {
+  return Math.min(kBits, Math.floor(32 / neighborhoodSize(code)))
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_PHYSICS, PARAM_SPECS, applyParams, maxDiffusionMilli, type PhysicsParams } from './params'
+
+describe('applyParams', () => {
+  it('merges a partial update and leaves the current params untouched', () => {
+    const current = { ...DEFAULT_PHYSICS }
+    const next = applyParams(current, { msg_k_bits: 4, move_mode: 2 })
+    expect(next).toEqual({ ...DEFAULT_PHYSICS, msg_k_bits: 4, move_mode: 2 })
+    expect(current).toEqual(DEFAULT_PHYSICS)
+  })
+
+  it('accepts the defaults and every spec bound', () => {
+    expect(applyParams(DEFAULT_PHYSICS, DEFAULT_PHYSICS)).toEqual(DEFAULT_PHYSICS)
+    for (const spec of PARAM_SPECS) {
+      if (spec.param === 'energy_diff_milli' || spec.param === 'energy_leak_milli') continue
+      expect(applyParams(DEFAULT_PHYSICS, { [spec.param]: spec.min })[spec.param]).toBe(spec.min)
+      expect(applyParams(DEFAULT_PHYSICS, { [spec.param]: spec.max })[spec.param]).toBe(spec.max)
+    }
+  })
+
+  it.each([0, 5, -1])('rejects msg_k_bits %d outside 1..4', (k) => {
+    expect(() => applyParams(DEFAULT_PHYSICS, { msg_k_bits: k })).toThrow(/msg_k_bits must be in 1\.\.4/)
+  })
+
+  it('rejects unknown keys', () => {
+    const partial = { msg_k_bits: 2, wind_milli: 3 } as Partial<PhysicsParams>
+    expect(() => applyParams(DEFAULT_PHYSICS, partial)).toThrow(/unknown parameter "wind_milli"/)
+  })
+
+  it.each([1.5, Number.NaN, Number.POSITIVE_INFINITY, '3', null])('rejects the non-integer %s', (value) => {
+    const partial = { move_cost_milli: value } as unknown as Partial<PhysicsParams>
+    expect(() => applyParams(DEFAULT_PHYSICS, partial)).toThrow(/move_cost_milli must be an integer/)
+  })
+
+  it('lists every invalid entry in one error', () => {
+    const partial = { msg_k_bits: 9, mutation_milli: 0.5, bogus: 1 } as Partial<PhysicsParams>
+    expect(() => applyParams(DEFAULT_PHYSICS, partial)).toThrow(
+      'Invalid physics parameters: msg_k_bits must be in 1..4, got 9; mutation_milli must be an integer, got 0.5; unknown parameter "bogus"'
+    )
+  })
+
+  it('keeps the default diffusion inside the stability bound', () => {
+    expect(DEFAULT_PHYSICS.energy_diff_milli).toBeLessThanOrEqual(maxDiffusionMilli(DEFAULT_PHYSICS.energy_leak_milli))
+  })
+
+  it.each([
+    [0, 250],
+    [20, 245],
+    [100, 225],
+    [1000, 0],
+  ])('bounds diffusion with leak %d at %d', (leak, max) => {
+    expect(maxDiffusionMilli(leak)).toBe(max)
+    const at = applyParams(DEFAULT_PHYSICS, { energy_leak_milli: leak, energy_diff_milli: max })
+    expect(at.energy_diff_milli).toBe(max)
+    expect(() => applyParams(DEFAULT_PHYSICS, { energy_leak_milli: leak, energy_diff_milli: max + 1 })).toThrow(
+      // leak 0 hits the spec max of 250 first
+      /energy_diff_milli (\d+ is unstable|must be in 0\.\.250)/
+    )
+  })
+
+  it('checks the bound against the merged leak', () => {
+    const high = applyParams(DEFAULT_PHYSICS, { energy_diff_milli: 245 })
+    expect(() => applyParams(high, { energy_leak_milli: 40 })).toThrow(/unstable with energy_leak_milli 40 \(max 240\)/)
+  })
+})
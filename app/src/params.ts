@@ -0,0 +1,108 @@
+// LCR physics parameters: the tunable part of the kernel uniforms, shared by GPU, CPU and the
+// sidebar "Physics" section. milli values are fixed-point thousandths (50 = 0.05), as in the kernels.
+// changes apply from the next tick; nothing is reset
+
+export interface PhysicsParams {
+  msg_k_bits: number // payload bits per message, 1..4 (capped further by the neighborhood size)
+  msg_cost_milli: number // energy per set payload bit (learned mode only)
+  msg_mode_stage1: number // 0 silent, 1 debug hash, 2 learned, 3 genetic
+  msg_mode_stage3: number // 0 silent, 1 debug hash, 2 learned, 3 genetic
+  move_cost_milli: number // energy per move (half charged to blocked attempts)
+  move_mode: number // 0 random (debug), 1 ppo actions, 2 genetic
+  mutation_milli: number // per-bit genome flip probability on birth (genome.ts)
+  energy_leak_milli: number // fraction of energy lost per tick
+  energy_diff_milli: number // diffusion rate of the 4-neighbor laplacian
+  energy_decay_milli: number // corpse energy linear decay per tick
+}
+
+export const DEFAULT_PHYSICS: PhysicsParams = {
+  msg_k_bits: 2,
+  msg_cost_milli: 50,
+  msg_mode_stage1: 1,
+  msg_mode_stage3: 1,
+  move_cost_milli: 10,
+  move_mode: 0,
+  mutation_milli: 5,
+  energy_leak_milli: 20,
+  energy_diff_milli: 240,
+  energy_decay_milli: 20,
+}
+
+export type PhysicsParam = keyof PhysicsParams
+
+export interface ParamSpec {
+  param: PhysicsParam
+  label: string
+  min: number
+  max: number
+  options?: { value: number; label: string }[] // enumerated modes
+}
+
+const MSG_MODES = [
+  { value: 0, label: 'Silent' },
+  { value: 1, label: 'Debug hash' },
+  { value: 2, label: 'Learned' },
+  { value: 3, label: 'Genetic' },
+]
+
+// sidebar order; min/max are inclusive
+export const PARAM_SPECS: ParamSpec[] = [
+  { param: 'msg_k_bits', label: 'Message bits', min: 1, max: 4 },
+  { param: 'msg_cost_milli', label: 'Message cost (‰/bit)', min: 0, max: 1000 },
+  { param: 'msg_mode_stage1', label: 'Broadcast mode', min: 0, max: 3, options: MSG_MODES },
+  { param: 'msg_mode_stage3', label: 'Reply mode', min: 0, max: 3, options: MSG_MODES },
+  { param: 'move_cost_milli', label: 'Move cost (‰)', min: 0, max: 1000 },
+  {
+    param: 'move_mode',
+    label: 'Movement',
+    min: 0,
+    max: 2,
+    options: [
+      { value: 0, label: 'Random' },
+      { value: 1, label: 'Policy actions' },
+      { value: 2, label: 'Genetic' },
+    ],
+  },
+  { param: 'mutation_milli', label: 'Mutation (‰/bit)', min: 0, max: 1000 },
+  { param: 'energy_leak_milli', label: 'Leak (‰)', min: 0, max: 1000 },
+  { param: 'energy_diff_milli', label: 'Diffusion (‰)', min: 0, max: 250 },
+  { param: 'energy_decay_milli', label: 'Corpse decay (‰)', min: 0, max: 1000 },
+]
+
+// explicit diffusion stays monotone (no negative overshoot or checkerboard oscillation) while
+// the center weight 1 - leak - 4 * diffusion is non-negative
+export function maxDiffusionMilli(leakMilli: number): number {
+  return Math.floor((1000 - leakMilli) / 4)
+}
+
+// merge a partial update onto the current params; throws listing every invalid entry
+export function applyParams(current: PhysicsParams, partial: Partial<PhysicsParams>): PhysicsParams {
+  const next = { ...current }
+  const errors: string[] = []
+  for (const [key, value] of Object.entries(partial)) {
+    const spec = PARAM_SPECS.find((s) => s.param === key)
+    if (!spec) {
+      errors.push(`unknown parameter "${key}"`)
+      continue
+    }
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      errors.push(`${key} must be an integer, got ${String(value)}`)
+      continue
+    }
+    if (value < spec.min || value > spec.max) {
+      errors.push(`${key} must be in ${spec.min}..${spec.max}, got ${value}`)
+      continue
+    }
+    next[spec.param] = value
+  }
+  const maxDiff = maxDiffusionMilli(next.energy_leak_milli)
+  if (errors.length === 0 && next.energy_diff_milli > maxDiff) {
+    errors.push(
+      `energy_diff_milli ${next.energy_diff_milli} is unstable with energy_leak_milli ${next.energy_leak_milli} (max ${maxDiff})`
+    )
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid physics parameters: ${errors.join('; ')}`)
+  }
+  return next
+}
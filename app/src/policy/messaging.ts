@@ -0,0 +1,74 @@
+import type { MessagingPolicy, Observation } from './types'
+
+// built-in messaging policies and the checks applied to any policy's payloads before upload
+
+// payload of neighbor d in a packed inbox
+export function inboxSlot(inbox: number, d: number, kBits: number): number {
+  return (inbox >>> (d * kBits)) & ((1 << kBits) - 1)
+}
+
+// stage 1: energy quantized to k bits (0 = empty/starved, all ones = 1.0 or more)
+export function broadcastEnergyPolicy(): MessagingPolicy {
+  return {
+    name: 'broadcast-energy',
+    broadcast(obs) {
+      const levels = (1 << obs.kBits) - 1
+      const out = new Uint32Array(obs.width * obs.height)
+      for (let i = 0; i < out.length; i++) {
+        if (obs.alive[i] === 1) out[i] = Math.round(Math.min(1, Math.max(0, obs.energy[i])) * levels)
+      }
+      return out
+    },
+  }
+}
+
+// stage 3: repeat the largest payload heard in stage 1 (0 when nothing was heard)
+export function echoStrongestPolicy(): MessagingPolicy {
+  return {
+    name: 'echo-strongest',
+    reply(obs) {
+      const out = new Uint32Array(obs.width * obs.height)
+      for (let i = 0; i < out.length; i++) {
+        if (obs.alive[i] !== 1 || obs.inbox0[i] === 0) continue
+        let best = 0
+        for (let d = 0; d < obs.neighbors; d++) best = Math.max(best, inboxSlot(obs.inbox0[i], d, obs.kBits))
+        out[i] = best
+      }
+      return out
+    },
+  }
+}
+
+// both built-ins at once: neighbors hear energy levels, then relay the richest one
+export function energyRelayPolicy(): MessagingPolicy {
+  return {
+    name: 'energy-relay',
+    broadcast: broadcastEnergyPolicy().broadcast,
+    reply: echoStrongestPolicy().reply,
+  }
+}
+
+export const MESSAGING_POLICIES: { name: string; label: string; create: () => MessagingPolicy }[] = [
+  { name: 'broadcast-energy', label: 'Broadcast energy level', create: broadcastEnergyPolicy },
+  { name: 'echo-strongest', label: 'Echo strongest neighbor', create: echoStrongestPolicy },
+  { name: 'energy-relay', label: 'Energy + echo', create: energyRelayPolicy },
+]
+
+export function createMessagingPolicy(name: string): MessagingPolicy {
+  const entry = MESSAGING_POLICIES.find((p) => p.name === name)
+  if (!entry) throw new Error(`Unknown messaging policy: ${name}`)
+  return entry.create()
+}
+
+// throws unless there is one payload per cell within k bits
+export function checkPayloads(payloads: Uint32Array, obs: Observation, policy: string): void {
+  if (!(payloads instanceof Uint32Array) || payloads.length !== obs.width * obs.height) {
+    throw new Error(`Messaging policy ${policy} must return a Uint32Array of ${obs.width * obs.height} payloads`)
+  }
+  const mask = (1 << obs.kBits) - 1
+  for (let i = 0; i < payloads.length; i++) {
+    if (payloads[i] & ~mask) {
+      throw new Error(`Messaging policy ${policy} returned payload ${payloads[i]} at cell ${i} (max ${mask})`)
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { MAX_NEIGHBORHOOD_SIZE } from '../neighborhood'
+
+// MLP policy evaluated on the GPU by policy.wgsl (and on the CPU by cpu/policy.ts): fixed
+// input/output layout, free hidden layout. one net drives every head; a head only runs while
+// its LCR stage is in learned/policy mode (msg_mode 2, move_mode 1)
+//
+// inputs: energy, age * 0.01, then per direction d (zero past the neighborhood size): energy
+// scent bit, inbox0 slot / (2^k - 1), inbox1 slot / (2^k - 1)
+// outputs: move logits for directions 0..23, stay logit, 4 stage-1 bits, 4 stage-3 bits;
+// the move head takes the argmax over stay and free targets, payload bits are set when > 0
+//
+// weights: one flat Float32Array, per layer W row-major [out][in] then bias [out]
+
+export const POLICY_INPUTS = 2 + 3 * MAX_NEIGHBORHOOD_SIZE
+export const POLICY_STAY_OUTPUT = MAX_NEIGHBORHOOD_SIZE
+export const POLICY_MSG1_OUTPUT = MAX_NEIGHBORHOOD_SIZE + 1
+export const POLICY_MSG3_OUTPUT = MAX_NEIGHBORHOOD_SIZE + 5
+export const POLICY_OUTPUTS = MAX_NEIGHBORHOOD_SIZE + 9
+
+// shader limits: private activations per cell, layer widths in the uniform, weight buffer size
+export const MAX_POLICY_UNITS = 128
+export const MAX_POLICY_LAYERS = 7
+export const MAX_POLICY_PARAMS = 1 << 16
+
+export type PolicyActivation = 'relu' | 'tanh'
+
+export const POLICY_ACTIVATION_CODES: Record<PolicyActivation, number> = {
+  relu: 0,
+  tanh: 1,
+}
+
+export interface PolicyLayout {
+  hidden: number[] // hidden layer widths, input to output; [] is a linear policy
+  activation: PolicyActivation
+}
+
+export interface PolicyNet {
+  layout: PolicyLayout
+  weights: Float32Array
+}
+
+// layer widths including input and output
+export function policyLayerSizes(layout: PolicyLayout): number[] {
+  return [POLICY_INPUTS, ...layout.hidden, POLICY_OUTPUTS]
+}
+
+export function policyParamCount(layout: PolicyLayout): number {
+  const sizes = policyLayerSizes(layout)
+  let n = 0
+  for (let l = 0; l + 1 < sizes.length; l++) n += sizes[l] * sizes[l + 1] + sizes[l + 1]
+  return n
+}
+
+// throws unless the layout fits the shader and the weights match it
+export function validatePolicyNet(net: PolicyNet): void {
+  const { layout, weights } = net
+  if (!(layout.activation in POLICY_ACTIVATION_CODES)) {
+    throw new Error(`Unknown policy activation: ${String(layout.activation)}`)
+  }
+  if (layout.hidden.length + 1 > MAX_POLICY_LAYERS) {
+    throw new Error(`Policy has ${layout.hidden.length} hidden layers, at most ${MAX_POLICY_LAYERS - 1} are supported`)
+  }
+  for (const w of layout.hidden) {
+    if (!Number.isInteger(w) || w < 1 || w > MAX_POLICY_UNITS) {
+      throw new Error(`Policy hidden width must be an integer in 1..${MAX_POLICY_UNITS}, got ${w}`)
+    }
+  }
+  const expected = policyParamCount(layout)
+  if (expected > MAX_POLICY_PARAMS) {
+    throw new Error(`Policy has ${expected} parameters, at most ${MAX_POLICY_PARAMS} are supported`)
+  }
+  if (weights.length !== expected) {
+    throw new Error(`Policy layout needs ${expected} weights, got ${weights.length}`)
+  }
+  if (!weights.every(Number.isFinite)) throw new Error('Policy weights must be finite')
+}
+
+// fresh net with scaled uniform weights (He-style) and zero biases, e.g. as a search start
+export function randomPolicyNet(layout: PolicyLayout, random: () => number = Math.random): PolicyNet {
+  const sizes = policyLayerSizes(layout)
+  const weights = new Float32Array(policyParamCount(layout))
+  let offset = 0
+  for (let l = 0; l + 1 < sizes.length; l++) {
+    const scale = Math.sqrt(6 / sizes[l])
+    for (let j = 0; j < sizes[l] * sizes[l + 1]; j++) weights[offset + j] = (random() * 2 - 1) * scale
+    offset += sizes[l] * sizes[l + 1] + sizes[l + 1]
+  }
+  return { layout: { ...layout, hidden: [...layout.hidden] }, weights }
+}
+
+// ----- files: { format: 'lcr-policy', version: 1, layout, weights: number[] } -----
+
+export const POLICY_FORMAT = 'lcr-policy'
+export const POLICY_VERSION = 1
+
+export function serializePolicyNet(net: PolicyNet): string {
+  return JSON.stringify({ format: POLICY_FORMAT, version: POLICY_VERSION, layout: net.layout, weights: Array.from(net.weights) })
+}
+
+export function parsePolicyNet(text: string): PolicyNet {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch (err) {
+    throw new Error(`Policy is not valid JSON: ${err instanceof Error ? err.message : String(err)}`)
+  }
+  const obj = raw as { format?: unknown; version?: unknown; layout?: unknown; weights?: unknown }
+  if (typeof raw !== 'object' || raw === null || obj.format !== POLICY_FORMAT) {
+    throw new Error(`Not an ${POLICY_FORMAT} file`)
+  }
+  if (obj.version !== POLICY_VERSION) throw new Error(`Unsupported policy version: ${String(obj.version)}`)
+  const layout = obj.layout as PolicyLayout | undefined
+  if (!layout || !Array.isArray(layout.hidden) || !Array.isArray(obj.weights)) {
+    throw new Error('Policy needs a layout { hidden, activation } and a weights array')
+  }
+  const net: PolicyNet = {
+    layout: { hidden: layout.hidden.map(Number), activation: layout.activation },
+    weights: Float32Array.from(obj.weights as number[]),
+  }
+  validatePolicyNet(net)
+  return net
+}
@@ -0,0 +1,80 @@
+import { BOUNDARY_CODES, OUTSIDE, resolveCell } from '../boundary'
+import { NEIGHBORHOOD_CODES, neighborDir } from '../neighborhood'
+import { mulberry32 } from '../random'
+import type { MovementPolicy, Observation } from './types'
+
+// built-in movement policies and the checks applied to any policy's output before upload
+
+// per-tick PRNG: same seed and generation, same draws, regardless of when the policy was created
+function tickRandom(obs: Observation): () => number {
+  return mulberry32((obs.seed ^ Math.imul(obs.generation + 1, 0x9e3779b1)) >>> 0)
+}
+
+// uniformly random direction or stay; blocked picks pay the attempt cost like any other policy
+export function randomPolicy(): MovementPolicy {
+  return {
+    name: 'random',
+    act(obs) {
+      const rand = tickRandom(obs)
+      const actions = new Uint32Array(obs.width * obs.height)
+      for (let i = 0; i < actions.length; i++) {
+        if (obs.alive[i] === 1) actions[i] = Math.floor(rand() * (obs.neighbors + 1))
+      }
+      return actions
+    },
+  }
+}
+
+// step toward corpse energy: a random scented direction whose target is free, else stay
+export function greedyScentPolicy(): MovementPolicy {
+  return {
+    name: 'greedy-scent',
+    act(obs) {
+      const { width, height, neighbors } = obs
+      const rand = tickRandom(obs)
+      const boundary = BOUNDARY_CODES[obs.boundary]
+      const code = NEIGHBORHOOD_CODES[obs.neighborhood]
+      const actions = new Uint32Array(width * height).fill(neighbors)
+      const candidates: number[] = []
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const i = y * width + x
+          const scent = obs.energyScent[i]
+          if (obs.alive[i] !== 1 || scent === 0) continue
+          candidates.length = 0
+          for (let d = 0; d < neighbors; d++) {
+            if (!(scent & (1 << d))) continue
+            const [dx, dy] = neighborDir(code, d, y)
+            const j = resolveCell(x + dx, y + dy, width, height, boundary)
+            if (j !== OUTSIDE && obs.alive[j] === 0) candidates.push(d)
+          }
+          if (candidates.length > 0) actions[i] = candidates[Math.floor(rand() * candidates.length)]
+        }
+      }
+      return actions
+    },
+  }
+}
+
+export const MOVEMENT_POLICIES: { name: string; label: string; create: () => MovementPolicy }[] = [
+  { name: 'greedy-scent', label: 'Greedy (toward scent)', create: greedyScentPolicy },
+  { name: 'random', label: 'Random', create: randomPolicy },
+]
+
+export function createMovementPolicy(name: string): MovementPolicy {
+  const entry = MOVEMENT_POLICIES.find((p) => p.name === name)
+  if (!entry) throw new Error(`Unknown movement policy: ${name}`)
+  return entry.create()
+}
+
+// throws unless there is one action per cell, each a direction or stay
+export function checkActions(actions: Uint32Array, obs: Observation, policy: string): void {
+  if (!(actions instanceof Uint32Array) || actions.length !== obs.width * obs.height) {
+    throw new Error(`Movement policy ${policy} must return a Uint32Array of ${obs.width * obs.height} actions`)
+  }
+  for (let i = 0; i < actions.length; i++) {
+    if (actions[i] > obs.neighbors) {
+      throw new Error(`Movement policy ${policy} returned action ${actions[i]} at cell ${i} (max ${obs.neighbors})`)
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import type { BoundaryMode } from '../boundary'
+import type { Neighborhood } from '../neighborhood'
+
+// per-cell view handed to TypeScript policies. what is fresh depends on the hook: stage-1
+// broadcasts see the previous tick's inboxes, stage-3 replies this tick's inbox0 (inbox1 still
+// old), movement both of this tick's inboxes and scent. arrays are row-major width x height and
+// owned by the simulator: read them, never keep or modify them
+
+export interface Observation {
+  width: number
+  height: number
+  generation: number
+  seed: number // run seed (random.ts); lets stochastic policies stay reproducible
+  boundary: BoundaryMode
+  neighborhood: Neighborhood
+  neighbors: number // neighborhood size n: directions are 0..n-1 (neighborhood.ts), n means stay
+  kBits: number // payload bits per message after the neighborhood cap; inbox slot d is bits d*k..
+  alive: Uint32Array // 1 = agent; 0 dead, >=2 refractory
+  energy: Float32Array
+  age: Uint32Array
+  inbox0: Uint32Array // packed k-bit stage-1 payloads, slot d = direction d
+  inbox1: Uint32Array // packed k-bit stage-3 responses
+  energyScent: Uint32Array // bit d set if neighbor d holds corpse energy
+  lastPos: Uint32Array // x(16) | y(16) before the last move
+}
+
+// fields read back for an Observation
+export const OBSERVATION_FIELDS = ['alive', 'energy', 'age', 'inbox0', 'inbox1', 'energy_scent', 'last_pos'] as const
+
+// chooses every cell's movement action for move_mode 1; only agent cells (alive == 1) are read
+// by the kernels. may be async (e.g. a model served elsewhere); the tick waits for it
+export interface MovementPolicy {
+  readonly name: string
+  act(obs: Observation): Uint32Array | Promise<Uint32Array>
+}
+
+// computes learned payloads for the messaging stages running in learned mode (msg_mode 2);
+// payloads must fit in the low kBits and are charged per set bit like any learned message.
+// a stage without a method keeps whatever its learned buffer last held
+export interface MessagingPolicy {
+  readonly name: string
+  broadcast?(obs: Observation): Uint32Array | Promise<Uint32Array> // stage 1, before it runs
+  reply?(obs: Observation): Uint32Array | Promise<Uint32Array> // stage 3, after stage 2 gathered inbox0
+}
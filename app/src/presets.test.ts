@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_PHYSICS } from './params'
+import { DEFAULT_SPECIES } from './species'
+import {
+  PRESET_FORMAT,
+  PRESET_VERSION,
+  createPreset,
+  decodeSourceMap,
+  encodeSourceMap,
+  parsePreset,
+  serializePreset,
+  type ExperimentConfig,
+} from './presets'
+
+const config: ExperimentConfig = {
+  mode: 'LCR',
+  rule: 'B36/S23',
+  boundary: 'dead',
+  neighborhood: 'moore',
+  params: { ...DEFAULT_PHYSICS, msg_k_bits: 3 },
+  grid: { width: 4, height: 2, cellSize: 8 },
+  speed: 50,
+  seed: 1234,
+  species: DEFAULT_SPECIES,
+  sourceMap: encodeSourceMap(new Float32Array([0, 0.5, 0, -1, 0, 0, 2, 0])),
+}
+
+// a preset as an older version wrote it: no fields added since, by version
+function legacy(version: number): Record<string, unknown> {
+  const { seed: _seed, species: _species, ...v1 } = config
+  const old = version === 1 ? v1 : { ...v1, seed: config.seed }
+  return { format: PRESET_FORMAT, version, name: 'old run', createdAt: '2024-01-02T03:04:05.000Z', config: old }
+}
+
+describe('parsePreset', () => {
+  it('round-trips the current version', () => {
+    const preset = createPreset('  my run  ', config)
+    expect(preset.name).toBe('my run')
+    expect(preset.version).toBe(PRESET_VERSION)
+    expect(parsePreset(serializePreset(preset))).toEqual(preset)
+    expect(parsePreset(JSON.parse(serializePreset(preset)))).toEqual(preset)
+  })
+
+  it('migrates version 1 with seed 0 and species off', () => {
+    const preset = parsePreset(JSON.stringify(legacy(1)))
+    expect(preset.version).toBe(PRESET_VERSION)
+    expect(preset.createdAt).toBe('2024-01-02T03:04:05.000Z')
+    expect(preset.config).toEqual({ ...config, seed: 0, species: DEFAULT_SPECIES })
+  })
+
+  it('migrates version 2 keeping its seed and adding species', () => {
+    const preset = parsePreset(legacy(2))
+    expect(preset.version).toBe(PRESET_VERSION)
+    expect(preset.config).toEqual({ ...config, species: DEFAULT_SPECIES })
+  })
+
+  it('fills missing params from the defaults and normalizes the rule', () => {
+    const raw = createPreset('partial', { ...config, rule: 's23/b36', params: { msg_k_bits: 1 } as typeof config.params })
+    const preset = parsePreset(raw)
+    expect(preset.config.params).toEqual({ ...DEFAULT_PHYSICS, msg_k_bits: 1 })
+    expect(preset.config.rule).toBe('B36/S23')
+  })
+
+  const current = () => JSON.parse(serializePreset(createPreset('run', config)))
+  const withConfig = (patch: Record<string, unknown>) => {
+    const raw = current()
+    return { ...raw, config: { ...raw.config, ...patch } }
+  }
+
+  it.each([
+    ['text that is not JSON', '{ nope', /not valid JSON/],
+    ['another format', { ...current(), format: 'other' }, /Not an lcr-preset file/],
+    ['an array', [], /Not an lcr-preset file/],
+    ['a missing version', { ...current(), version: undefined }, /Invalid preset version/],
+    ['version 0', { ...current(), version: 0 }, /Invalid preset version: 0/],
+    ['a fractional version', { ...current(), version: 1.5 }, /Invalid preset version: 1.5/],
+    ['a newer version', { ...current(), version: PRESET_VERSION + 1 }, /newer than supported/],
+    ['an empty name', { ...current(), name: '  ' }, /needs a name/],
+    ['no config', { ...current(), config: null }, /has no config/],
+    ['a bad mode', withConfig({ mode: 'Life' }), /Invalid mode: Life/],
+    ['a bad rule', withConfig({ rule: 'B3' }), /separated by/],
+    ['a bad boundary', withConfig({ boundary: 'sphere' }), /Invalid boundary: sphere/],
+    ['a bad neighborhood', withConfig({ neighborhood: 'triangle' }), /Invalid neighborhood: triangle/],
+    ['no params', withConfig({ params: 3 }), /has no params/],
+    ['out-of-range params', withConfig({ params: { msg_k_bits: 7 } }), /msg_k_bits must be in 1\.\.4/],
+    ['a bad grid', withConfig({ grid: { width: 4, height: 0, cellSize: 8 } }), /positive integer width/],
+    ['a non-numeric speed', withConfig({ speed: 'fast' }), /Speed must be a number/],
+    ['a bad seed', withConfig({ seed: -1 }), /Invalid seed: -1/],
+    ['no species', withConfig({ species: {} }), /has no species/],
+    ['a non-string source map', withConfig({ sourceMap: 12 }), /base64 or null/],
+    ['a source map of another size', withConfig({ grid: { width: 3, height: 2, cellSize: 8 } }), /does not match the 3x2 grid/],
+  ])('rejects %s', (_what, input, message) => {
+    expect(() => parsePreset(input)).toThrow(message)
+  })
+})
+
+describe('source maps', () => {
+  it('stores an all-zero map as null and round-trips the rest', () => {
+    expect(encodeSourceMap(new Float32Array(16))).toBeNull()
+    const map = new Float32Array([1.5, -0.25, 0, 3e-8])
+    expect(decodeSourceMap(encodeSourceMap(map)!)).toEqual(map)
+  })
+})
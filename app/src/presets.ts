@@ -0,0 +1,230 @@
+import { BOUNDARY_CODES, type BoundaryMode } from './boundary'
+import { NEIGHBORHOOD_CODES, type Neighborhood } from './neighborhood'
+import { DEFAULT_PHYSICS, applyParams, type PhysicsParams } from './params'
+import { formatRule, parseRule } from './rules'
+import { isValidSeed } from './random'
+import { DEFAULT_SPECIES, validateSpecies, type SpeciesConfig } from './species'
+
+// named experiment configurations, kept in localStorage and shared as JSON files.
+// file format: { format: 'lcr-preset', version, name, createdAt, config }. older versions are
+// upgraded step by step through MIGRATIONS on load, so a file never has to be edited by hand;
+// bump PRESET_VERSION and add a migration whenever ExperimentConfig gains a field
+
+export const PRESET_FORMAT = 'lcr-preset'
+export const PRESET_VERSION = 3
+
+export interface ExperimentConfig {
+  mode: 'LCR' | 'Conway'
+  rule: string // B/S notation
+  boundary: BoundaryMode
+  neighborhood: Neighborhood
+  params: PhysicsParams
+  grid: { width: number; height: number; cellSize: number } // width/height in cells
+  speed: number // ms per tick
+  seed: number // run seed (random.ts), since version 2
+  species: SpeciesConfig // species.ts, since version 3
+  sourceMap: string | null // little-endian f32 per cell, base64; null = no sources
+}
+
+export interface Preset {
+  format: typeof PRESET_FORMAT
+  version: typeof PRESET_VERSION
+  name: string
+  createdAt: string // ISO 8601
+  config: ExperimentConfig
+}
+
+// upgrades a raw preset object from version n to n + 1
+type Migration = (raw: Record<string, unknown>) => Record<string, unknown>
+const MIGRATIONS: Record<number, Migration> = {
+  // v2 adds the run seed; 0 keeps the hashes v1 runs were recorded with
+  1: (raw) => ({ ...raw, config: isObject(raw.config) ? { ...raw.config, seed: 0 } : raw.config }),
+  // v3 adds species; off, as runs before it had none
+  2: (raw) => ({ ...raw, config: isObject(raw.config) ? { ...raw.config, species: DEFAULT_SPECIES } : raw.config }),
+}
+
+export function createPreset(name: string, config: ExperimentConfig): Preset {
+  return {
+    format: PRESET_FORMAT,
+    version: PRESET_VERSION,
+    name: name.trim(),
+    createdAt: new Date().toISOString(),
+    config,
+  }
+}
+
+// parse, migrate and validate a preset from JSON text or an already parsed value; throws on
+// anything that is not a usable preset
+export function parsePreset(input: string | unknown): Preset {
+  let raw: unknown = input
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input)
+    } catch (err) {
+      throw new Error(`Preset is not valid JSON: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+  if (!isObject(raw) || raw.format !== PRESET_FORMAT) {
+    throw new Error(`Not an ${PRESET_FORMAT} file`)
+  }
+  let version = raw.version
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error(`Invalid preset version: ${String(version)}`)
+  }
+  if (version > PRESET_VERSION) {
+    throw new Error(`Preset version ${version} is newer than supported (${PRESET_VERSION})`)
+  }
+  let obj = raw
+  while (version < PRESET_VERSION) {
+    const migrate = MIGRATIONS[version]
+    if (!migrate) throw new Error(`No migration from preset version ${version}`)
+    obj = migrate(obj)
+    version++
+    obj.version = version
+  }
+  return validatePreset(obj)
+}
+
+export function serializePreset(preset: Preset): string {
+  return JSON.stringify(preset, null, 2)
+}
+
+function validatePreset(obj: Record<string, unknown>): Preset {
+  if (typeof obj.name !== 'string' || obj.name.trim() === '') throw new Error('Preset needs a name')
+  const c = obj.config
+  if (!isObject(c)) throw new Error('Preset has no config')
+
+  if (c.mode !== 'LCR' && c.mode !== 'Conway') throw new Error(`Invalid mode: ${String(c.mode)}`)
+  if (typeof c.rule !== 'string') throw new Error('Rule must be a string')
+  const rule = formatRule(parseRule(c.rule))
+  if (typeof c.boundary !== 'string' || !(c.boundary in BOUNDARY_CODES)) {
+    throw new Error(`Invalid boundary: ${String(c.boundary)}`)
+  }
+  if (typeof c.neighborhood !== 'string' || !(c.neighborhood in NEIGHBORHOOD_CODES)) {
+    throw new Error(`Invalid neighborhood: ${String(c.neighborhood)}`)
+  }
+  if (!isObject(c.params)) throw new Error('Preset has no params')
+  // missing params fall back to defaults; unknown or out-of-range ones are rejected
+  const params = applyParams(DEFAULT_PHYSICS, c.params as Partial<PhysicsParams>)
+
+  const g = c.grid
+  if (!isObject(g) || !isPositiveInt(g.width) || !isPositiveInt(g.height) || !isPositiveInt(g.cellSize)) {
+    throw new Error('Grid needs positive integer width, height and cellSize')
+  }
+  if (typeof c.speed !== 'number' || !Number.isFinite(c.speed)) throw new Error('Speed must be a number')
+  if (!isValidSeed(c.seed)) throw new Error(`Invalid seed: ${String(c.seed)}`)
+  if (!isObject(c.species) || !Array.isArray(c.species.species)) throw new Error('Preset has no species')
+  const species = validateSpecies(c.species as unknown as SpeciesConfig)
+  if (c.sourceMap !== null && typeof c.sourceMap !== 'string') throw new Error('Source map must be base64 or null')
+  if (typeof c.sourceMap === 'string' && decodeSourceMap(c.sourceMap).length !== g.width * g.height) {
+    throw new Error(`Source map does not match the ${g.width}x${g.height} grid`)
+  }
+
+  return {
+    format: PRESET_FORMAT,
+    version: PRESET_VERSION,
+    name: obj.name.trim(),
+    createdAt: typeof obj.createdAt === 'string' ? obj.createdAt : new Date(0).toISOString(),
+    config: {
+      mode: c.mode,
+      rule,
+      boundary: c.boundary as BoundaryMode,
+      neighborhood: c.neighborhood as Neighborhood,
+      params,
+      grid: { width: g.width, height: g.height, cellSize: g.cellSize },
+      speed: c.speed,
+      seed: c.seed,
+      species,
+      sourceMap: c.sourceMap,
+    },
+  }
+}
+
+// source maps: raw f32 bytes as base64; an all-zero map is stored as null
+export function encodeSourceMap(map: Float32Array): string | null {
+  if (map.every((v) => v === 0)) return null
+  const bytes = new Uint8Array(map.buffer, map.byteOffset, map.byteLength)
+  let bin = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(bin)
+}
+
+export function decodeSourceMap(b64: string): Float32Array {
+  const bin = atob(b64)
+  if (bin.length % 4 !== 0) throw new Error('Source map byte length is not a multiple of 4')
+  const bytes = new Uint8Array(bin.length)
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i)
+  return new Float32Array(bytes.buffer)
+}
+
+// nearest-neighbour resample, for loading a map onto a grid of another size
+export function resampleSourceMap(
+  map: Float32Array,
+  width: number,
+  height: number,
+  toWidth: number,
+  toHeight: number
+): Float32Array {
+  if (width === toWidth && height === toHeight) return map
+  const out = new Float32Array(toWidth * toHeight)
+  for (let y = 0; y < toHeight; y++) {
+    const sy = Math.min(height - 1, Math.floor((y * height) / toHeight))
+    for (let x = 0; x < toWidth; x++) {
+      const sx = Math.min(width - 1, Math.floor((x * width) / toWidth))
+      out[y * toWidth + x] = map[sy * width + sx]
+    }
+  }
+  return out
+}
+
+// ----- localStorage -----
+
+const STORAGE_KEY = 'lcr.presets'
+
+// saved presets by name; entries that no longer parse are skipped (and logged)
+export function loadStoredPresets(): Preset[] {
+  let raw: unknown
+  try {
+    raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]')
+  } catch (err) {
+    console.error('Stored presets unreadable', err)
+    return []
+  }
+  if (!Array.isArray(raw)) return []
+  const presets: Preset[] = []
+  for (const entry of raw) {
+    try {
+      presets.push(parsePreset(entry))
+    } catch (err) {
+      console.error('Skipping stored preset', err)
+    }
+  }
+  return presets.sort((a, b) => a.name.localeCompare(b.name))
+}
+
+// insert or replace by name; returns the updated list
+export function storePreset(preset: Preset): Preset[] {
+  const presets = loadStoredPresets().filter((p) => p.name !== preset.name)
+  presets.push(preset)
+  writeStoredPresets(presets)
+  return loadStoredPresets()
+}
+
+export function deleteStoredPreset(name: string): Preset[] {
+  writeStoredPresets(loadStoredPresets().filter((p) => p.name !== name))
+  return loadStoredPresets()
+}
+
+function writeStoredPresets(presets: Preset[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets))
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v)
+}
+
+function isPositiveInt(v: unknown): v is number {
+  return typeof v === 'number' && Number.isInteger(v) && v > 0
+}
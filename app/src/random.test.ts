@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { CPU } from './cpu/CPU'
+import { MAX_SEED, isValidSeed, mulberry32 } from './random'
+import type { SnapshotState } from './snapshot'
+
+const width = 32
+const height = 24
+
+async function seeded(seed: number): Promise<CPU> {
+  const cpu = new CPU(width, height, undefined, () => {})
+  await cpu.init()
+  cpu.setMode('LCR')
+  cpu.setSeed(seed)
+  cpu.randomize(0.35)
+  return cpu
+}
+
+async function run(cpu: CPU, ticks: number): Promise<SnapshotState> {
+  for (let t = 0; t < ticks; t++) await cpu.step()
+  return cpu.exportSnapshot()
+}
+
+describe('mulberry32', () => {
+  it('replays the same sequence per seed, in [0, 1)', () => {
+    const a = mulberry32(42)
+    const b = mulberry32(42)
+    const xs = Array.from({ length: 1000 }, a)
+    expect(Array.from({ length: 1000 }, b)).toEqual(xs)
+    expect(xs.every((x) => x >= 0 && x < 1)).toBe(true)
+    expect(Array.from({ length: 1000 }, mulberry32(43))).not.toEqual(xs)
+  })
+})
+
+describe('run seeds on the CPU reference', () => {
+  it('gives identical randomize output and runs for the same seed', async () => {
+    const a = await seeded(1234)
+    const b = await seeded(1234)
+    expect(await b.readField('alive')).toEqual(await a.readField('alive'))
+    expect(await b.readField('genome_move')).toEqual(await a.readField('genome_move'))
+    expect(await run(b, 12)).toEqual(await run(a, 12))
+  })
+
+  it('replays the seed on randomize after a run', async () => {
+    const cpu = await seeded(99)
+    const start = await cpu.exportSnapshot()
+    await run(cpu, 5)
+    cpu.randomize(0.35)
+    expect(await cpu.exportSnapshot()).toEqual(start)
+  })
+
+  it('gives different initial states for different seeds', async () => {
+    const a = await seeded(1)
+    const b = await seeded(2)
+    expect(await b.readField('alive')).not.toEqual(await a.readField('alive'))
+  })
+
+  it('diverges from the same initial state under different seeds', async () => {
+    // the seed also drives the kernel hashes (random moves, debug messages)
+    const a = await seeded(5)
+    const b = new CPU(width, height, undefined, () => {})
+    await b.init()
+    await b.importSnapshot(await a.exportSnapshot())
+    b.setSeed(6)
+    const endA = await run(a, 8)
+    const endB = await run(b, 8)
+    expect(endB.fields.get('alive')).not.toEqual(endA.fields.get('alive'))
+  })
+
+  it.each([-1, 1.5, MAX_SEED + 1, Number.NaN])('rejects the seed %s', async (seed) => {
+    expect(isValidSeed(seed)).toBe(false)
+    const cpu = await seeded(0)
+    expect(() => cpu.setSeed(seed)).toThrow(/Seed must be an integer/)
+  })
+})
@@ -0,0 +1,35 @@
+// run seeds: one u32 drives both the initial randomization (mulberry32 below) and the kernel
+// hashes (mixed in through the uniforms), so the same seed and parameters replay a run tick for
+// tick. seed 0 leaves the hashes exactly as they were before seeding existed
+
+export const MAX_SEED = 0xffffffff
+
+// small deterministic PRNG: floats in [0, 1), identical sequence on every platform
+export function mulberry32(seed: number): () => number {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// movement.wgsl rand_hash3 (additive mix), bit-exact: per-cell hashes of the kernels that
+// host-side code must agree with (founder genomes, species of a random fill); seed is the run seed
+export function randHash3(x: number, y: number, t: number, seed: number): number {
+  let h = (Math.imul(x, 374761393) + Math.imul(y, 668265263) + Math.imul(t, 2246822519) + Math.imul(seed, 3266489917)) >>> 0
+  h = (h ^ (h >>> 13)) >>> 0
+  h = Math.imul(h, 1274126177) >>> 0
+  return (h ^ (h >>> 16)) >>> 0
+}
+
+// fresh nonzero seed for a new session
+export function randomSeed(): number {
+  return 1 + Math.floor(Math.random() * MAX_SEED)
+}
+
+export function isValidSeed(v: unknown): v is number {
+  return typeof v === 'number' && Number.isInteger(v) && v >= 0 && v <= MAX_SEED
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest'
+import { LcrEnv, VectorEnv, type EnvActions } from './env'
+import type { Observation } from '../policy/types'
+
+const config = { width: 16, height: 12, density: 0.4, maxTicks: 3 }
+const cells = config.width * config.height
+
+// every agent stays and stays silent
+function idle(obs: Observation): EnvActions {
+  return {
+    move: new Uint32Array(cells).fill(obs.neighbors),
+    msg1: new Uint32Array(cells),
+    msg3: new Uint32Array(cells),
+  }
+}
+
+describe('LcrEnv', () => {
+  it('returns per-cell observations, rewards, dones and positions', async () => {
+    const env = new LcrEnv({ ...config, reward: { survival: 1 } })
+    const obs = await env.reset(7)
+    expect(obs.generation).toBe(0)
+    expect(obs.alive).toHaveLength(cells)
+    expect(obs.energy).toHaveLength(cells)
+
+    const result = await env.step(idle(obs))
+    expect(result.observation.generation).toBe(1)
+    expect(result.rewards).toHaveLength(cells)
+    expect(result.dones).toHaveLength(cells)
+    expect(result.position).toHaveLength(cells)
+    for (let i = 0; i < cells; i++) {
+      if (obs.alive[i] !== 1) {
+        // non-agents get nothing
+        expect(result.position[i]).toBe(-1)
+        expect(result.rewards[i]).toBe(0)
+        expect(result.dones[i]).toBe(0)
+        continue
+      }
+      // nobody moved: survival is read at the agent's own cell
+      expect(result.position[i]).toBe(i)
+      const survived = result.observation.alive[i] === 1
+      expect(result.rewards[i]).toBe(survived ? 1 : 0)
+      expect(result.dones[i]).toBe(survived ? 0 : 1)
+    }
+    env.close()
+  })
+
+  it('is deterministic per seed', async () => {
+    const a = new LcrEnv(config)
+    const b = new LcrEnv(config)
+    const obsA = await a.reset(3)
+    const obsB = await b.reset(3)
+    expect(obsB.alive).toEqual(obsA.alive)
+    const stepA = await a.step(idle(obsA))
+    const stepB = await b.step(idle(obsB))
+    expect(stepB.rewards).toEqual(stepA.rewards)
+    expect(stepB.observation.energy).toEqual(stepA.observation.energy)
+    a.close()
+    b.close()
+  })
+
+  it('truncates at maxTicks, marks every remaining agent done and refuses further steps', async () => {
+    const env = new LcrEnv({ ...config, maxTicks: 2 })
+    let obs = await env.reset(11)
+    let result = await env.step(idle(obs))
+    obs = result.observation
+    result = await env.step(idle(obs))
+    expect(result.terminated || result.truncated).toBe(true)
+    for (let i = 0; i < cells; i++) {
+      expect(result.dones[i]).toBe(result.position[i] >= 0 ? 1 : 0)
+    }
+    await expect(env.step(idle(result.observation))).rejects.toThrow(/episode is over/)
+    env.close()
+  })
+
+  it('rejects out-of-range actions', async () => {
+    const env = new LcrEnv(config)
+    const obs = await env.reset(1)
+    const actions = idle(obs)
+    actions.move![0] = obs.neighbors + 1
+    await expect(env.step(actions)).rejects.toThrow()
+    env.close()
+  })
+})
+
+describe('VectorEnv', () => {
+  it('steps every env and resets finished ones with their next seed', async () => {
+    const vec = new VectorEnv(2, { ...config, maxTicks: 1 })
+    const observations = await vec.reset(5)
+    expect(observations).toHaveLength(2)
+    const single = new LcrEnv({ ...config, maxTicks: 1 })
+    expect(observations[1].alive).toEqual((await single.reset(6)).alive)
+
+    const results = await vec.step(observations.map(idle))
+    expect(results).toHaveLength(2)
+    for (const result of results) {
+      expect(result.truncated || result.terminated).toBe(true)
+      expect(result.finalObservation?.generation).toBe(1)
+      expect(result.observation.generation).toBe(0)
+    }
+    // env 0 moved on from seed 5 to 5 + 2
+    expect(results[0].observation.alive).toEqual((await single.reset(7)).alive)
+    await expect(vec.step([idle(observations[0])])).rejects.toThrow(/2 envs/)
+    single.close()
+    vec.close()
+  })
+
+  it('runs the envs concurrently', async () => {
+    const vec = new VectorEnv(3, config)
+    const events: string[] = []
+    for (const [k, env] of vec.envs.entries()) {
+      for (const method of ['reset', 'step'] as const) {
+        const original = env[method].bind(env) as (arg: never) => Promise<unknown>
+        env[method] = (async (arg: never) => {
+          events.push(`${method} ${k} start`)
+          const out = await original(arg)
+          events.push(`${method} ${k} end`)
+          return out
+        }) as never
+      }
+    }
+    // every env is under way before the first one is done
+    const observations = await vec.reset(1)
+    expect(events.slice(0, 3)).toEqual(['reset 0 start', 'reset 1 start', 'reset 2 start'])
+    events.length = 0
+    await vec.step(observations.map(idle))
+    expect(events.slice(0, 3)).toEqual(['step 0 start', 'step 1 start', 'step 2 start'])
+    expect(events).toHaveLength(6)
+    vec.close()
+  })
+
+  it('gives every env the results it would get on its own', async () => {
+    const vec = new VectorEnv(3, config)
+    const singles = [0, 1, 2].map(() => new LcrEnv(config))
+    let observations = await vec.reset([4, 9, 2])
+    let own = await Promise.all(singles.map((env, k) => env.reset([4, 9, 2][k])))
+    expect(observations).toEqual(own)
+    for (let t = 0; t < 2; t++) {
+      const results = await vec.step(observations.map(idle))
+      const expected = await Promise.all(singles.map((env, k) => env.step(idle(own[k]))))
+      for (const [k, result] of results.entries()) {
+        expect(result.rewards).toEqual(expected[k].rewards)
+        expect(result.observation).toEqual(expected[k].observation)
+      }
+      observations = results.map((r) => r.observation)
+      own = expected.map((r) => r.observation)
+    }
+    for (const env of singles) env.close()
+    vec.close()
+  })
+})
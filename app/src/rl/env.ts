@@ -0,0 +1,261 @@
+import { CPU } from '../cpu/CPU'
+import type { Stats } from '../webgpu/types'
+import { DEFAULT_RULE } from '../rules'
+import { BOUNDARY_CODES, OUTSIDE, resolveCell, type BoundaryMode } from '../boundary'
+import { NEIGHBORHOOD_CODES, effectiveKBits, neighborDir, neighborhoodSize, type Neighborhood } from '../neighborhood'
+import { DEFAULT_PHYSICS, applyParams, type PhysicsParams } from '../params'
+import { OBSERVATION_FIELDS, type Observation } from '../policy/types'
+import { checkActions } from '../policy/movement'
+import { checkPayloads } from '../policy/messaging'
+import { combineRewards, type RewardContext, type RewardFn, type RewardName } from './rewards'
+
+// Gym-style training environment over the CPU reference (headless, runs in Node). the agent
+// side chooses every live cell's actions from the observation returned by reset()/step();
+// step() writes them into the buffers the learned heads read (ppo_actions for move_mode 1,
+// learned_msg_stage1/3 for msg_mode 2) and runs one tick. stage-3 replies are chosen from the
+// start-of-tick observation, so unlike a MessagingPolicy they cannot see this tick's inbox0
+
+export interface EnvControl {
+  move: boolean // ppo_actions, forces move_mode 1
+  msg1: boolean // learned_msg_stage1, forces msg_mode_stage1 2
+  msg3: boolean // learned_msg_stage3, forces msg_mode_stage3 2
+}
+
+export interface EnvConfig {
+  width: number
+  height: number
+  density: number // initial random fill, 0..1
+  maxTicks: number // episode length before truncation
+  rule: string
+  boundary: BoundaryMode
+  neighborhood: Neighborhood
+  params: Partial<PhysicsParams> // on top of the defaults; controlled heads override their modes
+  control: EnvControl
+  reward: Partial<Record<RewardName, number>> | RewardFn // weighted built-ins or a custom function
+}
+
+export const DEFAULT_ENV: EnvConfig = {
+  width: 64,
+  height: 64,
+  density: 0.3,
+  maxTicks: 500,
+  rule: DEFAULT_RULE,
+  boundary: 'torus',
+  neighborhood: 'moore',
+  params: {},
+  control: { move: true, msg1: true, msg3: true },
+  reward: { energy: 1 },
+}
+
+// a controlled head without an entry keeps what it was last given
+export interface EnvActions {
+  move?: Uint32Array // per cell, 0..n-1 direction, n stay
+  msg1?: Uint32Array // per cell, low k bits
+  msg3?: Uint32Array
+}
+
+export interface StepResult {
+  observation: Observation // state after the tick; the next actions are chosen from it
+  rewards: Float32Array // per cell of the previous observation; 0 for non-agents
+  dones: Uint8Array // 1 for agents that died this tick, and for every agent once the episode ends
+  position: Int32Array // where each agent of the previous observation is now, -1 for non-agents
+  terminated: boolean // no agents left
+  truncated: boolean // maxTicks reached
+  stats: Stats
+}
+
+// an agent that moved out (activity bit 3) sits at the target of its action; the others
+// stayed. births are live cells no agent occupied after movement
+function followAgents(before: Observation, after: Observation, moves: Uint32Array, activity: Uint32Array): RewardContext {
+  const { width, height, neighbors } = before
+  const boundary = BOUNDARY_CODES[before.boundary]
+  const code = NEIGHBORHOOD_CODES[before.neighborhood]
+  const cells = width * height
+  const position = new Int32Array(cells).fill(-1)
+  const survived = new Uint8Array(cells)
+  const occupied = new Uint8Array(cells)
+  for (let i = 0; i < cells; i++) {
+    if (before.alive[i] !== 1) continue
+    let p = i
+    const action = moves[i] % (neighbors + 1)
+    if (activity[i] & 8 && action < neighbors) {
+      const y = Math.floor(i / width)
+      const [dx, dy] = neighborDir(code, action, y)
+      const j = resolveCell((i % width) + dx, y + dy, width, height, boundary)
+      if (j !== OUTSIDE) p = j
+    }
+    position[i] = p
+    occupied[p] = 1
+    survived[i] = after.alive[p] === 1 ? 1 : 0
+  }
+  const births = new Uint8Array(cells)
+  for (let c = 0; c < cells; c++) {
+    if (after.alive[c] === 1 && !occupied[c]) births[c] = 1
+  }
+  return { before, after, position, survived, births }
+}
+
+export class LcrEnv {
+  readonly config: EnvConfig
+  private sim: CPU
+  private rewardFn: RewardFn
+  private stats: Stats | null = null
+  private obs: Observation | null = null
+  private ticks = 0
+  private done = true
+  private initialized = false
+
+  constructor(config: Partial<EnvConfig> = {}) {
+    this.config = { ...DEFAULT_ENV, ...config, control: { ...DEFAULT_ENV.control, ...config.control } }
+    const { width, height, control } = this.config
+    if (!Number.isInteger(this.config.maxTicks) || this.config.maxTicks < 1) {
+      throw new Error('Env needs maxTicks >= 1')
+    }
+    this.rewardFn = typeof this.config.reward === 'function' ? this.config.reward : combineRewards(this.config.reward)
+    this.sim = new CPU(width, height, (s) => {
+      this.stats = s
+    })
+    const forced: Partial<PhysicsParams> = {}
+    if (control.move) forced.move_mode = 1
+    if (control.msg1) forced.msg_mode_stage1 = 2
+    if (control.msg3) forced.msg_mode_stage3 = 2
+    // validated here so a bad config fails before reset
+    const params = applyParams(applyParams(DEFAULT_PHYSICS, this.config.params), forced)
+    this.sim.setMode('LCR')
+    this.sim.setRule(this.config.rule)
+    this.sim.setBoundary(this.config.boundary)
+    this.sim.setNeighborhood(this.config.neighborhood)
+    this.sim.setParams(params)
+  }
+
+  // new episode from the seed's random fill (random.ts), same seed same episode
+  async reset(seed: number): Promise<Observation> {
+    if (!this.initialized) {
+      await this.sim.init()
+      this.initialized = true
+    }
+    this.sim.setSeed(seed)
+    this.sim.randomize(this.config.density)
+    this.ticks = 0
+    this.done = false
+    this.obs = await this.observe()
+    return this.obs
+  }
+
+  async step(actions: EnvActions): Promise<StepResult> {
+    const before = this.obs
+    if (!before || this.done) throw new Error('Env episode is over; call reset()')
+    const { control } = this.config
+    if (control.move && actions.move) {
+      checkActions(actions.move, before, 'env')
+      this.sim.writeField('ppo_actions', actions.move)
+    }
+    if (control.msg1 && actions.msg1) {
+      checkPayloads(actions.msg1, before, 'env')
+      this.sim.writeField('learned_msg_stage1', actions.msg1)
+    }
+    if (control.msg3 && actions.msg3) {
+      checkPayloads(actions.msg3, before, 'env')
+      this.sim.writeField('learned_msg_stage3', actions.msg3)
+    }
+
+    await this.sim.step()
+    this.ticks++
+    const after = await this.observe()
+    const ctx = followAgents(
+      before,
+      after,
+      (await this.sim.readField('ppo_actions')) as Uint32Array,
+      (await this.sim.readField('activity')) as Uint32Array
+    )
+    const rewards = this.rewardFn(ctx)
+
+    const terminated = !after.alive.includes(1)
+    const truncated = this.ticks >= this.config.maxTicks
+    const dones = new Uint8Array(rewards.length)
+    for (let i = 0; i < dones.length; i++) {
+      if (ctx.position[i] >= 0 && (!ctx.survived[i] || terminated || truncated)) dones[i] = 1
+    }
+    this.done = terminated || truncated
+    this.obs = after
+    return { observation: after, rewards, dones, position: ctx.position, terminated, truncated, stats: this.stats! }
+  }
+
+  close(): void {
+    this.sim.destroy()
+    this.obs = null
+  }
+
+  // copies, so callers may keep observations across steps
+  private async observe(): Promise<Observation> {
+    const [alive, energy, age, inbox0, inbox1, energyScent, lastPos] = await Promise.all(
+      OBSERVATION_FIELDS.map((field) => this.sim.readField(field))
+    )
+    const { boundary, neighborhood } = this.config
+    const code = NEIGHBORHOOD_CODES[neighborhood]
+    return {
+      width: this.config.width,
+      height: this.config.height,
+      generation: this.ticks,
+      seed: this.sim.getSeed(),
+      boundary,
+      neighborhood,
+      neighbors: neighborhoodSize(code),
+      kBits: effectiveKBits(this.sim.getParams().msg_k_bits, code),
+      alive: alive as Uint32Array,
+      energy: energy as Float32Array,
+      age: age as Uint32Array,
+      inbox0: inbox0 as Uint32Array,
+      inbox1: inbox1 as Uint32Array,
+      energyScent: energyScent as Uint32Array,
+      lastPos: lastPos as Uint32Array,
+    }
+  }
+}
+
+// N independent environments stepped together, the usual batched-rollout shape. reset() and
+// step() run every env concurrently, so whatever an env awaits (its tick, readbacks) overlaps
+// with the others instead of queueing behind them; the CPU tick itself runs on the calling
+// thread. an env whose episode ended is reset with its next seed inside step(): its result
+// carries the first observation of the new episode and the final one in `finalObservation`
+export interface VectorStepResult extends StepResult {
+  finalObservation: Observation | null
+}
+
+export class VectorEnv {
+  readonly envs: LcrEnv[]
+  private seeds: number[] = []
+
+  constructor(count: number, config: Partial<EnvConfig> = {}) {
+    if (!Number.isInteger(count) || count < 1) throw new Error('VectorEnv needs at least one env')
+    this.envs = Array.from({ length: count }, () => new LcrEnv(config))
+  }
+
+  // env k starts at seeds[k] (default baseSeed + k); auto-resets advance each seed by count
+  async reset(seeds: number[] | number = 0): Promise<Observation[]> {
+    this.seeds = Array.isArray(seeds) ? [...seeds] : this.envs.map((_, k) => seeds + k)
+    if (this.seeds.length !== this.envs.length) {
+      throw new Error(`VectorEnv has ${this.envs.length} envs, got ${this.seeds.length} seeds`)
+    }
+    return Promise.all(this.envs.map((env, k) => env.reset(this.seeds[k])))
+  }
+
+  async step(actions: EnvActions[]): Promise<VectorStepResult[]> {
+    if (actions.length !== this.envs.length) {
+      throw new Error(`VectorEnv has ${this.envs.length} envs, got ${actions.length} action sets`)
+    }
+    return Promise.all(this.envs.map((env, k) => this.stepEnv(env, k, actions[k])))
+  }
+
+  close(): void {
+    for (const env of this.envs) env.close()
+  }
+
+  private async stepEnv(env: LcrEnv, k: number, actions: EnvActions): Promise<VectorStepResult> {
+    const result = await env.step(actions)
+    if (!result.terminated && !result.truncated) return { ...result, finalObservation: null }
+    this.seeds[k] = (this.seeds[k] + this.envs.length) >>> 0
+    const observation = await env.reset(this.seeds[k])
+    return { ...result, observation, finalObservation: result.observation }
+  }
+}
@@ -0,0 +1,86 @@
+import { BOUNDARY_CODES, OUTSIDE, resolveCell } from '../boundary'
+import { NEIGHBORHOOD_CODES, neighborDir } from '../neighborhood'
+import type { Observation } from '../policy/types'
+
+// per-agent rewards for one env step. agents are the live cells of the observation the actions
+// were chosen from (`before`); each is followed to where it ended up after movement (`position`)
+// and judged on the state after the whole tick (`after`). arrays are indexed by the agent's cell
+// in `before`; non-agent entries stay 0
+
+export interface RewardContext {
+  before: Observation
+  after: Observation
+  position: Int32Array // cell after movement per agent in `before`, -1 for non-agents
+  survived: Uint8Array // 1 if the agent is still alive after Life
+  births: Uint8Array // per cell of `after`: newly born this tick (not an agent before or moved in)
+}
+
+export type RewardFn = (ctx: RewardContext) => Float32Array
+
+// energy at the end of the tick minus energy at the start; death forfeits everything held
+export function energyReward(ctx: RewardContext): Float32Array {
+  const { before, after, position, survived } = ctx
+  const r = new Float32Array(position.length)
+  for (let i = 0; i < r.length; i++) {
+    if (position[i] < 0) continue
+    r[i] = (survived[i] ? after.energy[position[i]] : 0) - before.energy[i]
+  }
+  return r
+}
+
+// 1 for every tick an agent lives through
+export function survivalReward(ctx: RewardContext): Float32Array {
+  const r = new Float32Array(ctx.position.length)
+  for (let i = 0; i < r.length; i++) {
+    if (ctx.position[i] >= 0 && ctx.survived[i]) r[i] = 1
+  }
+  return r
+}
+
+// cells born this tick in the neighborhood of the agent's post-move cell (dead agents count too:
+// a birth can be the last thing an agent caused)
+export function offspringReward(ctx: RewardContext): Float32Array {
+  const { after, position, births } = ctx
+  const { width, height } = after
+  const boundary = BOUNDARY_CODES[after.boundary]
+  const code = NEIGHBORHOOD_CODES[after.neighborhood]
+  const r = new Float32Array(position.length)
+  for (let i = 0; i < r.length; i++) {
+    const p = position[i]
+    if (p < 0) continue
+    const x = p % width
+    const y = Math.floor(p / width)
+    for (let d = 0; d < after.neighbors; d++) {
+      const [dx, dy] = neighborDir(code, d, y)
+      const j = resolveCell(x + dx, y + dy, width, height, boundary)
+      if (j !== OUTSIDE && births[j]) r[i] += 1
+    }
+  }
+  return r
+}
+
+export type RewardName = 'energy' | 'survival' | 'offspring'
+
+export const REWARDS: Record<RewardName, RewardFn> = {
+  energy: energyReward,
+  survival: survivalReward,
+  offspring: offspringReward,
+}
+
+// weighted sum of named terms, e.g. { energy: 1, offspring: 0.5 }
+export function combineRewards(weights: Partial<Record<RewardName, number>>): RewardFn {
+  const terms = Object.entries(weights) as [RewardName, number][]
+  for (const [name, w] of terms) {
+    if (!(name in REWARDS)) throw new Error(`Unknown reward: ${name}`)
+    if (!Number.isFinite(w)) throw new Error(`Reward weight for ${name} must be finite`)
+  }
+  return (ctx) => {
+    const total = new Float32Array(ctx.position.length)
+    for (const [name, w] of terms) {
+      if (w === 0) continue
+      const r = REWARDS[name](ctx)
+      for (let i = 0; i < total.length; i++) total[i] += w * r[i]
+    }
+    return total
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { RULE_PRESETS, formatRule, parseRule } from './rules'
+
+// bit n set for every count n
+function mask(...counts: number[]): number {
+  return counts.reduce((m, n) => m | (1 << n), 0)
+}
+
+describe('parseRule', () => {
+  it.each([
+    ['B3/S23', { birth: mask(3), survive: mask(2, 3), states: 2 }],
+    ['b36/s23', { birth: mask(3, 6), survive: mask(2, 3), states: 2 }],
+    ['S23/B3', { birth: mask(3), survive: mask(2, 3), states: 2 }],
+    [' B2/S ', { birth: mask(2), survive: 0, states: 2 }],
+    ['B2/S/C3', { birth: mask(2), survive: 0, states: 3 }],
+    ['B2/S345/C4', { birth: mask(2), survive: mask(3, 4, 5), states: 4 }],
+    ['B2/S/G3', { birth: mask(2), survive: 0, states: 3 }],
+    ['C8/B45678/S12345', { birth: mask(4, 5, 6, 7, 8), survive: mask(1, 2, 3, 4, 5), states: 8 }],
+    ['B3/S23/C2', { birth: mask(3), survive: mask(2, 3), states: 2 }],
+    ['B10-13,15/S8,9,12', { birth: mask(10, 11, 12, 13, 15), survive: mask(8, 9, 12), states: 2 }],
+    ['B3/S0-24/C256', { birth: mask(3), survive: 2 ** 25 - 1, states: 256 }],
+  ])('parses %s', (text, rule) => {
+    expect(parseRule(text)).toEqual(rule)
+  })
+
+  it.each([
+    ['', /separated by "\/"/],
+    ['B3', /separated by "\/"/],
+    ['B3/S23/C3/C4', /separated by "\/"/],
+    ['B3/B3', /Birth part given twice/],
+    ['S23/S23', /Survival part given twice/],
+    ['B3/S23/X4', /must start with B, S or C/],
+    ['B3/C3', /both a B part and an S part/],
+    ['B3a/S23', /Invalid character "A" in birth part/],
+    ['B33/S23', /Duplicate count 3 in birth part/],
+    ['B3/S2,2', /Duplicate count 2 in survival part/],
+    ['B3/S2,25', /Neighbor count 25 out of range/],
+    ['B5-3/S2', /Empty range "5-3"/],
+    ['B3,x/S2', /Invalid count "X"/],
+    ['B3/S23/C', /State count "" is not a number/],
+    ['B3/S23/C1', /State count must be in 2\.\.256/],
+    ['B3/S23/C257', /State count must be in 2\.\.256/],
+    ['B03/S23', /B0 rules are not supported/],
+  ])('rejects %j', (text, message) => {
+    expect(() => parseRule(text)).toThrow(message)
+  })
+})
+
+describe('formatRule', () => {
+  it.each([
+    [{ birth: mask(3), survive: mask(2, 3), states: 2 }, 'B3/S23'],
+    [{ birth: mask(2), survive: 0, states: 3 }, 'B2/S/C3'],
+    [{ birth: mask(3, 6), survive: mask(2, 3), states: 2 }, 'B36/S23'],
+    // counts past 9 switch the whole part to a comma list, runs of 3+ as ranges
+    [{ birth: mask(10, 11, 12, 13, 15), survive: mask(8, 9, 12), states: 2 }, 'B10-13,15/S8,9,12'],
+    [{ birth: mask(3, 4, 10), survive: mask(1), states: 5 }, 'B3,4,10/S1/C5'],
+  ])('formats %j as %s', (rule, text) => {
+    expect(formatRule(rule)).toBe(text)
+  })
+})
+
+describe('parseRule and formatRule', () => {
+  it.each(RULE_PRESETS.map((p) => [p.name, p.notation]))('round-trips the %s preset', (_name, notation) => {
+    expect(formatRule(parseRule(notation))).toBe(notation)
+  })
+
+  it.each(['B3/S23', 'B2/S/C3', 'B10-13,15/S8,9,12', 'B2,3,20-24/S0-24/C256'])('round-trips %s', (notation) => {
+    expect(formatRule(parseRule(notation))).toBe(notation)
+  })
+
+  it.each([
+    ['s23/b3', 'B3/S23'],
+    ['B2/S/G3', 'B2/S/C3'],
+    ['B3/S23/C2', 'B3/S23'],
+    ['B3/S1,2,3', 'B3/S123'],
+  ])('normalizes %s to %s', (text, canonical) => {
+    expect(formatRule(parseRule(text))).toBe(canonical)
+  })
+})
@@ -0,0 +1,146 @@
+// outer-totalistic life-like rules in B/S notation, e.g. B3/S23, plus the Generations
+// family B/S/C (e.g. Brian's Brain B2/S/C3)
+// bit n of a mask is set when a cell with n live neighbors is born (birth) or survives (survive)
+// cell states: 0 dead, 1 alive, 2..states-1 refractory (dying, not counted as neighbors)
+// counts above 9 (Moore radius 2 has 24 neighbors) use comma lists with ranges, e.g. B10-13,15/S8-12
+
+export interface LifeRule {
+  birth: number
+  survive: number
+  states: number
+}
+
+export interface RulePreset {
+  name: string
+  notation: string
+}
+
+export const RULE_PRESETS: RulePreset[] = [
+  { name: 'Conway', notation: 'B3/S23' },
+  { name: 'HighLife', notation: 'B36/S23' },
+  { name: 'Seeds', notation: 'B2/S' },
+  { name: 'Day & Night', notation: 'B3678/S34678' },
+  { name: 'Life without Death', notation: 'B3/S012345678' },
+  { name: 'Maze', notation: 'B3/S12345' },
+  { name: '2x2', notation: 'B36/S125' },
+  { name: 'Replicator', notation: 'B1357/S1357' },
+  { name: 'Diamoeba', notation: 'B35678/S5678' },
+  { name: "Brian's Brain", notation: 'B2/S/C3' },
+  { name: 'Star Wars', notation: 'B2/S345/C4' },
+  { name: 'Frogs', notation: 'B34/S12/C3' },
+  { name: 'Lava', notation: 'B45678/S12345/C8' },
+]
+
+export const DEFAULT_RULE = 'B3/S23'
+
+// largest neighbor count over all neighborhoods (Moore radius 2)
+export const MAX_NEIGHBORS = 24
+
+export const MAX_STATES = 256
+
+function addCount(mask: number, n: number, part: string): number {
+  if (n > MAX_NEIGHBORS) {
+    throw new Error(`Neighbor count ${n} out of range 0..${MAX_NEIGHBORS} in ${part} part`)
+  }
+  if (mask & (1 << n)) {
+    throw new Error(`Duplicate count ${n} in ${part} part`)
+  }
+  return mask | (1 << n)
+}
+
+// either one digit per count (23) or a comma list of counts and ranges (2,3,10-12)
+function parseCounts(digits: string, part: string): number {
+  let mask = 0
+  if (!/[,-]/.test(digits)) {
+    for (const ch of digits) {
+      const n = ch.charCodeAt(0) - 48
+      if (n < 0 || n > 9) {
+        throw new Error(`Invalid character "${ch}" in ${part} part`)
+      }
+      mask = addCount(mask, n, part)
+    }
+    return mask
+  }
+  for (const item of digits.split(',')) {
+    const m = /^(\d+)(?:-(\d+))?$/.exec(item.trim())
+    if (!m) {
+      throw new Error(`Invalid count "${item}" in ${part} part`)
+    }
+    const lo = Number.parseInt(m[1], 10)
+    const hi = m[2] === undefined ? lo : Number.parseInt(m[2], 10)
+    if (hi < lo) {
+      throw new Error(`Empty range "${item}" in ${part} part`)
+    }
+    for (let n = lo; n <= hi; n++) mask = addCount(mask, n, part)
+  }
+  return mask
+}
+
+// accepts B3/S23, b3/s23, S23/B3, Generations B2/S/C3 and count lists B10-13/S8,9,12;
+// throws with a user-facing message on bad input
+export function parseRule(text: string): LifeRule {
+  const parts = text.trim().toUpperCase().split('/').map((p) => p.trim())
+  if (parts.length !== 2 && parts.length !== 3) {
+    throw new Error('Expected parts separated by "/", e.g. B3/S23 or B2/S/C3')
+  }
+  let birth: number | null = null
+  let survive: number | null = null
+  let states: number | null = null
+  for (const part of parts) {
+    const tag = part.charAt(0)
+    const digits = part.slice(1)
+    if (tag === 'B') {
+      if (birth !== null) throw new Error('Birth part given twice')
+      birth = parseCounts(digits, 'birth')
+    } else if (tag === 'S') {
+      if (survive !== null) throw new Error('Survival part given twice')
+      survive = parseCounts(digits, 'survival')
+    } else if (tag === 'C' || tag === 'G') {
+      if (states !== null) throw new Error('State count given twice')
+      if (!/^\d+$/.test(digits)) throw new Error(`State count "${digits}" is not a number`)
+      states = Number.parseInt(digits, 10)
+      if (states < 2 || states > MAX_STATES) {
+        throw new Error(`State count must be in 2..${MAX_STATES}`)
+      }
+    } else {
+      throw new Error(`Part "${part}" must start with B, S or C`)
+    }
+  }
+  if (birth === null || survive === null) {
+    throw new Error('Rule needs both a B part and an S part')
+  }
+  if (birth & 1) {
+    // B0 would light every empty cell with no neighbors, flashing the whole grid
+    throw new Error('B0 rules are not supported')
+  }
+  return { birth, survive, states: states ?? 2 }
+}
+
+function maskDigits(mask: number): string {
+  if (mask < 1 << 10) {
+    let out = ''
+    for (let n = 0; n <= 9; n++) {
+      if (mask & (1 << n)) out += String(n)
+    }
+    return out
+  }
+  // comma list with runs of 3+ collapsed to ranges
+  const items: string[] = []
+  for (let n = 0; n <= MAX_NEIGHBORS; n++) {
+    if (!(mask & (1 << n))) continue
+    let end = n
+    while (end < MAX_NEIGHBORS && mask & (1 << (end + 1))) end++
+    if (end - n >= 2) {
+      items.push(`${n}-${end}`)
+      n = end
+    } else {
+      items.push(String(n))
+    }
+  }
+  return items.join(',')
+}
+
+export function formatRule(rule: LifeRule): string {
+  const bs = `B${maskDigits(rule.birth)}/S${maskDigits(rule.survive)}`
+  return rule.states > 2 ? `${bs}/C${rule.states}` : bs
+}
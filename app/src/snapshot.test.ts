@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest'
+import { CPU } from './cpu/CPU'
+import { DEFAULT_SPECIES } from './species'
+import { FIRST_AGENT_ID } from './lineage'
+import { assignFounderGenomes } from './genome'
+import type { FieldName } from './webgpu/types'
+import { SNAPSHOT_FIELDS, SNAPSHOT_VERSION, decodeSnapshot, encodeSnapshot, type SnapshotState } from './snapshot'
+
+const width = 24
+const height = 16
+const silent = () => {}
+
+// a CPU run a few ticks in, with genomes, two species and a source map so every field is live
+async function running(ticks = 4): Promise<CPU> {
+  const cpu = new CPU(width, height, undefined, silent)
+  await cpu.init()
+  cpu.setMode('LCR')
+  cpu.setSeed(77)
+  cpu.setSpecies({ ...DEFAULT_SPECIES, count: 2 })
+  cpu.setParams({ msg_mode_stage1: 3, msg_mode_stage3: 3, move_mode: 2, msg_k_bits: 3 })
+  cpu.setSourceRegion(2, 3, 4, 2, new Array(8).fill(0.02))
+  cpu.randomize(0.4)
+  for (let t = 0; t < ticks; t++) await cpu.step()
+  return cpu
+}
+
+// every field that differs between two states, by name
+function diffFields(a: SnapshotState, b: SnapshotState): FieldName[] {
+  return SNAPSHOT_FIELDS.filter((name) => {
+    const x = a.fields.get(name)!
+    const y = b.fields.get(name)!
+    return !Buffer.from(x.buffer, x.byteOffset, x.byteLength).equals(Buffer.from(y.buffer, y.byteOffset, y.byteLength))
+  })
+}
+
+// a snapshot file as an older version wrote it: header keys and fields that version had
+function legacyBytes(state: SnapshotState, version: number): Uint8Array {
+  const idFields: FieldName[] = ['agent_id', 'agent_id_mid', 'birth_parents']
+  const genomeFields: FieldName[] = ['genome_move', 'genome_msg']
+  const speciesFields: FieldName[] = ['genome_move_mid', 'genome_msg_mid', 'species', 'species_mid']
+  const dropped = [...(version < 3 ? idFields : []), ...(version < 4 ? genomeFields : []), ...speciesFields]
+  const fields = SNAPSHOT_FIELDS.filter((f) => !dropped.includes(f))
+  const header: Record<string, unknown> = {
+    width: state.width,
+    height: state.height,
+    generation: state.generation,
+    mode: state.mode,
+    rule: state.rule,
+    boundary: state.boundary,
+    neighborhood: state.neighborhood,
+    params: state.params,
+    fields,
+  }
+  if (version >= 2) header.seed = state.seed
+  if (version >= 3) header.nextAgentId = state.nextAgentId
+
+  const cells = state.width * state.height
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header))
+  const out = new Uint8Array(12 + headerBytes.length + fields.length * cells * 4)
+  const view = new DataView(out.buffer)
+  out.set(new TextEncoder().encode('LCRS'), 0)
+  view.setUint16(4, version, true)
+  view.setUint16(6, 0, true)
+  view.setUint32(8, headerBytes.length, true)
+  out.set(headerBytes, 12)
+  fields.forEach((name, k) => {
+    const data = state.fields.get(name)!
+    out.set(new Uint8Array(data.buffer, data.byteOffset, data.byteLength), 12 + headerBytes.length + k * cells * 4)
+  })
+  return out
+}
+
+describe('encodeSnapshot / decodeSnapshot', () => {
+  it.each([true, false])('round-trips a CPU state (compress: %s)', async (compress) => {
+    const state = await (await running()).exportSnapshot()
+    const bytes = await encodeSnapshot(state, { compress })
+    const decoded = await decodeSnapshot(bytes)
+    expect(decoded).toEqual(state)
+    expect(diffFields(decoded, state)).toEqual([])
+  })
+
+  it('compresses the payload', async () => {
+    const state = await (await running()).exportSnapshot()
+    const raw = await encodeSnapshot(state, { compress: false })
+    const packed = await encodeSnapshot(state)
+    expect(packed.length).toBeLessThan(raw.length)
+  })
+
+  it('restores to a run identical to one that was never saved', async () => {
+    const reference = await running()
+    const bytes = await encodeSnapshot(await reference.exportSnapshot())
+
+    const restored = new CPU(width, height, undefined, silent)
+    await restored.init()
+    await restored.importSnapshot(await decodeSnapshot(bytes))
+    for (let t = 0; t < 6; t++) {
+      await reference.step()
+      await restored.step()
+    }
+    const a = await reference.exportSnapshot()
+    const b = await restored.exportSnapshot()
+    expect(diffFields(a, b)).toEqual([])
+    expect({ ...b, fields: null }).toEqual({ ...a, fields: null })
+    expect(b.generation).toBe(10)
+  })
+
+  it('rejects bad magic', async () => {
+    const bytes = await encodeSnapshot(await (await running(0)).exportSnapshot())
+    bytes.set(new TextEncoder().encode('PNG!'), 0)
+    await expect(decodeSnapshot(bytes)).rejects.toThrow(/Not an LCR snapshot file/)
+    await expect(decodeSnapshot(new Uint8Array(8))).rejects.toThrow(/Not an LCR snapshot file/)
+  })
+
+  it('rejects a newer version', async () => {
+    const bytes = await encodeSnapshot(await (await running(0)).exportSnapshot())
+    new DataView(bytes.buffer).setUint16(4, SNAPSHOT_VERSION + 1, true)
+    await expect(decodeSnapshot(bytes)).rejects.toThrow(`Snapshot version ${SNAPSHOT_VERSION + 1} is newer than supported`)
+  })
+
+  it('rejects a truncated header or payload', async () => {
+    const state = await (await running(0)).exportSnapshot()
+    const raw = await encodeSnapshot(state, { compress: false })
+    const headerLength = new DataView(raw.buffer).getUint32(8, true)
+    await expect(decodeSnapshot(raw.subarray(0, 12 + headerLength - 1))).rejects.toThrow(/header is truncated/)
+    await expect(decodeSnapshot(raw.subarray(0, raw.length - 4))).rejects.toThrow(/payload is .* bytes, expected/)
+    const packed = await encodeSnapshot(state)
+    await expect(decodeSnapshot(packed.subarray(0, packed.length - 16))).rejects.toThrow()
+  })
+
+  it.each([1, 2, 3, 4])('migrates a version %d file', async (version) => {
+    const state = await (await running()).exportSnapshot()
+    // species came with version 5: an older run had only species 0
+    const old: SnapshotState = { ...state, species: DEFAULT_SPECIES }
+    const decoded = await decodeSnapshot(legacyBytes(old, version))
+    const cells = width * height
+
+    expect(decoded.seed).toBe(version >= 2 ? state.seed : 0)
+    expect(decoded.nextAgentId).toBe(version >= 3 ? state.nextAgentId : FIRST_AGENT_ID)
+    expect(decoded.species).toEqual(DEFAULT_SPECIES)
+    expect(decoded.params).toEqual(state.params)
+    expect([...decoded.fields.keys()].sort()).toEqual([...SNAPSHOT_FIELDS].sort())
+    for (const name of ['alive', 'energy', 'dead_energy', 'age', 'source_map'] as const) {
+      expect(decoded.fields.get(name)).toEqual(state.fields.get(name))
+    }
+    for (const name of ['genome_move_mid', 'genome_msg_mid', 'species', 'species_mid'] as const) {
+      expect(decoded.fields.get(name)).toEqual(new Uint32Array(cells))
+    }
+    if (version >= 3) {
+      expect(decoded.fields.get('agent_id')).toEqual(state.fields.get('agent_id'))
+    } else {
+      expect(decoded.fields.get('agent_id')).toEqual(new Uint32Array(cells))
+    }
+    if (version >= 4) {
+      expect(decoded.fields.get('genome_move')).toEqual(state.fields.get('genome_move'))
+    } else {
+      // the agents present become founders with genomes derived from the seed
+      const move = new Uint32Array(cells)
+      const msg = new Uint32Array(cells)
+      assignFounderGenomes(state.fields.get('alive') as Uint32Array, width, state.generation, decoded.seed, move, msg)
+      expect(decoded.fields.get('genome_move')).toEqual(move)
+      expect(decoded.fields.get('genome_msg')).toEqual(msg)
+    }
+
+    // and the migrated state runs
+    const cpu = new CPU(width, height, undefined, silent)
+    await cpu.init()
+    await cpu.importSnapshot(decoded)
+    await cpu.step()
+    expect((await cpu.exportSnapshot()).generation).toBe(state.generation + 1)
+  })
+})
@@ -0,0 +1,202 @@
+import { FIELD_NAMES, FLOAT_FIELDS, type FieldName, type FieldData } from './webgpu/types'
+import { BOUNDARY_CODES, type BoundaryMode } from './boundary'
+import { NEIGHBORHOOD_CODES, type Neighborhood } from './neighborhood'
+import { DEFAULT_PHYSICS, applyParams, type PhysicsParams } from './params'
+import { formatRule, parseRule } from './rules'
+import { isValidSeed } from './random'
+import { FIRST_AGENT_ID } from './lineage'
+import { assignFounderGenomes } from './genome'
+import { DEFAULT_SPECIES, validateSpecies, type SpeciesConfig } from './species'
+
+// complete simulation state (every buffer that survives a tick, plus the settings the kernels
+// read), so that restoring and stepping is identical to never having saved. GPU and CPU both
+// export/import SnapshotState; encodeSnapshot/decodeSnapshot turn it into a binary file:
+//
+//   0   4  magic "LCRS"
+//   4   2  version (u16)
+//   6   2  flags (u16, bit 0: payload deflate-compressed)
+//   8   4  header length n (u32)
+//  12   n  header, UTF-8 JSON: settings + the field list in payload order
+//  12+n    payload: one width*height array of 4-byte cells per field (raw u32/f32 bits)
+//
+// all integers little-endian
+
+export const SNAPSHOT_MAGIC = 'LCRS'
+export const SNAPSHOT_VERSION = 5
+const FLAG_DEFLATE = 1
+
+export interface SnapshotState {
+  width: number
+  height: number
+  generation: number
+  mode: 'LCR' | 'Conway'
+  rule: string
+  boundary: BoundaryMode
+  neighborhood: Neighborhood
+  params: PhysicsParams
+  seed: number
+  nextAgentId: number // id the next birth gets (lineage.ts)
+  species: SpeciesConfig // species.ts
+  fields: Map<FieldName, FieldData>
+}
+
+// transient buffers (recomputed every tick before they are read) are still saved: they are
+// small next to the rest and keep the field layers identical right after a restore
+export const SNAPSHOT_FIELDS: readonly FieldName[] = FIELD_NAMES
+
+interface SnapshotHeader {
+  width: number
+  height: number
+  generation: number
+  mode: 'LCR' | 'Conway'
+  rule: string
+  boundary: BoundaryMode
+  neighborhood: Neighborhood
+  params: PhysicsParams
+  seed: number // absent before version 2 (read as 0, the unseeded hashes)
+  nextAgentId: number // absent before version 3 (agents then start without ids)
+  species: SpeciesConfig // absent before version 5 (species off)
+  fields: FieldName[]
+}
+
+export async function encodeSnapshot(state: SnapshotState, options: { compress?: boolean } = {}): Promise<Uint8Array> {
+  const cells = state.width * state.height
+  const names = SNAPSHOT_FIELDS.filter((f) => state.fields.has(f))
+  const header: SnapshotHeader = {
+    width: state.width,
+    height: state.height,
+    generation: state.generation,
+    mode: state.mode,
+    rule: state.rule,
+    boundary: state.boundary,
+    neighborhood: state.neighborhood,
+    params: state.params,
+    seed: state.seed,
+    nextAgentId: state.nextAgentId,
+    species: state.species,
+    fields: names,
+  }
+
+  let payload = new Uint8Array(names.length * cells * 4)
+  names.forEach((name, k) => {
+    const data = state.fields.get(name)!
+    if (data.length !== cells) {
+      throw new Error(`Snapshot field ${name} has ${data.length} cells, expected ${cells}`)
+    }
+    payload.set(new Uint8Array(data.buffer, data.byteOffset, data.byteLength), k * cells * 4)
+  })
+  const compress = options.compress ?? true
+  if (compress) payload = await deflate(payload)
+
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header))
+  const out = new Uint8Array(12 + headerBytes.length + payload.length)
+  const view = new DataView(out.buffer)
+  out.set(new TextEncoder().encode(SNAPSHOT_MAGIC), 0)
+  view.setUint16(4, SNAPSHOT_VERSION, true)
+  view.setUint16(6, compress ? FLAG_DEFLATE : 0, true)
+  view.setUint32(8, headerBytes.length, true)
+  out.set(headerBytes, 12)
+  out.set(payload, 12 + headerBytes.length)
+  return out
+}
+
+export async function decodeSnapshot(bytes: Uint8Array): Promise<SnapshotState> {
+  if (bytes.length < 12 || new TextDecoder().decode(bytes.subarray(0, 4)) !== SNAPSHOT_MAGIC) {
+    throw new Error('Not an LCR snapshot file')
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const version = view.getUint16(4, true)
+  if (version > SNAPSHOT_VERSION) {
+    throw new Error(`Snapshot version ${version} is newer than supported (${SNAPSHOT_VERSION})`)
+  }
+  const flags = view.getUint16(6, true)
+  const headerLength = view.getUint32(8, true)
+  if (12 + headerLength > bytes.length) throw new Error('Snapshot header is truncated')
+
+  let header: SnapshotHeader
+  try {
+    header = JSON.parse(new TextDecoder().decode(bytes.subarray(12, 12 + headerLength)))
+  } catch {
+    throw new Error('Snapshot header is not valid JSON')
+  }
+  if (version < 2) header.seed = 0
+  if (version < 3) header.nextAgentId = FIRST_AGENT_ID
+  if (version < 5) header.species = DEFAULT_SPECIES
+  validateHeader(header)
+
+  let payload = bytes.subarray(12 + headerLength)
+  if (flags & FLAG_DEFLATE) payload = await inflate(payload)
+  const cells = header.width * header.height
+  if (payload.length !== header.fields.length * cells * 4) {
+    throw new Error(`Snapshot payload is ${payload.length} bytes, expected ${header.fields.length * cells * 4}`)
+  }
+
+  const fields = new Map<FieldName, FieldData>()
+  header.fields.forEach((name, k) => {
+    // copy out so every field owns an aligned buffer
+    const raw = payload.slice(k * cells * 4, (k + 1) * cells * 4).buffer
+    fields.set(name, FLOAT_FIELDS.has(name) ? new Float32Array(raw) : new Uint32Array(raw))
+  })
+  // before version 3: no ids yet, every agent is adopted as a founder on the next tick
+  for (const name of ['agent_id', 'agent_id_mid', 'birth_parents'] as const) {
+    if (!fields.has(name)) fields.set(name, new Uint32Array(cells))
+  }
+  // before version 4: no genomes yet, the agents present get founder genomes
+  if (!fields.has('genome_move') || !fields.has('genome_msg')) {
+    const move = new Uint32Array(cells)
+    const msg = new Uint32Array(cells)
+    const alive = fields.get('alive')
+    if (alive) assignFounderGenomes(alive as Uint32Array, header.width, header.generation, header.seed, move, msg)
+    fields.set('genome_move', move)
+    fields.set('genome_msg', msg)
+  }
+  // before version 5: every agent is species 0
+  for (const name of ['genome_move_mid', 'genome_msg_mid', 'species', 'species_mid'] as const) {
+    if (!fields.has(name)) fields.set(name, new Uint32Array(cells))
+  }
+
+  return {
+    width: header.width,
+    height: header.height,
+    generation: header.generation,
+    mode: header.mode,
+    rule: formatRule(parseRule(header.rule)),
+    boundary: header.boundary,
+    neighborhood: header.neighborhood,
+    params: applyParams(DEFAULT_PHYSICS, header.params),
+    seed: header.seed,
+    nextAgentId: header.nextAgentId,
+    species: validateSpecies(header.species),
+    fields,
+  }
+}
+
+function validateHeader(h: SnapshotHeader): void {
+  const positiveInt = (v: unknown) => typeof v === 'number' && Number.isInteger(v) && v > 0
+  if (!positiveInt(h.width) || !positiveInt(h.height)) throw new Error('Snapshot grid size is invalid')
+  if (typeof h.generation !== 'number' || !Number.isInteger(h.generation) || h.generation < 0) {
+    throw new Error('Snapshot generation is invalid')
+  }
+  if (!positiveInt(h.nextAgentId)) throw new Error('Snapshot agent id counter is invalid')
+  if (!isValidSeed(h.seed)) throw new Error(`Invalid snapshot seed: ${String(h.seed)}`)
+  if (h.mode !== 'LCR' && h.mode !== 'Conway') throw new Error(`Invalid snapshot mode: ${String(h.mode)}`)
+  if (!(h.boundary in BOUNDARY_CODES)) throw new Error(`Invalid snapshot boundary: ${String(h.boundary)}`)
+  if (!(h.neighborhood in NEIGHBORHOOD_CODES)) throw new Error(`Invalid snapshot neighborhood: ${String(h.neighborhood)}`)
+  if (!Array.isArray(h.fields) || h.fields.some((f) => !FIELD_NAMES.includes(f))) {
+    throw new Error('Snapshot lists unknown fields')
+  }
+}
+
+// CompressionStream exists in browsers and Node 18+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  return pipe(data, new CompressionStream('deflate'))
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  return pipe(data, new DecompressionStream('deflate'))
+}
+
+async function pipe(data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const out = new Response(new Blob([data as BlobPart]).stream().pipeThrough(stream))
+  return new Uint8Array(await out.arrayBuffer())
+}
@@ -0,0 +1,152 @@
+import { OUTSIDE, resolveCell } from './boundary'
+
+// exogenous energy source map S, added to every cell's energy each tick by energy_diffuse
+// (positive = source, negative = sink). shared by the GPU/CPU paint APIs and the brush tool.
+// painting stamps values (it does not accumulate), so a stroke over the same cells is idempotent
+
+export type BrushShape = 'circle' | 'square'
+
+export const BRUSH_SHAPES: { shape: BrushShape; label: string }[] = [
+  { shape: 'circle', label: 'Circle' },
+  { shape: 'square', label: 'Square' },
+]
+
+export interface Brush {
+  shape: BrushShape
+  radius: number // cells from the center; 0 paints a single cell
+  strength: number // energy added per tick; negative values drain
+  erase: boolean // paint 0 regardless of strength
+}
+
+export const DEFAULT_BRUSH: Brush = { shape: 'circle', radius: 4, strength: 0.05, erase: false }
+
+// largest |strength| accepted by the paint APIs and presets
+export const MAX_SOURCE_STRENGTH = 1
+
+export function clampStrength(v: number): number {
+  return Math.min(MAX_SOURCE_STRENGTH, Math.max(-MAX_SOURCE_STRENGTH, v))
+}
+
+// cell offsets covered by a brush centered on (0, 0)
+export function brushOffsets(brush: Brush): [number, number][] {
+  const r = Math.max(0, Math.floor(brush.radius))
+  const out: [number, number][] = []
+  for (let dy = -r; dy <= r; dy++) {
+    for (let dx = -r; dx <= r; dx++) {
+      if (brush.shape === 'circle' && dx * dx + dy * dy > r * r + r) continue
+      out.push([dx, dy])
+    }
+  }
+  return out
+}
+
+// stamp a brush into a source map in place; returns the [first, last] rows touched
+// (cells resolved through the boundary mode, dropped past a dead border), or null
+export function stampBrush(
+  map: Float32Array,
+  width: number,
+  height: number,
+  boundary: number,
+  col: number,
+  row: number,
+  brush: Brush
+): [number, number] | null {
+  const value = brush.erase ? 0 : clampStrength(brush.strength)
+  let lo = Infinity
+  let hi = -Infinity
+  for (const [dx, dy] of brushOffsets(brush)) {
+    const i = resolveCell(col + dx, row + dy, width, height, boundary)
+    if (i === OUTSIDE) continue
+    map[i] = value
+    const r = Math.floor(i / width)
+    if (r < lo) lo = r
+    if (r > hi) hi = r
+  }
+  return lo <= hi ? [lo, hi] : null
+}
+
+// copy a w x h block of values into a source map at (col, row), clipped to the grid
+export function writeRegion(
+  map: Float32Array,
+  width: number,
+  height: number,
+  col: number,
+  row: number,
+  w: number,
+  h: number,
+  values: ArrayLike<number>
+): void {
+  if (values.length !== w * h) {
+    throw new Error(`Source region needs ${w * h} values, got ${values.length}`)
+  }
+  for (let y = Math.max(0, row); y < Math.min(height, row + h); y++) {
+    for (let x = Math.max(0, col); x < Math.min(width, col + w); x++) {
+      map[y * width + x] = clampStrength(values[(y - row) * w + (x - col)])
+    }
+  }
+}
+
+export type SourcePreset = 'clear' | 'uniform' | 'gradient' | 'spot' | 'patches'
+
+export const SOURCE_PRESETS: { preset: SourcePreset; label: string }[] = [
+  { preset: 'clear', label: 'Clear' },
+  { preset: 'uniform', label: 'Uniform field' },
+  { preset: 'gradient', label: 'Gradient (left to right)' },
+  { preset: 'spot', label: 'Central spot' },
+  { preset: 'patches', label: 'Random patches' },
+]
+
+// full-grid source map for a preset; `strength` is the peak value
+export function sourcePreset(
+  preset: SourcePreset,
+  width: number,
+  height: number,
+  strength: number,
+  random: () => number = Math.random
+): Float32Array {
+  const map = new Float32Array(width * height)
+  const s = clampStrength(strength)
+  switch (preset) {
+    case 'uniform':
+      map.fill(s)
+      break
+    case 'gradient':
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          map[y * width + x] = width > 1 ? (s * x) / (width - 1) : s
+        }
+      }
+      break
+    case 'spot': {
+      // gaussian bump, sigma a sixth of the short side
+      const sigma = Math.max(1, Math.min(width, height) / 6)
+      const cx = (width - 1) / 2
+      const cy = (height - 1) / 2
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const d2 = (x - cx) ** 2 + (y - cy) ** 2
+          map[y * width + x] = s * Math.exp(-d2 / (2 * sigma * sigma))
+        }
+      }
+      break
+    }
+    case 'patches': {
+      const count = 8
+      const maxR = Math.max(2, Math.floor(Math.min(width, height) / 10))
+      for (let n = 0; n < count; n++) {
+        const brush: Brush = {
+          shape: 'circle',
+          radius: 1 + Math.floor(random() * maxR),
+          strength: s,
+          erase: false,
+        }
+        // patches wrap like the torus so they are never clipped at the edge
+        stampBrush(map, width, height, 0, Math.floor(random() * width), Math.floor(random() * height), brush)
+      }
+      break
+    }
+    case 'clear':
+      break
+  }
+  return map
+}
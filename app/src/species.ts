@@ -0,0 +1,142 @@
+import { randHash3 } from './random'
+import { parseRule, type LifeRule } from './rules'
+import type { PhysicsParams } from './params'
+
+// species (species.wgsl): every agent belongs to one of up to MAX_SPECIES species. the species
+// follows the agent when it moves and is handed to its births, and picks the agent's
+//  - Life rule: B and S masks of its own rule (the state count C stays the global rule's)
+//  - movement cost and message cost, in place of move_cost_milli / msg_cost_milli
+//  - color, in place of white
+//  - starting energy of its founders (randomized, drawn and placed cells), in place of 1
+// Life counting 'all' counts every agent around a cell, 'same' only agents of the cell's species.
+// an empty cell is born into the species with most agent neighbors (lowest index on ties) and
+// tested against that species' birth mask. filterMessages makes inboxes hear only neighbors of
+// the receiver's species.
+//
+// with count 1 species are off: every cell uses the global rule, costs and white, whatever its
+// species index, so a run without species is unchanged
+
+export const MAX_SPECIES = 4
+
+export type SpeciesCounting = 'all' | 'same'
+
+export interface SpeciesSettings {
+  name: string
+  rule: string // B/S notation (rules.ts)
+  moveCostMilli: number // energy per move, as move_cost_milli
+  msgCostMilli: number // energy per set payload bit, as msg_cost_milli
+  startEnergyMilli: number // energy of a founder, 1..1000
+  color: string // #rrggbb
+}
+
+export interface SpeciesConfig {
+  count: number // 1..MAX_SPECIES; 1 = off
+  counting: SpeciesCounting
+  filterMessages: boolean
+  species: SpeciesSettings[] // MAX_SPECIES entries, the first `count` in use
+}
+
+export const DEFAULT_SPECIES: SpeciesConfig = {
+  count: 1,
+  counting: 'all',
+  filterMessages: false,
+  species: [
+    { name: 'Red', rule: 'B3/S23', moveCostMilli: 10, msgCostMilli: 50, startEnergyMilli: 1000, color: '#ff5a5a' },
+    { name: 'Blue', rule: 'B3/S23', moveCostMilli: 10, msgCostMilli: 50, startEnergyMilli: 1000, color: '#5a8cff' },
+    { name: 'Green', rule: 'B36/S23', moveCostMilli: 10, msgCostMilli: 50, startEnergyMilli: 1000, color: '#5adc78' },
+    { name: 'Yellow', rule: 'B3/S23', moveCostMilli: 10, msgCostMilli: 50, startEnergyMilli: 1000, color: '#ffd24a' },
+  ],
+}
+
+export const COUNTING_CODES: Record<SpeciesCounting, number> = {
+  all: 0,
+  same: 1,
+}
+
+// throws listing every invalid entry, like applyParams. settings missing from a config saved
+// before they existed take their defaults
+export function validateSpecies(saved: SpeciesConfig): SpeciesConfig {
+  const config = { ...saved, species: saved.species.map((s, k) => ({ ...DEFAULT_SPECIES.species[k], ...s })) }
+  const errors: string[] = []
+  if (!Number.isInteger(config.count) || config.count < 1 || config.count > MAX_SPECIES) {
+    errors.push(`count must be in 1..${MAX_SPECIES}, got ${String(config.count)}`)
+  }
+  if (!(config.counting in COUNTING_CODES)) {
+    errors.push(`counting must be "all" or "same", got ${String(config.counting)}`)
+  }
+  if (config.species.length !== MAX_SPECIES) {
+    errors.push(`expected ${MAX_SPECIES} species, got ${config.species.length}`)
+  }
+  config.species.forEach((s, k) => {
+    try {
+      parseRule(s.rule)
+    } catch (err) {
+      errors.push(`species ${k} rule: ${err instanceof Error ? err.message : String(err)}`)
+    }
+    for (const [key, value] of [['moveCostMilli', s.moveCostMilli], ['msgCostMilli', s.msgCostMilli]] as const) {
+      if (!Number.isInteger(value) || value < 0 || value > 1000) {
+        errors.push(`species ${k} ${key} must be in 0..1000, got ${String(value)}`)
+      }
+    }
+    if (!Number.isInteger(s.startEnergyMilli) || s.startEnergyMilli < 1 || s.startEnergyMilli > 1000) {
+      errors.push(`species ${k} startEnergyMilli must be in 1..1000, got ${String(s.startEnergyMilli)}`)
+    }
+    if (!/^#[0-9a-f]{6}$/i.test(s.color)) {
+      errors.push(`species ${k} color must be #rrggbb, got ${String(s.color)}`)
+    }
+  })
+  if (errors.length > 0) {
+    throw new Error(`Invalid species: ${errors.join('; ')}`)
+  }
+  return config
+}
+
+// per-species kernel uniforms, MAX_SPECIES entries each (SimUniformParams)
+export interface SpeciesUniforms {
+  species_counting: number // COUNTING_CODES
+  species_filter: number // 1: inboxes only hear the receiver's species
+  species_birth: number[] // Life masks
+  species_survive: number[]
+  species_move_cost: number[] // milli
+  species_msg_cost: number[] // milli
+}
+
+export function speciesUniforms(config: SpeciesConfig, rule: LifeRule, params: PhysicsParams): SpeciesUniforms {
+  const on = config.count > 1
+  const rules = config.species.map((s) => (on ? parseRule(s.rule) : rule))
+  return {
+    species_counting: on ? COUNTING_CODES[config.counting] : 0,
+    species_filter: on && config.filterMessages ? 1 : 0,
+    species_birth: rules.map((r) => r.birth),
+    species_survive: rules.map((r) => r.survive),
+    species_move_cost: config.species.map((s) => (on ? s.moveCostMilli : params.move_cost_milli)),
+    species_msg_cost: config.species.map((s) => (on ? s.msgCostMilli : params.msg_cost_milli)),
+  }
+}
+
+// agent color per species, 0..1 rgb; all white while species are off
+export function speciesPalette(config: SpeciesConfig): [number, number, number][] {
+  return config.species.map((s) => {
+    if (config.count <= 1) return [1, 1, 1]
+    const v = Number.parseInt(s.color.slice(1), 16)
+    return [((v >> 16) & 0xff) / 255, ((v >> 8) & 0xff) / 255, (v & 0xff) / 255]
+  })
+}
+
+// species and energy of a founder drawn or placed as `species`: clamped to the species in use,
+// so an edited cell starts exactly like one of the species' random fill (all 0 and 1 while off)
+export function founderSpecies(config: SpeciesConfig, species: number): number {
+  return config.count > 1 ? Math.min(Math.max(0, Math.floor(species)), config.count - 1) : 0
+}
+
+export function founderEnergy(config: SpeciesConfig, species: number): number {
+  return config.count > 1 ? config.species[Math.min(species, MAX_SPECIES - 1)].startEnergyMilli / 1000 : 1
+}
+
+// species of every agent of a fresh population (randomize): hashed per cell, spread evenly over
+// the species in use
+export function assignSpecies(alive: Uint32Array, width: number, seed: number, count: number, out: Uint32Array): void {
+  for (let i = 0; i < alive.length; i++) {
+    out[i] = alive[i] === 1 && count > 1 ? randHash3(i % width, Math.floor(i / width) ^ 0x2f6b9a53, 0, seed) % count : 0
+  }
+}
@@ -0,0 +1,202 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { DEFAULT_PHYSICS } from './params'
+import { DEFAULT_SPECIES } from './species'
+import { mulberry32 } from './random'
+import { FIELD_NAMES, FLOAT_FIELDS, type FieldData, type FieldName } from './webgpu/types'
+import { encodeSnapshot, type SnapshotState } from './snapshot'
+import { GenerationTimeline, UndoHistory, withSettings } from './timeline'
+
+const width = 16
+const height = 12
+
+// a state at `generation` with a half-filled grid drawn from it, so every state is different
+// and they all compress to about the same size
+function state(generation: number): SnapshotState {
+  const cells = width * height
+  const rand = mulberry32(generation + 1)
+  const fields = new Map<FieldName, FieldData>()
+  for (const name of FIELD_NAMES) {
+    fields.set(name, FLOAT_FIELDS.has(name) ? new Float32Array(cells) : new Uint32Array(cells))
+  }
+  const alive = fields.get('alive')!
+  for (let i = 0; i < cells; i++) alive[i] = rand() < 0.5 ? 1 : 0
+  return {
+    width,
+    height,
+    generation,
+    mode: 'LCR',
+    rule: 'B3/S23',
+    boundary: 'torus',
+    neighborhood: 'moore',
+    params: DEFAULT_PHYSICS,
+    seed: 1,
+    nextAgentId: 1,
+    species: DEFAULT_SPECIES,
+    fields,
+  }
+}
+
+async function encodedSize(generation: number): Promise<number> {
+  return (await encodeSnapshot(state(generation))).length
+}
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('UndoHistory', () => {
+  it('undoes and redoes in order', async () => {
+    const history = new UndoHistory()
+    expect(history.canUndo).toBe(false)
+    await history.record(state(0))
+    await history.record(state(1))
+
+    const back = await history.undo(state(2))
+    expect(back?.generation).toBe(1)
+    expect(back?.fields.get('alive')).toEqual(state(1).fields.get('alive'))
+    expect((await history.undo(state(1)))?.generation).toBe(0)
+    expect(history.canUndo).toBe(false)
+    expect(await history.undo(state(0))).toBeNull()
+
+    expect(history.canRedo).toBe(true)
+    expect((await history.redo(state(0)))?.generation).toBe(1)
+    expect((await history.redo(state(1)))?.generation).toBe(2)
+    expect(history.canRedo).toBe(false)
+    expect(await history.redo(state(2))).toBeNull()
+  })
+
+  it('drops redo after a new edit', async () => {
+    const history = new UndoHistory()
+    await history.record(state(0))
+    await history.undo(state(1))
+    expect(history.canRedo).toBe(true)
+    await history.record(state(5))
+    expect(history.canRedo).toBe(false)
+    expect((await history.undo(state(6)))?.generation).toBe(5)
+  })
+
+  it('keeps at most depth steps, dropping the oldest', async () => {
+    const history = new UndoHistory(3)
+    for (let g = 0; g < 5; g++) await history.record(state(g))
+    const undone: number[] = []
+    while (history.canUndo) undone.push((await history.undo(state(9)))!.generation)
+    expect(undone).toEqual([4, 3, 2])
+  })
+
+  it('keeps the steps within the byte bound, but always the newest one', async () => {
+    const size = await encodedSize(0)
+    const history = new UndoHistory(32, size * 2.5)
+    for (let g = 0; g < 6; g++) await history.record(state(g))
+    const undone: number[] = []
+    while (history.canUndo) undone.push((await history.undo(state(9)))!.generation)
+    expect(undone).toEqual([5, 4])
+
+    const tiny = new UndoHistory(32, 1)
+    await tiny.record(state(0))
+    await tiny.record(state(1))
+    expect((await tiny.undo(state(2)))?.generation).toBe(1)
+    expect(tiny.canUndo).toBe(false)
+  })
+
+  it('skips a state that fails to encode', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const history = new UndoHistory()
+    await history.record(state(0))
+    const broken = state(1)
+    broken.fields.set('alive', new Uint32Array(3))
+    await history.record(broken)
+    expect(console.error).toHaveBeenCalled()
+    expect((await history.undo(state(2)))?.generation).toBe(0)
+    expect(history.canUndo).toBe(false)
+  })
+
+  it('clears both stacks', async () => {
+    const history = new UndoHistory()
+    await history.record(state(0))
+    await history.record(state(1))
+    await history.undo(state(2))
+    history.clear()
+    expect(history.canUndo).toBe(false)
+    expect(history.canRedo).toBe(false)
+  })
+})
+
+describe('GenerationTimeline', () => {
+  it('is due every interval-th generation', () => {
+    const every = new GenerationTimeline()
+    expect([0, 1, 2, 3].map((g) => every.due(g))).toEqual([true, true, true, true])
+    const third = new GenerationTimeline(3)
+    expect([0, 1, 2, 3, 4, 5, 6].map((g) => third.due(g))).toEqual([true, false, false, true, false, false, true])
+    expect(new GenerationTimeline(0).interval).toBe(1)
+  })
+
+  it('records and restores generations', async () => {
+    const timeline = new GenerationTimeline()
+    for (const g of [0, 1, 2]) await timeline.record(state(g))
+    expect(timeline.generations()).toEqual([0, 1, 2])
+    expect(timeline.size).toBe(3)
+    expect(timeline.has(1)).toBe(true)
+    expect(timeline.has(3)).toBe(false)
+    const restored = await timeline.get(1)
+    expect(restored?.fields.get('alive')).toEqual(state(1).fields.get('alive'))
+    expect(await timeline.get(3)).toBeNull()
+  })
+
+  it('drops the later entries when a state branches off an earlier generation', async () => {
+    const timeline = new GenerationTimeline()
+    for (const g of [0, 1, 2, 3]) await timeline.record(state(g))
+    await timeline.record(state(1))
+    expect(timeline.generations()).toEqual([0, 1])
+    expect(timeline.bytes).toBe((await encodedSize(0)) + (await encodedSize(1)))
+  })
+
+  it('keeps at most maxLength entries, dropping the oldest', async () => {
+    const timeline = new GenerationTimeline(1, 3)
+    for (let g = 0; g < 6; g++) await timeline.record(state(g))
+    expect(timeline.generations()).toEqual([3, 4, 5])
+  })
+
+  it('keeps its entries within the byte bound, but always the newest one', async () => {
+    const size = await encodedSize(0)
+    const timeline = new GenerationTimeline(1, 256, size * 2.5)
+    for (let g = 0; g < 6; g++) await timeline.record(state(g))
+    expect(timeline.generations()).toEqual([4, 5])
+    expect(timeline.bytes).toBeLessThanOrEqual(size * 2.5)
+
+    const tiny = new GenerationTimeline(1, 256, 1)
+    await tiny.record(state(0))
+    await tiny.record(state(1))
+    expect(tiny.generations()).toEqual([1])
+  })
+
+  it('clears entries and bytes', async () => {
+    const timeline = new GenerationTimeline()
+    await timeline.record(state(0))
+    timeline.clear()
+    expect(timeline.size).toBe(0)
+    expect(timeline.bytes).toBe(0)
+  })
+})
+
+describe('withSettings', () => {
+  it('keeps the grid of the state and takes every setting from the other', () => {
+    const past = { ...state(4), nextAgentId: 40 }
+    const now: SnapshotState = {
+      ...state(9),
+      mode: 'Conway',
+      rule: 'B36/S23',
+      boundary: 'dead',
+      neighborhood: 'vonNeumann',
+      params: { ...DEFAULT_PHYSICS, msg_k_bits: 4 },
+      seed: 77,
+      nextAgentId: 90,
+      species: { ...DEFAULT_SPECIES, count: 3 },
+    }
+    const merged = withSettings(past, now)
+    expect(merged.fields).toBe(past.fields)
+    expect(merged.generation).toBe(4)
+    expect(merged.nextAgentId).toBe(40)
+    expect(merged.width).toBe(past.width)
+    expect({ ...merged, fields: null, generation: 9, nextAgentId: 90 }).toEqual({ ...now, fields: null })
+  })
+})
@@ -0,0 +1,172 @@
+import { decodeSnapshot, encodeSnapshot, type SnapshotState } from './snapshot'
+
+// going back in time, both kept as compressed snapshot files (snapshot.ts), which are mostly
+// zeros and shrink well:
+//  - UndoHistory: the state before each user edit (stroke, pattern, clear, randomize), with redo
+//  - GenerationTimeline: the state at the start of recent ticks (every `interval`-th), for
+//    stepping back and the timeline slider; recorded by GPU/CPU.step only while enabled (off by
+//    default, and never on in sweeps or the RL env, so those pay nothing for it)
+// restoring either one brings back the grid and the generation but keeps the current settings
+// (withSettings), so a rewound run can be replayed under a different rule or params
+
+export const DEFAULT_UNDO_DEPTH = 32
+export const DEFAULT_UNDO_BYTES = 64 * 1024 * 1024
+export const DEFAULT_TIMELINE_LENGTH = 256
+export const DEFAULT_TIMELINE_BYTES = 256 * 1024 * 1024
+export const DEFAULT_TIMELINE_INTERVAL = 1
+
+function encode(state: SnapshotState): Promise<Uint8Array> {
+  return encodeSnapshot(state, { compress: true })
+}
+
+// a state that fails to encode is logged and not kept: the history just gets one step shorter
+async function tryEncode(state: SnapshotState): Promise<Uint8Array | null> {
+  try {
+    return await encode(state)
+  } catch (err) {
+    console.error('Undo snapshot failed', err)
+    return null
+  }
+}
+
+// fields, generation and id counter of `state`, every setting of `settings`
+export function withSettings(state: SnapshotState, settings: SnapshotState): SnapshotState {
+  return {
+    ...state,
+    mode: settings.mode,
+    rule: settings.rule,
+    boundary: settings.boundary,
+    neighborhood: settings.neighborhood,
+    params: settings.params,
+    seed: settings.seed,
+    species: settings.species,
+  }
+}
+
+export class UndoHistory {
+  // newest last; each stack drops its oldest entries past either bound
+  private undoStack: Uint8Array[] = []
+  private redoStack: Uint8Array[] = []
+  private depth: number
+  private maxBytes: number
+
+  constructor(depth: number = DEFAULT_UNDO_DEPTH, maxBytes: number = DEFAULT_UNDO_BYTES) {
+    this.depth = Math.max(1, Math.floor(depth))
+    this.maxBytes = maxBytes
+  }
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0
+  }
+
+  // state right before an edit; a new edit drops whatever could be redone
+  async record(before: SnapshotState): Promise<void> {
+    this.redoStack = []
+    const bytes = await tryEncode(before)
+    if (bytes) this.push(this.undoStack, bytes)
+  }
+
+  // state to restore, or null with nothing to undo; `current` becomes redoable
+  async undo(current: SnapshotState): Promise<SnapshotState | null> {
+    const bytes = this.undoStack.pop()
+    if (!bytes) return null
+    const redo = await tryEncode(current)
+    if (redo) this.push(this.redoStack, redo)
+    return decodeSnapshot(bytes)
+  }
+
+  async redo(current: SnapshotState): Promise<SnapshotState | null> {
+    const bytes = this.redoStack.pop()
+    if (!bytes) return null
+    const undo = await tryEncode(current)
+    if (undo) this.push(this.undoStack, undo)
+    return decodeSnapshot(bytes)
+  }
+
+  clear(): void {
+    this.undoStack = []
+    this.redoStack = []
+  }
+
+  private push(stack: Uint8Array[], bytes: Uint8Array): void {
+    stack.push(bytes)
+    let total = stack.reduce((sum, b) => sum + b.length, 0)
+    while (stack.length > 1 && (stack.length > this.depth || total > this.maxBytes)) {
+      total -= stack.shift()!.length
+    }
+  }
+}
+
+interface TimelineEntry {
+  generation: number
+  bytes: Uint8Array
+}
+
+export class GenerationTimeline {
+  // ascending generations; the oldest go first once either bound is exceeded
+  private entries: TimelineEntry[] = []
+  private maxLength: number
+  private maxBytes: number
+  private totalBytes = 0
+  readonly interval: number
+
+  constructor(
+    interval: number = DEFAULT_TIMELINE_INTERVAL,
+    maxLength: number = DEFAULT_TIMELINE_LENGTH,
+    maxBytes: number = DEFAULT_TIMELINE_BYTES
+  ) {
+    this.interval = Math.max(1, Math.floor(interval))
+    this.maxLength = Math.max(1, Math.floor(maxLength))
+    this.maxBytes = maxBytes
+  }
+
+  // whether the tick starting at `generation` is recorded; step() checks before reading back
+  due(generation: number): boolean {
+    return generation % this.interval === 0
+  }
+
+  get size(): number {
+    return this.entries.length
+  }
+
+  get bytes(): number {
+    return this.totalBytes
+  }
+
+  // recorded generations, oldest first
+  generations(): number[] {
+    return this.entries.map((e) => e.generation)
+  }
+
+  has(generation: number): boolean {
+    return this.entries.some((e) => e.generation === generation)
+  }
+
+  // a state at or before a recorded generation starts a new branch: the later entries (another
+  // future, or a run before reset/randomize) are dropped
+  async record(state: SnapshotState): Promise<void> {
+    const bytes = await encode(state)
+    while (this.entries.length > 0 && this.entries[this.entries.length - 1].generation >= state.generation) {
+      this.totalBytes -= this.entries.pop()!.bytes.length
+    }
+    this.entries.push({ generation: state.generation, bytes })
+    this.totalBytes += bytes.length
+    while (this.entries.length > 1 && (this.entries.length > this.maxLength || this.totalBytes > this.maxBytes)) {
+      this.totalBytes -= this.entries.shift()!.bytes.length
+    }
+  }
+
+  async get(generation: number): Promise<SnapshotState | null> {
+    const entry = this.entries.find((e) => e.generation === generation)
+    return entry ? decodeSnapshot(entry.bytes) : null
+  }
+
+  clear(): void {
+    this.entries = []
+    this.totalBytes = 0
+  }
+}
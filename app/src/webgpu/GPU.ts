@@ -1,9 +1,30 @@
 /// <reference types="@webgpu/types" />
 import { createPipelines } from './pipelines'
-import { createBuffers, type CoreBuffers, type UniformBuffers } from './buffers'
+import { createBuffers, destroyBuffers, type CoreBuffers, type UniformBuffers } from './buffers'
 import { createBindGroups, type BindGroups } from './bindGroups'
-import { writeUniforms } from './uniforms'
-import type { Stats, Pipelines } from './types'
+import { writeUniforms, writeStatsUniforms, writePolicyUniforms, writeLineageUniforms, writeGenomeUniforms, writeSpeciesUniforms, type SimUniformParams } from './uniforms'
+import { parseRule, formatRule, DEFAULT_RULE, type LifeRule } from '../rules'
+import { BOUNDARY_CODES, OUTSIDE, resolveCell, type BoundaryMode } from '../boundary'
+import { NEIGHBORHOOD_CODES, effectiveKBits, neighborhoodSize, type Neighborhood } from '../neighborhood'
+import { DEFAULT_PHYSICS, applyParams, type PhysicsParams } from '../params'
+import { FLOAT_FIELDS, EMPTY_POPULATION_STATS, type Stats, type PopulationStats, type Pipelines, type FieldName, type FieldData } from './types'
+import { STATS_TOTALS_BYTES, SPECIES_TOTALS_BYTES, STATS_READ_BYTES, decodeTotals, statsWorkgroups } from './stats'
+import { Renderer, type RenderSources } from './render'
+import { MAX_SEED, isValidSeed, mulberry32 } from '../random'
+import { OBSERVATION_FIELDS, type MessagingPolicy, type MovementPolicy, type Observation } from '../policy/types'
+import { checkActions } from '../policy/movement'
+import { checkPayloads } from '../policy/messaging'
+import { POLICY_ACTIVATION_CODES, policyLayerSizes, validatePolicyNet, type PolicyNet } from '../policy/mlp'
+import { SNAPSHOT_FIELDS, type SnapshotState } from '../snapshot'
+import { FIRST_AGENT_ID, LineageLog, assignFounderIds } from '../lineage'
+import { DEFAULT_TIMELINE_INTERVAL, GenerationTimeline } from '../timeline'
+import { assignFounderGenomes, founderGenome } from '../genome'
+import { DEFAULT_DISPLAY, type DisplaySettings } from '../layers'
+import { stampBrush, writeRegion, type Brush } from '../sources'
+import { DEFAULT_SPECIES, assignSpecies, founderEnergy, founderSpecies, speciesPalette, speciesUniforms, validateSpecies, type SpeciesConfig } from '../species'
+
+// runStep's way out when resize() swapped the buffers across one of its awaits
+class StaleTickError extends Error {}
 
 export class GPU {
     private device: GPUDevice;
@@ -26,25 +47,60 @@ export class GPU {
     private generation: number = 0;
     private isRunning: boolean = false;
     private animationId: number | null = null;
+    private animationLoop = 0; // bumped by start(); an older loop still awaiting a tick exits
     private lastUpdateTime: number = 0;
     private speed: number = 200; // ms/tick
 
-    // debug/default uniforms
-    private msg_k_bits: number = 2;
-    private msg_cost_milli: number = 50;
-    private msg_mode_stage1: number = 1; // debug hash
-    private msg_mode_stage3: number = 1; // debug hash
+    // LCR physics uniforms (params.ts), validated by setParams
+    private params: PhysicsParams = { ...DEFAULT_PHYSICS };
 
-    private move_cost_milli: number = 10;
-    private move_mode: number = 0; // 0=random debug, 1=ppo
+    // run seed (random.ts): drives randomize and salts the kernel hashes
+    private seed = 0;
 
-    private energy_leak_milli: number = 20;
-    private energy_diff_milli: number = 300;
-    private energy_decay_milli: number = 20;
+    // TypeScript policies (policy/): movement while move_mode is 1, messaging for the stages
+    // whose msg_mode is 2 (learned)
+    private movementPolicy: MovementPolicy | null = null;
+    private messagingPolicy: MessagingPolicy | null = null;
+
+    // MLP evaluated by policy.wgsl (policy/mlp.ts); while loaded it replaces the TypeScript
+    // policies for every learned head, with no readback. host copy for re-upload after resize
+    private policyNet: PolicyNet | null = null;
+
+    // lineage log (lineage.ts), fed from per-tick readbacks while tracking is on
+    private lineage: LineageLog | null = null;
+
+    // recent generations (timeline.ts), a full readback at the start of every interval-th tick while on
+    private timeline: GenerationTimeline | null = null;
 
     // mode: 'LCR' (full multi-pass) or 'Conway' (classic Life only)
     private mode: 'LCR' | 'Conway' = 'LCR';
 
+    // outer-totalistic rule used by the Life pass in both modes
+    private rule: LifeRule = parseRule(DEFAULT_RULE);
+
+    // species (species.ts): per-species rules, costs and colors; count 1 = off
+    private species: SpeciesConfig = DEFAULT_SPECIES;
+
+    // how neighborhoods behave at the grid edge (all passes)
+    private boundary: BoundaryMode = 'torus';
+
+    // cells counted by Life and addressed by messages, scent and movement
+    private neighborhood: Neighborhood = 'moore';
+
+    // reduced by stats.wgsl at the end of every tick; only the small totals struct is read back
+    private population: PopulationStats = { ...EMPTY_POPULATION_STATS };
+    private statsReadInFlight = false;
+
+    // the tick step() is running, if any
+    private stepInFlight: Promise<void> | null = null;
+
+    // host copy of sourceMapBuffer so brush strokes upload only the rows they touch
+    private sourceMap!: Float32Array;
+
+    // draws aliveIn into an attached canvas; null until attachCanvas
+    private renderer: Renderer | null = null;
+    private display: DisplaySettings = DEFAULT_DISPLAY;
+
     private onUpdate: (stats: Stats) => void;
 
     constructor(
@@ -68,28 +124,297 @@ export class GPU {
         }
     }
 
+    // accepts B/S notation or pre-parsed masks; throws on invalid notation
+    setRule(rule: string | LifeRule): void {
+        this.rule = typeof rule === 'string' ? parseRule(rule) : { ...rule };
+        console.log('Rule set', { rule: formatRule(this.rule) });
+        this.notifyUpdate();
+    }
+
+    getRule(): string {
+        return formatRule(this.rule);
+    }
+
+    // validated (throws); agents keep their species index, takes effect on the next tick
+    setSpecies(config: SpeciesConfig): void {
+        this.species = validateSpecies(config);
+        console.log('Species set', { count: this.species.count });
+        this.notifyUpdate();
+    }
+
+    getSpecies(): SpeciesConfig {
+        return validateSpecies(this.species);
+    }
+
+    setBoundary(boundary: BoundaryMode): void {
+        if (this.boundary !== boundary){
+            this.boundary = boundary;
+            console.log('Boundary set', { boundary });
+            this.notifyUpdate();
+        }
+    }
+
+    getBoundary(): BoundaryMode {
+        return this.boundary;
+    }
+
+    setNeighborhood(neighborhood: Neighborhood): void {
+        if (this.neighborhood !== neighborhood){
+            this.neighborhood = neighborhood;
+            console.log('Neighborhood set', { neighborhood });
+            this.notifyUpdate();
+        }
+    }
+
+    getNeighborhood(): Neighborhood {
+        return this.neighborhood;
+    }
+
+    // partial update, validated as a whole (params.ts); throws and keeps the old values on error.
+    // takes effect on the next tick
+    setParams(partial: Partial<PhysicsParams>): void {
+        this.params = applyParams(this.params, partial);
+        console.log('Params set', partial);
+        this.notifyUpdate();
+    }
+
+    getParams(): PhysicsParams {
+        return { ...this.params };
+    }
+
+    // takes effect from the next tick; randomize() afterwards replays the seed's initial state
+    setSeed(seed: number): void {
+        if (!isValidSeed(seed)){
+            throw new Error(`Seed must be an integer in 0..${MAX_SEED}, got ${seed}`);
+        }
+        this.seed = seed;
+        console.log('Seed set', { seed });
+        this.notifyUpdate();
+    }
+
+    getSeed(): number {
+        return this.seed;
+    }
+
+    // null leaves ppo_actions as last written (writeField), for actions computed elsewhere
+    setMovementPolicy(policy: MovementPolicy | null): void {
+        this.movementPolicy = policy;
+        console.log('Movement policy set', { policy: policy?.name ?? null });
+    }
+
+    getMovementPolicy(): MovementPolicy | null {
+        return this.movementPolicy;
+    }
+
+    // null leaves learned_msg_stage1/3 as last written (writeField)
+    setMessagingPolicy(policy: MessagingPolicy | null): void {
+        this.messagingPolicy = policy;
+        console.log('Messaging policy set', { policy: policy?.name ?? null });
+    }
+
+    getMessagingPolicy(): MessagingPolicy | null {
+        return this.messagingPolicy;
+    }
+
+    // validated (throws) and uploaded; takes effect from the next tick, no shader recompile
+    loadPolicyWeights(net: PolicyNet): void {
+        validatePolicyNet(net);
+        this.policyNet = { layout: { ...net.layout, hidden: [...net.layout.hidden] }, weights: net.weights.slice() };
+        this.uploadPolicyWeights();
+        console.log('Policy weights loaded', { hidden: net.layout.hidden, activation: net.layout.activation, params: net.weights.length });
+    }
+
+    clearPolicyWeights(): void {
+        this.policyNet = null;
+        console.log('Policy weights cleared');
+    }
+
+    getPolicyNet(): PolicyNet | null {
+        return this.policyNet;
+    }
+
+    private uploadPolicyWeights(): void {
+        if (!this.policyNet) return;
+        this.device.queue.writeBuffer(this.buffers.policyWeightsBuffer, 0, this.policyNet.weights);
+    }
+
+    // agent ids always run on the GPU; tracking only adds the per-tick readback for the log.
+    // turning it on starts a fresh log with the current agents as founders
+    async setLineageTracking(enabled: boolean): Promise<void> {
+        this.lineage = enabled ? new LineageLog(this.generation, (await this.readField('agent_id')) as Uint32Array) : null;
+        console.log('Lineage tracking set', { enabled });
+    }
+
+    getLineage(): LineageLog | null {
+        return this.lineage;
+    }
+
+    // every `interval`-th tick; turning recording off (or changing the interval) drops what was recorded
+    setTimelineRecording(enabled: boolean, interval: number = DEFAULT_TIMELINE_INTERVAL): void {
+        if (enabled === (this.timeline !== null) && (!this.timeline || this.timeline.interval === interval)) return;
+        this.timeline = enabled ? new GenerationTimeline(interval) : null;
+        console.log('Timeline recording set', { enabled, interval });
+    }
+
+    getTimeline(): GenerationTimeline | null {
+        return this.timeline;
+    }
+
+    // ids after the tick against ids after movement and the birth parents
+    private async recordLineage(log: LineageLog): Promise<void> {
+        const [idMid, id, birthParents] = await Promise.all([
+            this.readField('agent_id_mid'), this.readField('agent_id'), this.readField('birth_parents'),
+        ]);
+        log.recordTick({
+            generation: this.generation + 1,
+            width: this.width,
+            height: this.height,
+            boundary: this.boundary,
+            neighborhood: this.neighborhood,
+            idMid: idMid as Uint32Array,
+            id: id as Uint32Array,
+            birthParents: birthParents as Uint32Array,
+        });
+    }
+
+    private async readAgentIdCounter(): Promise<number> {
+        const staging = this.device.createBuffer({ size: 4, usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST });
+        const encoder = this.device.createCommandEncoder();
+        encoder.copyBufferToBuffer(this.buffers.agentIdCounterBuffer, 0, staging, 0, 4);
+        this.device.queue.submit([encoder.finish()]);
+        try {
+            await staging.mapAsync(GPUMapMode.READ, 0, 4);
+            return new Uint32Array(staging.getMappedRange(0, 4).slice(0))[0];
+        } finally {
+            staging.destroy();
+        }
+    }
+
+    // observation of the buffers as the passes submitted so far left them
+    private async observe(): Promise<Observation> {
+        const [alive, energy, age, inbox0, inbox1, energyScent, lastPos] = await Promise.all(
+            OBSERVATION_FIELDS.map((field) => this.readField(field))
+        );
+        return {
+            width: this.width,
+            height: this.height,
+            generation: this.generation,
+            seed: this.seed,
+            boundary: this.boundary,
+            neighborhood: this.neighborhood,
+            neighbors: neighborhoodSize(NEIGHBORHOOD_CODES[this.neighborhood]),
+            kBits: effectiveKBits(this.params.msg_k_bits, NEIGHBORHOOD_CODES[this.neighborhood]),
+            alive: alive as Uint32Array,
+            energy: energy as Float32Array,
+            age: age as Uint32Array,
+            inbox0: inbox0 as Uint32Array,
+            inbox1: inbox1 as Uint32Array,
+            energyScent: energyScent as Uint32Array,
+            lastPos: lastPos as Uint32Array,
+        };
+    }
+
+    private async runMovementPolicy(policy: MovementPolicy): Promise<void> {
+        const obs = await this.observe();
+        const actions = await policy.act(obs);
+        checkActions(actions, obs, policy.name);
+        this.device.queue.writeBuffer(this.buffers.ppoActionsBuffer, 0, actions);
+    }
+
+    private async runMessagingPolicy(policy: MessagingPolicy, stage: 1 | 3): Promise<void> {
+        const obs = await this.observe();
+        const payloads = await (stage === 1 ? policy.broadcast : policy.reply)!.call(policy, obs);
+        checkPayloads(payloads, obs, policy.name);
+        const buffer = stage === 1 ? this.buffers.learnedMsgStage1Buffer : this.buffers.learnedMsgStage3Buffer;
+        this.device.queue.writeBuffer(buffer, 0, payloads);
+    }
+
     async init(): Promise<void> {
         this.pipelines = createPipelines(this.device);
         this.buffers = createBuffers(this.device, this.width, this.height);
         this.bindGroups = createBindGroups(this.device, this.pipelines, this.buffers);
+        // the attached canvas samples the new buffers from the next frame on
+        this.renderer?.bind(this.renderSources());
+        this.sourceMap = new Float32Array(this.width * this.height);
         this.updateUniforms();
         console.log('GPU sim initialized', { width: this.width, height: this.height });
     }
 
     private updateUniforms(): void {
-        writeUniforms(this.device, this.buffers, {
+        const U: SimUniformParams = {
             width: this.width,
             height: this.height,
             generation: this.generation,
-            msg_k_bits: this.msg_k_bits,
-            msg_cost_milli: this.msg_cost_milli,
-            msg_mode_stage1: this.msg_mode_stage1,
-            msg_mode_stage3: this.msg_mode_stage3,
-            move_cost_milli: this.move_cost_milli,
-            move_mode: this.move_mode,
-            energy_leak_milli: this.energy_leak_milli,
-            energy_diff_milli: this.energy_diff_milli,
-            energy_decay_milli: this.energy_decay_milli,
+            seed: this.seed,
+            ...this.params,
+            ...speciesUniforms(this.species, this.rule, this.params),
+            life_states: this.rule.states,
+            boundary: BOUNDARY_CODES[this.boundary],
+            neighborhood: NEIGHBORHOOD_CODES[this.neighborhood],
+        };
+        writeUniforms(this.device, this.buffers, U);
+        writeGenomeUniforms(this.device, this.buffers.genomeUniformBuffer, U);
+        writeSpeciesUniforms(this.device, this.buffers.speciesUniformBuffer, U);
+        writeLineageUniforms(this.device, this.buffers.lineageUniformBuffer, {
+            width: this.width,
+            height: this.height,
+            boundary: BOUNDARY_CODES[this.boundary],
+            neighborhood: NEIGHBORHOOD_CODES[this.neighborhood],
+            groups: statsWorkgroups(this.width * this.height),
+        });
+        if (this.policyNet){
+            writePolicyUniforms(this.device, this.buffers.policyUniformBuffer, {
+                width: this.width,
+                height: this.height,
+                boundary: BOUNDARY_CODES[this.boundary],
+                neighborhood: NEIGHBORHOOD_CODES[this.neighborhood],
+                kBits: effectiveKBits(this.params.msg_k_bits, NEIGHBORHOOD_CODES[this.neighborhood]),
+                activation: POLICY_ACTIVATION_CODES[this.policyNet.layout.activation],
+                sizes: policyLayerSizes(this.policyNet.layout),
+            });
+        }
+    }
+
+    // display: render straight from the current state buffer, no readback
+    attachCanvas(canvas: HTMLCanvasElement): void {
+        this.renderer?.destroy();
+        this.renderer = new Renderer(this.device, canvas);
+        console.log('Canvas attached');
+    }
+
+    // which field layers are drawn over the cells, and how (layers.ts)
+    setDisplay(display: DisplaySettings): void {
+        this.display = display;
+    }
+
+    getDisplay(): DisplaySettings {
+        return this.display;
+    }
+
+    // the buffers render.wgsl samples, as the last swap left them
+    private renderSources(): RenderSources {
+        const b = this.buffers;
+        return {
+            alive: b.aliveInBuffer,
+            energy: b.energySrcBuffer,
+            deadEnergy: b.deadEnergyBuffer,
+            age: b.ageInBuffer,
+            msgOut: b.msgOutBuffer,
+            inbox0: b.inbox0Buffer,
+            energyScent: b.energyScentBuffer,
+            sourceMap: b.sourceMapBuffer,
+            species: b.speciesBuffer,
+        };
+    }
+
+    render(cellSize: number): void {
+        this.renderer?.draw(this.renderSources(), {
+            width: this.width,
+            height: this.height,
+            cellSize,
+            states: this.rule.states,
+            display: this.display,
+            speciesColors: speciesPalette(this.species),
         });
     }
 
@@ -136,15 +461,147 @@ export class GPU {
         return this.gridReadInFlight;
     }
 
-    private wrapCoordinate(n: number, max: number): number {
-        const r = n % max;
-        return r < 0 ? r + max : r;
+    // current (read side) buffer holding a named field
+    private fieldBuffer(field: FieldName): GPUBuffer {
+        const b = this.buffers;
+        switch (field) {
+            case 'alive': return b.aliveInBuffer;
+            case 'energy': return b.energySrcBuffer;
+            case 'dead_energy': return b.deadEnergyBuffer;
+            case 'age': return b.ageInBuffer;
+            case 'msg_out': return b.msgOutBuffer;
+            case 'inbox0': return b.inbox0Buffer;
+            case 'inbox1': return b.inbox1Buffer;
+            case 'energy_scent': return b.energyScentBuffer;
+            case 'last_pos': return b.lastPosBuffer;
+            case 'activity': return b.activityBuffer;
+            case 'msg_last': return b.msgLastBuffer;
+            case 'source_map': return b.sourceMapBuffer;
+            case 'learned_msg_stage1': return b.learnedMsgStage1Buffer;
+            case 'learned_msg_stage3': return b.learnedMsgStage3Buffer;
+            case 'ppo_actions': return b.ppoActionsBuffer;
+            case 'agent_id': return b.agentIdBuffer;
+            case 'agent_id_mid': return b.agentIdMidBuffer;
+            case 'birth_parents': return b.birthParentsBuffer;
+            case 'genome_move': return b.genomeMoveBuffer;
+            case 'genome_msg': return b.genomeMsgBuffer;
+            case 'genome_move_mid': return b.genomeMoveMidBuffer;
+            case 'genome_msg_mid': return b.genomeMsgMidBuffer;
+            case 'species': return b.speciesBuffer;
+            case 'species_mid': return b.speciesMidBuffer;
+        }
+    }
+
+    writeField(field: FieldName, data: FieldData): void {
+        if (data.length !== this.width * this.height){
+            throw new Error(`Data length mismatch for field ${field} on grid ${this.width}x${this.height}`);
+        }
+        this.device.queue.writeBuffer(this.fieldBuffer(field), 0, data.buffer as ArrayBuffer, data.byteOffset, data.byteLength);
+        if (field === 'source_map'){
+            // keep the brush mirror in step (raw bits, like the buffer write)
+            new Uint8Array(this.sourceMap.buffer).set(new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+        }
     }
 
+    async readField(field: FieldName): Promise<FieldData> {
+        const src = this.fieldBuffer(field);
+        const copyBytes = this.width * this.height * 4;
+        // dedicated staging buffer so field reads never contend with getGridData
+        const staging = this.device.createBuffer({ size: copyBytes, usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST });
+        const encoder = this.device.createCommandEncoder();
+        encoder.copyBufferToBuffer(src, 0, staging, 0, copyBytes);
+        this.device.queue.submit([encoder.finish()]);
+        try {
+            await staging.mapAsync(GPUMapMode.READ, 0, copyBytes);
+            const bytes = staging.getMappedRange(0, copyBytes).slice(0);
+            staging.unmap();
+            return FLOAT_FIELDS.has(field) ? new Float32Array(bytes) : new Uint32Array(bytes);
+        } finally {
+            staging.destroy();
+        }
+    }
+
+    // full state for snapshot.ts: settings plus every field buffer
+    async exportSnapshot(): Promise<SnapshotState> {
+        const fields = new Map<FieldName, FieldData>();
+        for (const field of SNAPSHOT_FIELDS){
+            fields.set(field, await this.readField(field));
+        }
+        return {
+            width: this.width,
+            height: this.height,
+            generation: this.generation,
+            mode: this.mode,
+            rule: formatRule(this.rule),
+            boundary: this.boundary,
+            neighborhood: this.neighborhood,
+            params: { ...this.params },
+            seed: this.seed,
+            nextAgentId: await this.readAgentIdCounter(),
+            species: validateSpecies(this.species),
+            fields,
+        };
+    }
+
+    // restores a snapshot taken on a grid of the same size; stops the run
+    async importSnapshot(state: SnapshotState): Promise<void> {
+        if (state.width !== this.width || state.height !== this.height){
+            throw new Error(`Snapshot grid ${state.width}x${state.height} does not match ${this.width}x${this.height}`);
+        }
+        this.stop();
+        this.mode = state.mode;
+        this.rule = parseRule(state.rule);
+        this.boundary = state.boundary;
+        this.neighborhood = state.neighborhood;
+        this.params = { ...state.params };
+        this.seed = state.seed;
+        this.species = validateSpecies(state.species);
+        this.generation = state.generation;
+        for (const [field, data] of state.fields){
+            this.writeField(field, data);
+        }
+        this.device.queue.writeBuffer(this.buffers.agentIdCounterBuffer, 0, new Uint32Array([state.nextAgentId]));
+        const ids = state.fields.get('agent_id');
+        if (this.lineage) this.lineage = new LineageLog(this.generation, ids instanceof Uint32Array ? ids : new Uint32Array(0));
+        this.updateUniforms();
+        console.log('Snapshot restored', { generation: this.generation });
+        await this.refreshStats();
+    }
+
+    // energy source map (sources.ts); kept across reset/randomize like the GPU buffer
+    setSourceMap(data: Float32Array): void {
+        if (data.length !== this.width * this.height){
+            throw new Error(`Data length mismatch for source map on grid ${this.width}x${this.height}`);
+        }
+        this.sourceMap.set(data);
+        this.uploadSourceRows(0, this.height - 1);
+    }
+
+    getSourceMap(): Float32Array {
+        return this.sourceMap.slice();
+    }
+
+    setSourceRegion(col: number, row: number, w: number, h: number, values: ArrayLike<number>): void {
+        writeRegion(this.sourceMap, this.width, this.height, col, row, w, h, values);
+        this.uploadSourceRows(Math.max(0, row), Math.min(this.height, row + h) - 1);
+    }
+
+    paintSource(col: number, row: number, brush: Brush): void {
+        const rows = stampBrush(this.sourceMap, this.width, this.height, BOUNDARY_CODES[this.boundary], col, row, brush);
+        if (rows) this.uploadSourceRows(rows[0], rows[1]);
+    }
+
+    private uploadSourceRows(first: number, last: number): void {
+        if (last < first) return;
+        const start = first * this.width;
+        const count = (last - first + 1) * this.width;
+        this.device.queue.writeBuffer(this.buffers.sourceMapBuffer, start * 4, this.sourceMap, start, count);
+    }
+
+    // byte offset of a cell under the boundary mode, or OUTSIDE beyond a dead border
     private cellOffset(col: number, row: number): number {
-        const wrappedCol = this.wrapCoordinate(col, this.width);
-        const wrappedRow = this.wrapCoordinate(row, this.height);
-        return (wrappedRow * this.width + wrappedCol) * 4;
+        const i = resolveCell(col, row, this.width, this.height, BOUNDARY_CODES[this.boundary]);
+        return i === OUTSIDE ? OUTSIDE : i * 4;
     }
 
     async getCell(col: number, row: number): Promise<number> {
@@ -154,13 +611,9 @@ export class GPU {
         const aliveInBuffer = this.buffers.aliveInBuffer;
         const singleCellReadBuffer = this.buffers.singleCellReadBuffer;
 
-        const wrapCoordinate = (n: number, max: number) => {
-            const r = n % max;
-            return r < 0 ? r + max : r;
-        };
-        const wrappedCol = wrapCoordinate(col, widthSnapshot);
-        const wrappedRow = wrapCoordinate(row, heightSnapshot);
-        const offset = (wrappedRow * widthSnapshot + wrappedCol) * 4;
+        const cell = resolveCell(col, row, widthSnapshot, heightSnapshot, BOUNDARY_CODES[this.boundary]);
+        if (cell === OUTSIDE) return 0;
+        const offset = cell * 4;
 
         const encoder = this.device.createCommandEncoder();
         encoder.copyBufferToBuffer(aliveInBuffer, offset, singleCellReadBuffer, 0, 4);
@@ -176,38 +629,46 @@ export class GPU {
         return value;
     }
 
-    setCell(col: number, row: number, state: 0 | 1): void {
+    // state: 0 dead, 1 alive, 2..states-1 refractory (Generations rules); clamped to the rule.
+    // species (species.ts) applies to a live cell only
+    setCell(col: number, row: number, state: number, species: number = 0): void {
         const offset = this.cellOffset(col, row);
-        const one = new Uint32Array([state]);
+        if (offset === OUTSIDE) return;
+        const one = new Uint32Array([Math.min(Math.max(0, Math.floor(state)), this.rule.states - 1)]);
         this.device.queue.writeBuffer(this.buffers.aliveInBuffer, offset, one);
-        if (state === 1) {
-            const f = new Float32Array([1.0]);
-            this.device.queue.writeBuffer(this.buffers.energySrcBuffer, offset, f);
-        } else {
-            const z = new Float32Array([0.0]);
-            this.device.queue.writeBuffer(this.buffers.energySrcBuffer, offset, z);
-        }
+        // a drawn cell is a new founder: it gets an id on the next tick, and a founder genome now
+        this.device.queue.writeBuffer(this.buffers.agentIdBuffer, offset, new Uint32Array([0]));
+        const i = offset / 4;
+        const [move, msg] = one[0] === 1 ? founderGenome(i % this.width, Math.floor(i / this.width), this.generation, this.seed) : [0, 0];
+        this.device.queue.writeBuffer(this.buffers.genomeMoveBuffer, offset, new Uint32Array([move]));
+        this.device.queue.writeBuffer(this.buffers.genomeMsgBuffer, offset, new Uint32Array([msg]));
+        // species and starting energy as a founder of that species gets them in randomize
+        const s = one[0] === 1 ? founderSpecies(this.species, species) : 0;
+        this.device.queue.writeBuffer(this.buffers.speciesBuffer, offset, new Uint32Array([s]));
+        const e = new Float32Array([one[0] === 1 ? founderEnergy(this.species, s) : 0.0]);
+        this.device.queue.writeBuffer(this.buffers.energySrcBuffer, offset, e);
     }
 
     async toggleCell(col: number, row: number): Promise<void> {
         const current = await this.getCell(col, row);
         const next = current === 1 ? 0 : 1;
-        this.setCell(col, row, next as 0 | 1);
+        this.setCell(col, row, next);
         console.log('Cell toggled', { col, row, next });
         this.notifyUpdate();
+        void this.refreshStats();
     }
 
-    placePattern(cells: number[][], startCol: number, startRow: number): boolean {
+    placePattern(cells: number[][], startCol: number, startRow: number, species: number = 0): boolean {
         if (!cells || cells.length === 0) return false;
         let placed = false;
         let placedCount = 0;
         for (let r = 0; r < cells.length; r++){
             const rowArr = cells[r];
             for (let c = 0; c < rowArr.length; c++){
-                if (rowArr[c] === 1){
+                if (rowArr[c] !== 0){
                     const col = startCol + c;
                     const row = startRow + r;
-                    this.setCell(col, row, 1);
+                    this.setCell(col, row, rowArr[c], species);
                     placed = true;
                     placedCount++;
                 }
@@ -216,27 +677,70 @@ export class GPU {
         if (placed) {
             console.log('Pattern placed', { startCol, startRow, placedCount });
             this.notifyUpdate();
+            void this.refreshStats();
         }
         return placed;
     }
 
-    // simulation step
-    async step(): Promise<void> {
+    // simulation step. TypeScript policies and readbacks await mid-tick, so a call while a tick
+    // is still running gets that tick back instead of starting a second one on the same buffers
+    step(): Promise<void> {
+        if (!this.stepInFlight){
+            this.stepInFlight = this.runStep().finally(() => {
+                this.stepInFlight = null;
+            });
+        }
+        return this.stepInFlight;
+    }
+
+    private async runStep(): Promise<void> {
+        // checked after every await: once resize() replaced the buffers this tick started on,
+        // the rest of it would mix old and new ones
+        const buffers = this.buffers;
+        const checkBuffers = () => {
+            if (this.buffers !== buffers) throw new StaleTickError();
+        };
+        let errorScope = false;
         try {
+            if (this.timeline?.due(this.generation)) await this.timeline.record(await this.exportSnapshot());
+            checkBuffers();
             this.updateUniforms();
+            writeStatsUniforms(this.device, this.buffers.statsUniformBuffer, this.width * this.height, this.mode === 'LCR', statsWorkgroups(this.width * this.height));
 
             // begin validation error scope (best-effort; optional in some impls)
             try {
                 // eslint-disable-next-line @typescript-eslint/no-explicit-any
                 (this.device as any).pushErrorScope?.('validation');
+                errorScope = true;
             } catch (_) { /* noop */ }
 
-            const commandEncoder = this.device.createCommandEncoder();
+            let commandEncoder = this.device.createCommandEncoder();
             const workgroupsX = Math.ceil(this.width / 16);
             const workgroupsY = Math.ceil(this.height / 16);
 
             if (this.mode === 'LCR'){
-                const pass = commandEncoder.beginComputePass();
+                let pass = commandEncoder.beginComputePass();
+                // TypeScript policies run on read-back state between passes: end the submission
+                // so far, run the policy (which uploads its output), continue in a new one
+                const runBetweenPasses = async (run: () => Promise<void>) => {
+                    pass.end();
+                    this.device.queue.submit([commandEncoder.finish()]);
+                    await run();
+                    checkBuffers();
+                    commandEncoder = this.device.createCommandEncoder();
+                    pass = commandEncoder.beginComputePass();
+                };
+                const net = this.policyNet;
+                const messaging = this.messagingPolicy;
+
+                if (net && this.params.msg_mode_stage1 === 2){
+                    console.log('dispatch policy-msg1', { gen: this.generation });
+                    pass.setPipeline(this.pipelines.policyMsg1Pipeline);
+                    pass.setBindGroup(0, this.bindGroups.bgPolicyMsg1);
+                    pass.dispatchWorkgroups(workgroupsX, workgroupsY);
+                } else if (messaging?.broadcast && this.params.msg_mode_stage1 === 2){
+                    await runBetweenPasses(() => this.runMessagingPolicy(messaging, 1));
+                }
 
                 console.log('dispatch msg-stage1', { gen: this.generation });
                 pass.setPipeline(this.pipelines.msgStage1Pipeline);
@@ -248,6 +752,16 @@ export class GPU {
                 pass.setBindGroup(0, this.bindGroups.bgMsg2);
                 pass.dispatchWorkgroups(workgroupsX, workgroupsY);
 
+                // replies may condition on the inbox0 stage 2 just gathered
+                if (net && this.params.msg_mode_stage3 === 2){
+                    console.log('dispatch policy-msg3', { gen: this.generation });
+                    pass.setPipeline(this.pipelines.policyMsg3Pipeline);
+                    pass.setBindGroup(0, this.bindGroups.bgPolicyMsg3);
+                    pass.dispatchWorkgroups(workgroupsX, workgroupsY);
+                } else if (messaging?.reply && this.params.msg_mode_stage3 === 2){
+                    await runBetweenPasses(() => this.runMessagingPolicy(messaging, 3));
+                }
+
                 console.log('dispatch msg-stage3a', { gen: this.generation });
                 pass.setPipeline(this.pipelines.msgStage3aPipeline);
                 pass.setBindGroup(0, this.bindGroups.bgMsg3a);
@@ -258,6 +772,16 @@ export class GPU {
                 pass.setBindGroup(0, this.bindGroups.bgMsg3b);
                 pass.dispatchWorkgroups(workgroupsX, workgroupsY);
 
+                const movement = this.movementPolicy;
+                if (net && this.params.move_mode === 1){
+                    console.log('dispatch policy-move', { gen: this.generation });
+                    pass.setPipeline(this.pipelines.policyMovePipeline);
+                    pass.setBindGroup(0, this.bindGroups.bgPolicyMove);
+                    pass.dispatchWorkgroups(workgroupsX, workgroupsY);
+                } else if (movement && this.params.move_mode === 1){
+                    await runBetweenPasses(() => this.runMovementPolicy(movement));
+                }
+
                 console.log('dispatch move-clear', { gen: this.generation });
                 pass.setPipeline(this.pipelines.moveClearPipeline);
                 pass.setBindGroup(0, this.bindGroups.bgMoveClear);
@@ -273,6 +797,26 @@ export class GPU {
                 pass.setBindGroup(0, this.bindGroups.bgMoveApply);
                 pass.dispatchWorkgroups(workgroupsX, workgroupsY);
 
+                console.log('dispatch move-vacate', { gen: this.generation });
+                pass.setPipeline(this.pipelines.moveVacatePipeline);
+                pass.setBindGroup(0, this.bindGroups.bgMoveVacate);
+                pass.dispatchWorkgroups(workgroupsX, workgroupsY);
+
+                console.log('dispatch species-move', { gen: this.generation });
+                pass.setPipeline(this.pipelines.speciesMovePipeline);
+                pass.setBindGroup(0, this.bindGroups.bgSpeciesMove);
+                pass.dispatchWorkgroups(workgroupsX, workgroupsY);
+
+                console.log('dispatch lineage-move', { gen: this.generation });
+                pass.setPipeline(this.pipelines.lineageMovePipeline);
+                pass.setBindGroup(0, this.bindGroups.bgLineageMove);
+                pass.dispatchWorkgroups(workgroupsX, workgroupsY);
+
+                console.log('dispatch genome-move', { gen: this.generation });
+                pass.setPipeline(this.pipelines.genomeMovePipeline);
+                pass.setBindGroup(0, this.bindGroups.bgGenomeMove);
+                pass.dispatchWorkgroups(workgroupsX, workgroupsY);
+
                 console.log('dispatch energy-diffuse', { gen: this.generation });
                 pass.setPipeline(this.pipelines.energyDiffusePipeline);
                 pass.setBindGroup(0, this.bindGroups.bgEnergyDiffuse);
@@ -288,22 +832,49 @@ export class GPU {
                 pass.setBindGroup(0, this.bindGroups.bgEnergyPost);
                 pass.dispatchWorkgroups(workgroupsX, workgroupsY);
 
+                this.encodeLineage(pass);
+                this.encodeGenomeInherit(pass);
+                this.encodeStats(pass, this.bindGroups.bgStatsPartial, this.bindGroups.bgSpeciesPartial);
+
                 pass.end();
                 this.device.queue.submit([commandEncoder.finish()]);
             } else {
-                // Conway mode: copy aliveIn -> aliveMid, then run Life only
+                // Conway mode: copy aliveIn -> aliveMid (and the ids, genomes and species with it), then run Life only
                 const copyBytes = this.width * this.height * 4;
                 commandEncoder.copyBufferToBuffer(
                     this.buffers.aliveInBuffer, 0,
                     this.buffers.aliveMidBuffer, 0,
                     copyBytes
                 );
+                commandEncoder.copyBufferToBuffer(
+                    this.buffers.agentIdBuffer, 0,
+                    this.buffers.agentIdMidBuffer, 0,
+                    copyBytes
+                );
+                commandEncoder.copyBufferToBuffer(
+                    this.buffers.genomeMoveBuffer, 0,
+                    this.buffers.genomeMoveMidBuffer, 0,
+                    copyBytes
+                );
+                commandEncoder.copyBufferToBuffer(
+                    this.buffers.genomeMsgBuffer, 0,
+                    this.buffers.genomeMsgMidBuffer, 0,
+                    copyBytes
+                );
+                commandEncoder.copyBufferToBuffer(
+                    this.buffers.speciesBuffer, 0,
+                    this.buffers.speciesMidBuffer, 0,
+                    copyBytes
+                );
 
                 const pass = commandEncoder.beginComputePass();
                 console.log('dispatch life-step (Conway)', { gen: this.generation });
                 pass.setPipeline(this.pipelines.lifePipeline);
                 pass.setBindGroup(0, this.bindGroups.bgLife);
                 pass.dispatchWorkgroups(workgroupsX, workgroupsY);
+                this.encodeLineage(pass);
+                this.encodeGenomeInherit(pass);
+                this.encodeStats(pass, this.bindGroups.bgStatsPartial, this.bindGroups.bgSpeciesPartial);
                 pass.end();
                 this.device.queue.submit([commandEncoder.finish()]);
             }
@@ -316,10 +887,12 @@ export class GPU {
             } catch (e) {
                 console.error('Queue completion error', e);
             }
+            checkBuffers();
 
             // resolve validation scope if present
             try {
                 // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                errorScope = false;
                 const err = (this.device as any).popErrorScope ? await (this.device as any).popErrorScope() : null;
                 if (err) {
                     console.error('Validation error during step', err);
@@ -330,6 +903,12 @@ export class GPU {
                 // ignore scope pop issues
             }
 
+            checkBuffers();
+            await this.readStats();
+            checkBuffers();
+            if (this.lineage) await this.recordLineage(this.lineage);
+            checkBuffers();
+
             // swaps for next tick
             [this.buffers.aliveInBuffer, this.buffers.aliveNextBuffer] = [this.buffers.aliveNextBuffer, this.buffers.aliveInBuffer];
             if (this.mode === 'LCR'){
@@ -343,16 +922,101 @@ export class GPU {
             this.generation++;
             this.notifyUpdate();
         } catch (err) {
+            if (errorScope){
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                void (this.device as any).popErrorScope?.()?.catch(() => {});
+            }
+            if (err instanceof StaleTickError){
+                console.log('tick abandoned: grid resized mid-step', { gen: this.generation });
+                return;
+            }
             console.error('step failed', err);
         }
     }
 
+    // ids for this tick's births and founders, in row-major order (lineage.wgsl)
+    private encodeLineage(pass: GPUComputePassEncoder): void {
+        const groups = statsWorkgroups(this.width * this.height);
+        console.log('dispatch lineage', { gen: this.generation });
+        pass.setPipeline(this.pipelines.lineageCountPipeline);
+        pass.setBindGroup(0, this.bindGroups.bgLineageCount);
+        pass.dispatchWorkgroups(groups);
+        pass.setPipeline(this.pipelines.lineageScanPipeline);
+        pass.setBindGroup(0, this.bindGroups.bgLineageScan);
+        pass.dispatchWorkgroups(1);
+        pass.setPipeline(this.pipelines.lineageAssignPipeline);
+        pass.setBindGroup(0, this.bindGroups.bgLineageAssign);
+        pass.dispatchWorkgroups(groups);
+    }
+
+    // genomes of this tick's births (after lineage_count wrote birth_parents) and founders (genome.wgsl)
+    private encodeGenomeInherit(pass: GPUComputePassEncoder): void {
+        console.log('dispatch genome-inherit', { gen: this.generation });
+        pass.setPipeline(this.pipelines.genomeInheritPipeline);
+        pass.setBindGroup(0, this.bindGroups.bgGenomeInherit);
+        pass.dispatchWorkgroups(Math.ceil(this.width / 16), Math.ceil(this.height / 16));
+    }
+
+    // two-level reductions into statsTotalsBuffer and speciesTotalsBuffer (stats.wgsl)
+    private encodeStats(pass: GPUComputePassEncoder, cellsBindGroup: GPUBindGroup, speciesBindGroup: GPUBindGroup): void {
+        const groups = statsWorkgroups(this.width * this.height);
+        pass.setPipeline(this.pipelines.statsPartialPipeline);
+        pass.setBindGroup(0, cellsBindGroup);
+        pass.dispatchWorkgroups(groups);
+        pass.setPipeline(this.pipelines.statsFinalPipeline);
+        pass.setBindGroup(0, this.bindGroups.bgStatsFinal);
+        pass.dispatchWorkgroups(1);
+        pass.setPipeline(this.pipelines.speciesPartialPipeline);
+        pass.setBindGroup(0, speciesBindGroup);
+        pass.dispatchWorkgroups(groups);
+        pass.setPipeline(this.pipelines.speciesFinalPipeline);
+        pass.setBindGroup(0, this.bindGroups.bgSpeciesFinal);
+        pass.dispatchWorkgroups(1);
+    }
+
+    // copy the reduced totals into the mappable buffer and decode them; skipped while the
+    // previous readback is still mapping (the next tick catches up)
+    private async readStats(): Promise<void> {
+        if (this.statsReadInFlight) return;
+        this.statsReadInFlight = true;
+        const buffers = this.buffers;
+        const { statsTotalsBuffer, speciesTotalsBuffer, statsReadBuffer } = buffers;
+        try {
+            const encoder = this.device.createCommandEncoder();
+            encoder.copyBufferToBuffer(statsTotalsBuffer, 0, statsReadBuffer, 0, STATS_TOTALS_BYTES);
+            encoder.copyBufferToBuffer(speciesTotalsBuffer, 0, statsReadBuffer, STATS_TOTALS_BYTES, SPECIES_TOTALS_BYTES);
+            this.device.queue.submit([encoder.finish()]);
+            await statsReadBuffer.mapAsync(GPUMapMode.READ, 0, STATS_READ_BYTES);
+            const totals = decodeTotals(statsReadBuffer.getMappedRange(0, STATS_READ_BYTES).slice(0));
+            statsReadBuffer.unmap();
+            // drop results for a grid that was resized meanwhile
+            if (this.buffers === buffers) this.population = totals;
+        } catch (err) {
+            console.error('Stats readback failed', err);
+        } finally {
+            this.statsReadInFlight = false;
+        }
+    }
+
+    // recompute stats for the current state without stepping (after edits); births/deaths read 0
+    async refreshStats(): Promise<void> {
+        const cells = this.width * this.height;
+        writeStatsUniforms(this.device, this.buffers.statsUniformBuffer, cells, this.mode === 'LCR', statsWorkgroups(cells));
+        const encoder = this.device.createCommandEncoder();
+        const pass = encoder.beginComputePass();
+        this.encodeStats(pass, this.bindGroups.bgStatsCurrent, this.bindGroups.bgSpeciesCurrent);
+        pass.end();
+        this.device.queue.submit([encoder.finish()]);
+        await this.readStats();
+        this.notifyUpdate();
+    }
+
     // animation loop
     start(): void {
         if (this.isRunning) return;
         this.isRunning = true;
         this.lastUpdateTime = performance.now();
-        this.animate();
+        void this.animate(++this.animationLoop);
         console.log('Sim started');
         this.notifyUpdate();
     }
@@ -368,15 +1032,19 @@ export class GPU {
         this.notifyUpdate();
     }
 
-    private animate(): void {
-        if (!this.isRunning) return;
+    // the next frame is requested only once the tick is done, so a tick that outlasts a frame
+    // (timeline readback, TypeScript policies) skips frames instead of overlapping the next one
+    private async animate(loop: number): Promise<void> {
+        if (!this.isRunning || loop !== this.animationLoop) return;
 
         const currentTime = performance.now();
         if (currentTime - this.lastUpdateTime >= this.speed){
-            this.step();
             this.lastUpdateTime = currentTime;
+            await this.step();
         }
-        this.animationId = requestAnimationFrame(() => this.animate());
+        // stopped, or stopped and restarted, while the tick ran
+        if (!this.isRunning || loop !== this.animationLoop) return;
+        this.animationId = requestAnimationFrame(() => void this.animate(loop));
     }
 
     // controls
@@ -407,19 +1075,30 @@ export class GPU {
         this.device.queue.writeBuffer(this.buffers.deadEnergyBuffer, 0, zF32);
         this.device.queue.writeBuffer(this.buffers.ageInBuffer, 0, zU32);
         this.device.queue.writeBuffer(this.buffers.ageOutBuffer, 0, zU32);
+        this.device.queue.writeBuffer(this.buffers.activityBuffer, 0, zU32);
+        this.clearAgentIds(zU32);
+        this.clearGenomes(zU32);
+        this.device.queue.writeBuffer(this.buffers.speciesBuffer, 0, zU32);
+        this.device.queue.writeBuffer(this.buffers.speciesMidBuffer, 0, zU32);
 
+        this.population = { ...EMPTY_POPULATION_STATS };
         console.log('Grid cleared');
         this.notifyUpdate();
     }
 
+    // same seed and density, same initial state
     randomize(density: number = 0.3): void {
+        const rand = mulberry32(this.seed);
         const cells = this.width * this.height;
         const alive = new Uint32Array(cells);
+        for (let i = 0; i < cells; i++) {
+            alive[i] = rand() < density ? 1 : 0;
+        }
+        const species = new Uint32Array(cells);
+        assignSpecies(alive, this.width, this.seed, this.species.count, species);
         const energy = new Float32Array(cells);
         for (let i = 0; i < cells; i++) {
-            const v = Math.random() < density ? 1 : 0;
-            alive[i] = v;
-            energy[i] = v ? 1.0 : 0.0;
+            energy[i] = alive[i] === 1 ? founderEnergy(this.species, species[i]) : 0.0;
         }
         this.generation = 0;
         this.device.queue.writeBuffer(this.buffers.aliveInBuffer, 0, alive);
@@ -440,9 +1119,42 @@ export class GPU {
         this.device.queue.writeBuffer(this.buffers.deadEnergyBuffer, 0, zF32);
         this.device.queue.writeBuffer(this.buffers.ageInBuffer, 0, zU32);
         this.device.queue.writeBuffer(this.buffers.ageOutBuffer, 0, zU32);
+        this.device.queue.writeBuffer(this.buffers.activityBuffer, 0, zU32);
+        this.clearAgentIds(zU32);
+        this.clearGenomes(zU32);
+        this.device.queue.writeBuffer(this.buffers.speciesBuffer, 0, zU32);
+        this.device.queue.writeBuffer(this.buffers.speciesMidBuffer, 0, zU32);
+        const ids = new Uint32Array(cells);
+        const nextId = assignFounderIds(alive, ids);
+        this.device.queue.writeBuffer(this.buffers.agentIdBuffer, 0, ids);
+        this.device.queue.writeBuffer(this.buffers.agentIdCounterBuffer, 0, new Uint32Array([nextId]));
+        if (this.lineage) this.lineage = new LineageLog(0, ids);
+        const genomeMove = new Uint32Array(cells);
+        const genomeMsg = new Uint32Array(cells);
+        assignFounderGenomes(alive, this.width, 0, this.seed, genomeMove, genomeMsg);
+        this.device.queue.writeBuffer(this.buffers.genomeMoveBuffer, 0, genomeMove);
+        this.device.queue.writeBuffer(this.buffers.genomeMsgBuffer, 0, genomeMsg);
+        this.device.queue.writeBuffer(this.buffers.speciesBuffer, 0, species);
 
         console.log('Grid randomized', { density });
         this.notifyUpdate();
+        void this.refreshStats();
+    }
+
+    // no agents, ids restart at FIRST_AGENT_ID; a running lineage log restarts empty
+    private clearAgentIds(zU32: Uint32Array): void {
+        this.device.queue.writeBuffer(this.buffers.agentIdBuffer, 0, zU32);
+        this.device.queue.writeBuffer(this.buffers.agentIdMidBuffer, 0, zU32);
+        this.device.queue.writeBuffer(this.buffers.birthParentsBuffer, 0, zU32);
+        this.device.queue.writeBuffer(this.buffers.agentIdCounterBuffer, 0, new Uint32Array([FIRST_AGENT_ID]));
+        if (this.lineage) this.lineage = new LineageLog(this.generation, zU32);
+    }
+
+    private clearGenomes(zU32: Uint32Array): void {
+        this.device.queue.writeBuffer(this.buffers.genomeMoveBuffer, 0, zU32);
+        this.device.queue.writeBuffer(this.buffers.genomeMsgBuffer, 0, zU32);
+        this.device.queue.writeBuffer(this.buffers.genomeMoveMidBuffer, 0, zU32);
+        this.device.queue.writeBuffer(this.buffers.genomeMsgMidBuffer, 0, zU32);
     }
 
     setSpeed(speed: number): void {
@@ -451,14 +1163,25 @@ export class GPU {
         this.notifyUpdate();
     }
 
+    // recorded timeline states keep the old size; whoever owns the history clears it along with
+    // its undo (canvas.tsx)
     resize(newWidth: number, newHeight: number): void {
         this.stop();
         this.width = newWidth;
         this.height = newHeight;
 
+        const old = this.buffers;
         this.buffers = createBuffers(this.device, this.width, this.height);
+        // a tick still running reads the old buffers until it settles
+        void (this.stepInFlight ?? Promise.resolve()).then(() => destroyBuffers(old));
         this.bindGroups = createBindGroups(this.device, this.pipelines, this.buffers);
+        // the attached canvas samples the new buffers from the next frame on
+        this.renderer?.bind(this.renderSources());
+        this.sourceMap = new Float32Array(this.width * this.height);
         this.updateUniforms();
+        this.uploadPolicyWeights();
+        if (this.lineage) this.lineage = new LineageLog(this.generation, new Uint32Array(0));
+        this.population = { ...EMPTY_POPULATION_STATS };
         console.log('Grid resized', { width: this.width, height: this.height });
         this.notifyUpdate();
     }
@@ -471,39 +1194,16 @@ export class GPU {
                 speed: this.speed,
                 width: this.width,
                 height: this.height,
-                liveCells: 0,
+                ...this.population,
             });
         }
     }
 
     destroy(): void {
         this.stop();
-        const b = this.buffers;
-        b?.aliveInBuffer?.destroy();
-        b?.aliveMidBuffer?.destroy();
-        b?.aliveNextBuffer?.destroy();
-        b?.energySrcBuffer?.destroy();
-        b?.energyDstBuffer?.destroy();
-        b?.sourceMapBuffer?.destroy();
-        b?.deadEnergyBuffer?.destroy();
-        b?.ageInBuffer?.destroy();
-        b?.ageOutBuffer?.destroy();
-        b?.msgOutBuffer?.destroy();
-        b?.msgLastBuffer?.destroy();
-        b?.inbox0Buffer?.destroy();
-        b?.inbox1Buffer?.destroy();
-        b?.energyScentBuffer?.destroy();
-        b?.learnedMsgStage1Buffer?.destroy();
-        b?.learnedMsgStage3Buffer?.destroy();
-        b?.lastPosBuffer?.destroy();
-        b?.intentHashBuffer?.destroy();
-        b?.ppoActionsBuffer?.destroy();
-        b?.messagingUniformBuffer?.destroy();
-        b?.movementUniformBuffer?.destroy();
-        b?.energyUniformBuffer?.destroy();
-        b?.lifeUniformBuffer?.destroy();
-        b?.singleCellReadBuffer?.destroy();
-        b?.gridReadBuffer?.destroy();
+        this.renderer?.destroy();
+        this.renderer = null;
+        if (this.buffers) destroyBuffers(this.buffers);
     }
 }
 
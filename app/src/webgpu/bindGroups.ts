@@ -10,9 +10,26 @@ export interface BindGroups {
     bgMoveClear: GPUBindGroup;
     bgMovePropose: GPUBindGroup;
     bgMoveApply: GPUBindGroup;
+    bgMoveVacate: GPUBindGroup;
     bgEnergyDiffuse: GPUBindGroup;
     bgEnergyPost: GPUBindGroup;
     bgLife: GPUBindGroup;
+    bgStatsPartial: GPUBindGroup;
+    bgStatsCurrent: GPUBindGroup;
+    bgStatsFinal: GPUBindGroup;
+    bgSpeciesPartial: GPUBindGroup;
+    bgSpeciesCurrent: GPUBindGroup;
+    bgSpeciesFinal: GPUBindGroup;
+    bgPolicyMsg1: GPUBindGroup;
+    bgPolicyMsg3: GPUBindGroup;
+    bgPolicyMove: GPUBindGroup;
+    bgLineageMove: GPUBindGroup;
+    bgLineageCount: GPUBindGroup;
+    bgLineageScan: GPUBindGroup;
+    bgLineageAssign: GPUBindGroup;
+    bgGenomeMove: GPUBindGroup;
+    bgGenomeInherit: GPUBindGroup;
+    bgSpeciesMove: GPUBindGroup;
 }
 
 let __loggedBindGroupsOnce = false;
@@ -23,13 +40,17 @@ export function createBindGroups(
     buffers: CoreBuffers & UniformBuffers,
 ): BindGroups {
     const {
-        messagingUniformBuffer, movementUniformBuffer, energyUniformBuffer, lifeUniformBuffer,
+        messagingUniformBuffer, movementUniformBuffer, energyUniformBuffer, lifeUniformBuffer, statsUniformBuffer, policyUniformBuffer, lineageUniformBuffer, genomeUniformBuffer, speciesUniformBuffer,
         aliveInBuffer, aliveMidBuffer, aliveNextBuffer,
         energySrcBuffer, energyDstBuffer, sourceMapBuffer,
         msgOutBuffer, msgLastBuffer, inbox0Buffer, inbox1Buffer, energyScentBuffer,
         learnedMsgStage1Buffer, learnedMsgStage3Buffer,
-        lastPosBuffer, intentHashBuffer, ppoActionsBuffer,
+        lastPosBuffer, intentHashBuffer, ppoActionsBuffer, policyWeightsBuffer,
         deadEnergyBuffer, ageInBuffer, ageOutBuffer,
+        activityBuffer, statsPartialsBuffer, statsTotalsBuffer,
+        agentIdBuffer, agentIdMidBuffer, birthParentsBuffer, lineagePartialsBuffer, agentIdCounterBuffer,
+        genomeMoveBuffer, genomeMsgBuffer, genomeMoveMidBuffer, genomeMsgMidBuffer,
+        speciesBuffer, speciesMidBuffer, speciesPartialsBuffer, speciesTotalsBuffer,
     } = buffers;
 
     const bgMsg1 = device.createBindGroup({
@@ -42,6 +63,9 @@ export function createBindGroups(
             { binding: 3, resource: { buffer: msgOutBuffer } },
             { binding: 4, resource: { buffer: msgLastBuffer } },
             { binding: 8, resource: { buffer: learnedMsgStage1Buffer } },
+            { binding: 11, resource: { buffer: activityBuffer } },
+            { binding: 12, resource: { buffer: genomeMsgBuffer } },
+            { binding: 13, resource: { buffer: speciesBuffer } },
         ],
     });
 
@@ -54,6 +78,7 @@ export function createBindGroups(
             { binding: 5, resource: { buffer: inbox0Buffer } },
             { binding: 7, resource: { buffer: energyScentBuffer } },
             { binding: 10, resource: { buffer: deadEnergyBuffer } },
+            { binding: 13, resource: { buffer: speciesBuffer } },
         ],
     });
 
@@ -65,7 +90,11 @@ export function createBindGroups(
             { binding: 1, resource: { buffer: aliveInBuffer } },
             { binding: 2, resource: { buffer: energySrcBuffer } },
             { binding: 3, resource: { buffer: msgOutBuffer } },
+            { binding: 5, resource: { buffer: inbox0Buffer } },
             { binding: 9, resource: { buffer: learnedMsgStage3Buffer } },
+            { binding: 11, resource: { buffer: activityBuffer } },
+            { binding: 12, resource: { buffer: genomeMsgBuffer } },
+            { binding: 13, resource: { buffer: speciesBuffer } },
         ],
     });
 
@@ -76,6 +105,7 @@ export function createBindGroups(
             { binding: 0, resource: { buffer: messagingUniformBuffer } },
             { binding: 3, resource: { buffer: msgOutBuffer } },
             { binding: 6, resource: { buffer: inbox1Buffer } },
+            { binding: 13, resource: { buffer: speciesBuffer } },
         ],
     });
 
@@ -94,9 +124,12 @@ export function createBindGroups(
         entries: [
             { binding: 0, resource: { buffer: movementUniformBuffer } },
             { binding: 1, resource: { buffer: aliveInBuffer } },
-            { binding: 3, resource: { buffer: energySrcBuffer } },
+            { binding: 4, resource: { buffer: inbox1Buffer } },
+            { binding: 5, resource: { buffer: energyScentBuffer } },
             { binding: 7, resource: { buffer: intentHashBuffer } },
             { binding: 8, resource: { buffer: ppoActionsBuffer } },
+            { binding: 11, resource: { buffer: activityBuffer } },
+            { binding: 12, resource: { buffer: genomeMoveBuffer } },
         ],
     });
 
@@ -111,6 +144,22 @@ export function createBindGroups(
             { binding: 6, resource: { buffer: lastPosBuffer } },
             { binding: 7, resource: { buffer: intentHashBuffer } },
             { binding: 8, resource: { buffer: ppoActionsBuffer } },
+            { binding: 9, resource: { buffer: ageInBuffer } },
+            { binding: 10, resource: { buffer: msgLastBuffer } },
+        ],
+    });
+
+    const bgMoveVacate = device.createBindGroup({
+        label: 'bgMoveVacate',
+        layout: pipelines.moveVacatePipeline.getBindGroupLayout(0),
+        entries: [
+            { binding: 0, resource: { buffer: movementUniformBuffer } },
+            { binding: 1, resource: { buffer: aliveInBuffer } },
+            { binding: 2, resource: { buffer: aliveMidBuffer } },
+            { binding: 3, resource: { buffer: energySrcBuffer } },
+            { binding: 9, resource: { buffer: ageInBuffer } },
+            { binding: 10, resource: { buffer: msgLastBuffer } },
+            { binding: 11, resource: { buffer: activityBuffer } },
         ],
     });
 
@@ -146,6 +195,213 @@ export function createBindGroups(
             { binding: 0, resource: { buffer: aliveMidBuffer } },
             { binding: 1, resource: { buffer: aliveNextBuffer } },
             { binding: 2, resource: { buffer: lifeUniformBuffer } },
+            { binding: 3, resource: { buffer: speciesMidBuffer } },
+            { binding: 4, resource: { buffer: speciesBuffer } },
+        ],
+    });
+
+    // end of tick: pre-Life state against this tick's results (read before the swaps)
+    const bgStatsPartial = device.createBindGroup({
+        label: 'bgStatsPartial',
+        layout: pipelines.statsPartialPipeline.getBindGroupLayout(0),
+        entries: [
+            { binding: 0, resource: { buffer: statsUniformBuffer } },
+            { binding: 1, resource: { buffer: aliveMidBuffer } },
+            { binding: 2, resource: { buffer: aliveNextBuffer } },
+            { binding: 3, resource: { buffer: energyDstBuffer } },
+            { binding: 4, resource: { buffer: ageOutBuffer } },
+            { binding: 5, resource: { buffer: deadEnergyBuffer } },
+            { binding: 6, resource: { buffer: activityBuffer } },
+            { binding: 7, resource: { buffer: statsPartialsBuffer } },
+        ],
+    });
+
+    // between ticks (after edits): current state on both sides, so births/deaths read 0
+    const bgStatsCurrent = device.createBindGroup({
+        label: 'bgStatsCurrent',
+        layout: pipelines.statsPartialPipeline.getBindGroupLayout(0),
+        entries: [
+            { binding: 0, resource: { buffer: statsUniformBuffer } },
+            { binding: 1, resource: { buffer: aliveInBuffer } },
+            { binding: 2, resource: { buffer: aliveInBuffer } },
+            { binding: 3, resource: { buffer: energySrcBuffer } },
+            { binding: 4, resource: { buffer: ageInBuffer } },
+            { binding: 5, resource: { buffer: deadEnergyBuffer } },
+            { binding: 6, resource: { buffer: activityBuffer } },
+            { binding: 7, resource: { buffer: statsPartialsBuffer } },
+        ],
+    });
+
+    const bgStatsFinal = device.createBindGroup({
+        label: 'bgStatsFinal',
+        layout: pipelines.statsFinalPipeline.getBindGroupLayout(0),
+        entries: [
+            { binding: 0, resource: { buffer: statsUniformBuffer } },
+            { binding: 7, resource: { buffer: statsPartialsBuffer } },
+            { binding: 8, resource: { buffer: statsTotalsBuffer } },
+        ],
+    });
+
+    // per-species counterparts of the three above (species after Life; current species between ticks)
+    const bgSpeciesPartial = device.createBindGroup({
+        label: 'bgSpeciesPartial',
+        layout: pipelines.speciesPartialPipeline.getBindGroupLayout(0),
+        entries: [
+            { binding: 0, resource: { buffer: statsUniformBuffer } },
+            { binding: 1, resource: { buffer: aliveMidBuffer } },
+            { binding: 2, resource: { buffer: aliveNextBuffer } },
+            { binding: 3, resource: { buffer: energyDstBuffer } },
+            { binding: 9, resource: { buffer: speciesBuffer } },
+            { binding: 10, resource: { buffer: speciesPartialsBuffer } },
+        ],
+    });
+
+    const bgSpeciesCurrent = device.createBindGroup({
+        label: 'bgSpeciesCurrent',
+        layout: pipelines.speciesPartialPipeline.getBindGroupLayout(0),
+        entries: [
+            { binding: 0, resource: { buffer: statsUniformBuffer } },
+            { binding: 1, resource: { buffer: aliveInBuffer } },
+            { binding: 2, resource: { buffer: aliveInBuffer } },
+            { binding: 3, resource: { buffer: energySrcBuffer } },
+            { binding: 9, resource: { buffer: speciesBuffer } },
+            { binding: 10, resource: { buffer: speciesPartialsBuffer } },
+        ],
+    });
+
+    const bgSpeciesFinal = device.createBindGroup({
+        label: 'bgSpeciesFinal',
+        layout: pipelines.speciesFinalPipeline.getBindGroupLayout(0),
+        entries: [
+            { binding: 0, resource: { buffer: statsUniformBuffer } },
+            { binding: 10, resource: { buffer: speciesPartialsBuffer } },
+            { binding: 11, resource: { buffer: speciesTotalsBuffer } },
+        ],
+    });
+
+    // policy.wgsl: the same observations for every head, one output buffer each
+    const policyEntries = (binding: number, output: GPUBuffer): GPUBindGroupEntry[] => [
+        { binding: 0, resource: { buffer: policyUniformBuffer } },
+        { binding: 1, resource: { buffer: aliveInBuffer } },
+        { binding: 2, resource: { buffer: energySrcBuffer } },
+        { binding: 3, resource: { buffer: ageInBuffer } },
+        { binding: 4, resource: { buffer: inbox0Buffer } },
+        { binding: 5, resource: { buffer: inbox1Buffer } },
+        { binding: 6, resource: { buffer: energyScentBuffer } },
+        { binding: 7, resource: { buffer: policyWeightsBuffer } },
+        { binding, resource: { buffer: output } },
+    ];
+
+    const bgPolicyMsg1 = device.createBindGroup({
+        label: 'bgPolicyMsg1',
+        layout: pipelines.policyMsg1Pipeline.getBindGroupLayout(0),
+        entries: policyEntries(9, learnedMsgStage1Buffer),
+    });
+
+    const bgPolicyMsg3 = device.createBindGroup({
+        label: 'bgPolicyMsg3',
+        layout: pipelines.policyMsg3Pipeline.getBindGroupLayout(0),
+        entries: policyEntries(10, learnedMsgStage3Buffer),
+    });
+
+    const bgPolicyMove = device.createBindGroup({
+        label: 'bgPolicyMove',
+        layout: pipelines.policyMovePipeline.getBindGroupLayout(0),
+        entries: policyEntries(8, ppoActionsBuffer),
+    });
+
+    const bgLineageMove = device.createBindGroup({
+        label: 'bgLineageMove',
+        layout: pipelines.lineageMovePipeline.getBindGroupLayout(0),
+        entries: [
+            { binding: 0, resource: { buffer: lineageUniformBuffer } },
+            { binding: 1, resource: { buffer: aliveInBuffer } },
+            { binding: 2, resource: { buffer: aliveMidBuffer } },
+            { binding: 3, resource: { buffer: lastPosBuffer } },
+            { binding: 4, resource: { buffer: agentIdBuffer } },
+            { binding: 5, resource: { buffer: agentIdMidBuffer } },
+        ],
+    });
+
+    const bgLineageCount = device.createBindGroup({
+        label: 'bgLineageCount',
+        layout: pipelines.lineageCountPipeline.getBindGroupLayout(0),
+        entries: [
+            { binding: 0, resource: { buffer: lineageUniformBuffer } },
+            { binding: 2, resource: { buffer: aliveMidBuffer } },
+            { binding: 5, resource: { buffer: agentIdMidBuffer } },
+            { binding: 6, resource: { buffer: aliveNextBuffer } },
+            { binding: 7, resource: { buffer: birthParentsBuffer } },
+            { binding: 8, resource: { buffer: lineagePartialsBuffer } },
+        ],
+    });
+
+    const bgLineageScan = device.createBindGroup({
+        label: 'bgLineageScan',
+        layout: pipelines.lineageScanPipeline.getBindGroupLayout(0),
+        entries: [
+            { binding: 0, resource: { buffer: lineageUniformBuffer } },
+            { binding: 8, resource: { buffer: lineagePartialsBuffer } },
+            { binding: 9, resource: { buffer: agentIdCounterBuffer } },
+        ],
+    });
+
+    const bgLineageAssign = device.createBindGroup({
+        label: 'bgLineageAssign',
+        layout: pipelines.lineageAssignPipeline.getBindGroupLayout(0),
+        entries: [
+            { binding: 0, resource: { buffer: lineageUniformBuffer } },
+            { binding: 2, resource: { buffer: aliveMidBuffer } },
+            { binding: 4, resource: { buffer: agentIdBuffer } },
+            { binding: 5, resource: { buffer: agentIdMidBuffer } },
+            { binding: 6, resource: { buffer: aliveNextBuffer } },
+            { binding: 8, resource: { buffer: lineagePartialsBuffer } },
+        ],
+    });
+
+    const bgGenomeMove = device.createBindGroup({
+        label: 'bgGenomeMove',
+        layout: pipelines.genomeMovePipeline.getBindGroupLayout(0),
+        entries: [
+            { binding: 0, resource: { buffer: genomeUniformBuffer } },
+            { binding: 1, resource: { buffer: aliveInBuffer } },
+            { binding: 2, resource: { buffer: aliveMidBuffer } },
+            { binding: 3, resource: { buffer: lastPosBuffer } },
+            { binding: 4, resource: { buffer: genomeMoveBuffer } },
+            { binding: 5, resource: { buffer: genomeMsgBuffer } },
+            { binding: 6, resource: { buffer: genomeMoveMidBuffer } },
+            { binding: 7, resource: { buffer: genomeMsgMidBuffer } },
+        ],
+    });
+
+    const bgGenomeInherit = device.createBindGroup({
+        label: 'bgGenomeInherit',
+        layout: pipelines.genomeInheritPipeline.getBindGroupLayout(0),
+        entries: [
+            { binding: 0, resource: { buffer: genomeUniformBuffer } },
+            { binding: 2, resource: { buffer: aliveMidBuffer } },
+            { binding: 4, resource: { buffer: genomeMoveBuffer } },
+            { binding: 5, resource: { buffer: genomeMsgBuffer } },
+            { binding: 6, resource: { buffer: genomeMoveMidBuffer } },
+            { binding: 7, resource: { buffer: genomeMsgMidBuffer } },
+            { binding: 8, resource: { buffer: aliveNextBuffer } },
+            { binding: 9, resource: { buffer: agentIdMidBuffer } },
+            { binding: 10, resource: { buffer: birthParentsBuffer } },
+        ],
+    });
+
+    const bgSpeciesMove = device.createBindGroup({
+        label: 'bgSpeciesMove',
+        layout: pipelines.speciesMovePipeline.getBindGroupLayout(0),
+        entries: [
+            { binding: 0, resource: { buffer: speciesUniformBuffer } },
+            { binding: 1, resource: { buffer: aliveInBuffer } },
+            { binding: 2, resource: { buffer: aliveMidBuffer } },
+            { binding: 3, resource: { buffer: lastPosBuffer } },
+            { binding: 4, resource: { buffer: activityBuffer } },
+            { binding: 5, resource: { buffer: energySrcBuffer } },
+            { binding: 6, resource: { buffer: speciesBuffer } },
+            { binding: 7, resource: { buffer: speciesMidBuffer } },
         ],
     });
 
@@ -153,8 +409,14 @@ export function createBindGroups(
         console.log('Bind groups created', {
             groups: [
                 'bgMsg1','bgMsg2','bgMsg3a','bgMsg3b',
-                'bgMoveClear','bgMovePropose','bgMoveApply',
+                'bgMoveClear','bgMovePropose','bgMoveApply','bgMoveVacate',
                 'bgEnergyDiffuse','bgEnergyPost','bgLife',
+                'bgStatsPartial','bgStatsCurrent','bgStatsFinal',
+                'bgSpeciesPartial','bgSpeciesCurrent','bgSpeciesFinal',
+                'bgPolicyMsg1','bgPolicyMsg3','bgPolicyMove',
+                'bgLineageMove','bgLineageCount','bgLineageScan','bgLineageAssign',
+                'bgGenomeMove','bgGenomeInherit',
+                'bgSpeciesMove',
             ]
         });
         __loggedBindGroupsOnce = true;
@@ -168,9 +430,26 @@ export function createBindGroups(
         bgMoveClear,
         bgMovePropose,
         bgMoveApply,
+        bgMoveVacate,
         bgEnergyDiffuse,
         bgEnergyPost,
         bgLife,
+        bgStatsPartial,
+        bgStatsCurrent,
+        bgStatsFinal,
+        bgSpeciesPartial,
+        bgSpeciesCurrent,
+        bgSpeciesFinal,
+        bgPolicyMsg1,
+        bgPolicyMsg3,
+        bgPolicyMove,
+        bgLineageMove,
+        bgLineageCount,
+        bgLineageScan,
+        bgLineageAssign,
+        bgGenomeMove,
+        bgGenomeInherit,
+        bgSpeciesMove,
     };
 }
 
@@ -1,4 +1,7 @@
 /// <reference types="@webgpu/types" />
+import { SPECIES_TOTALS_BYTES, STATS_READ_BYTES, STATS_TOTALS_BYTES, statsWorkgroups } from './stats'
+import { MAX_POLICY_PARAMS } from '../policy/mlp'
+import { FIRST_AGENT_ID } from '../lineage'
 
 export interface CoreBuffers {
     aliveInBuffer: GPUBuffer;
@@ -20,6 +23,24 @@ export interface CoreBuffers {
     lastPosBuffer: GPUBuffer;
     intentHashBuffer: GPUBuffer;
     ppoActionsBuffer: GPUBuffer;
+    policyWeightsBuffer: GPUBuffer;
+    agentIdBuffer: GPUBuffer;
+    agentIdMidBuffer: GPUBuffer;
+    birthParentsBuffer: GPUBuffer;
+    lineagePartialsBuffer: GPUBuffer;
+    agentIdCounterBuffer: GPUBuffer;
+    genomeMoveBuffer: GPUBuffer;
+    genomeMsgBuffer: GPUBuffer;
+    genomeMoveMidBuffer: GPUBuffer;
+    genomeMsgMidBuffer: GPUBuffer;
+    speciesBuffer: GPUBuffer;
+    speciesMidBuffer: GPUBuffer;
+    activityBuffer: GPUBuffer;
+    statsPartialsBuffer: GPUBuffer;
+    statsTotalsBuffer: GPUBuffer;
+    speciesPartialsBuffer: GPUBuffer;
+    speciesTotalsBuffer: GPUBuffer;
+    statsReadBuffer: GPUBuffer;
     singleCellReadBuffer: GPUBuffer;
     gridReadBuffer: GPUBuffer;
 }
@@ -29,6 +50,11 @@ export interface UniformBuffers {
     movementUniformBuffer: GPUBuffer;
     energyUniformBuffer: GPUBuffer;
     lifeUniformBuffer: GPUBuffer;
+    statsUniformBuffer: GPUBuffer;
+    policyUniformBuffer: GPUBuffer;
+    lineageUniformBuffer: GPUBuffer;
+    genomeUniformBuffer: GPUBuffer;
+    speciesUniformBuffer: GPUBuffer;
 }
 
 export function createBuffers(device: GPUDevice, width: number, height: number): CoreBuffers & UniformBuffers {
@@ -48,22 +74,53 @@ export function createBuffers(device: GPUDevice, width: number, height: number):
     const inbox0Buffer = device.createBuffer({ size: bytesU32, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC });
     const inbox1Buffer = device.createBuffer({ size: bytesU32, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC });
     const energyScentBuffer = device.createBuffer({ size: bytesU32, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC });
-    const learnedMsgStage1Buffer = device.createBuffer({ size: bytesU32, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST });
-    const learnedMsgStage3Buffer = device.createBuffer({ size: bytesU32, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST });
+    const learnedMsgStage1Buffer = device.createBuffer({ size: bytesU32, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC });
+    const learnedMsgStage3Buffer = device.createBuffer({ size: bytesU32, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC });
 
     const lastPosBuffer = device.createBuffer({ size: bytesU32, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC });
     const intentHashBuffer = device.createBuffer({ size: bytesU32, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC });
-    const ppoActionsBuffer = device.createBuffer({ size: bytesU32, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST });
+    const ppoActionsBuffer = device.createBuffer({ size: bytesU32, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC });
+    // MLP weights for policy.wgsl, sized for the largest supported net
+    const policyWeightsBuffer = device.createBuffer({ size: MAX_POLICY_PARAMS * 4, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST });
 
-    const sourceMapBuffer = device.createBuffer({ size: bytesF32, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST });
+    // agent identities (lineage.wgsl): ids at tick start/end, ids after movement, birth parents,
+    // per-workgroup id offsets and the next free id
+    const agentIdBuffer = device.createBuffer({ size: bytesU32, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC });
+    const agentIdMidBuffer = device.createBuffer({ size: bytesU32, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC });
+    const birthParentsBuffer = device.createBuffer({ size: bytesU32, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC });
+    const lineagePartialsBuffer = device.createBuffer({ size: statsWorkgroups(cells) * 4, usage: GPUBufferUsage.STORAGE });
+    const agentIdCounterBuffer = device.createBuffer({ size: 4, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC });
+    // genomes (genome.wgsl): movement and messaging words at tick start/end and after movement
+    const genomeMoveBuffer = device.createBuffer({ size: bytesU32, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC });
+    const genomeMsgBuffer = device.createBuffer({ size: bytesU32, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC });
+    const genomeMoveMidBuffer = device.createBuffer({ size: bytesU32, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC });
+    const genomeMsgMidBuffer = device.createBuffer({ size: bytesU32, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC });
+    // species (species.wgsl): at tick start/end and after movement
+    const speciesBuffer = device.createBuffer({ size: bytesU32, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC });
+    const speciesMidBuffer = device.createBuffer({ size: bytesU32, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC });
+
+    const sourceMapBuffer = device.createBuffer({ size: bytesF32, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC });
     const deadEnergyBuffer = device.createBuffer({ size: bytesF32, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC });
+    // per-cell activity flags plus the two reduction levels of stats.wgsl, overall and per species
+    const activityBuffer = device.createBuffer({ size: bytesU32, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC });
+    const statsPartialsBuffer = device.createBuffer({ size: statsWorkgroups(cells) * STATS_TOTALS_BYTES, usage: GPUBufferUsage.STORAGE });
+    const statsTotalsBuffer = device.createBuffer({ size: STATS_TOTALS_BYTES, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC });
+    const speciesPartialsBuffer = device.createBuffer({ size: statsWorkgroups(cells) * SPECIES_TOTALS_BYTES, usage: GPUBufferUsage.STORAGE });
+    const speciesTotalsBuffer = device.createBuffer({ size: SPECIES_TOTALS_BYTES, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC });
+    const statsReadBuffer = device.createBuffer({ size: STATS_READ_BYTES, usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST });
+
     const ageInBuffer = device.createBuffer({ size: bytesU32, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC });
     const ageOutBuffer = device.createBuffer({ size: bytesU32, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC });
 
-    const messagingUniformBuffer = device.createBuffer({ size: 32, usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST });
+    const messagingUniformBuffer = device.createBuffer({ size: 64, usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST });
     const movementUniformBuffer = device.createBuffer({ size: 32, usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST });
     const energyUniformBuffer = device.createBuffer({ size: 32, usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST });
-    const lifeUniformBuffer = device.createBuffer({ size: 16, usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST });
+    const lifeUniformBuffer = device.createBuffer({ size: 64, usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST });
+    const statsUniformBuffer = device.createBuffer({ size: 16, usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST });
+    const policyUniformBuffer = device.createBuffer({ size: 64, usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST });
+    const lineageUniformBuffer = device.createBuffer({ size: 32, usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST });
+    const genomeUniformBuffer = device.createBuffer({ size: 32, usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST });
+    const speciesUniformBuffer = device.createBuffer({ size: 32, usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST });
 
     const singleCellReadBuffer = device.createBuffer({ size: 4, usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST });
     const gridReadBuffer = device.createBuffer({ size: bytesU32, usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST });
@@ -78,6 +135,17 @@ export function createBuffers(device: GPUDevice, width: number, height: number):
     device.queue.writeBuffer(deadEnergyBuffer, 0, zeroF32);
     device.queue.writeBuffer(ageInBuffer, 0, zeroU32);
     device.queue.writeBuffer(ageOutBuffer, 0, zeroU32);
+    device.queue.writeBuffer(activityBuffer, 0, zeroU32);
+    device.queue.writeBuffer(agentIdBuffer, 0, zeroU32);
+    device.queue.writeBuffer(agentIdMidBuffer, 0, zeroU32);
+    device.queue.writeBuffer(birthParentsBuffer, 0, zeroU32);
+    device.queue.writeBuffer(agentIdCounterBuffer, 0, new Uint32Array([FIRST_AGENT_ID]));
+    device.queue.writeBuffer(genomeMoveBuffer, 0, zeroU32);
+    device.queue.writeBuffer(genomeMsgBuffer, 0, zeroU32);
+    device.queue.writeBuffer(genomeMoveMidBuffer, 0, zeroU32);
+    device.queue.writeBuffer(genomeMsgMidBuffer, 0, zeroU32);
+    device.queue.writeBuffer(speciesBuffer, 0, zeroU32);
+    device.queue.writeBuffer(speciesMidBuffer, 0, zeroU32);
 
     return {
         aliveInBuffer,
@@ -99,13 +167,41 @@ export function createBuffers(device: GPUDevice, width: number, height: number):
         lastPosBuffer,
         intentHashBuffer,
         ppoActionsBuffer,
+        policyWeightsBuffer,
+        agentIdBuffer,
+        agentIdMidBuffer,
+        birthParentsBuffer,
+        lineagePartialsBuffer,
+        agentIdCounterBuffer,
+        genomeMoveBuffer,
+        genomeMsgBuffer,
+        genomeMoveMidBuffer,
+        genomeMsgMidBuffer,
+        speciesBuffer,
+        speciesMidBuffer,
+        activityBuffer,
+        statsPartialsBuffer,
+        statsTotalsBuffer,
+        speciesPartialsBuffer,
+        speciesTotalsBuffer,
+        statsReadBuffer,
         singleCellReadBuffer,
         gridReadBuffer,
         messagingUniformBuffer,
         movementUniformBuffer,
         energyUniformBuffer,
         lifeUniformBuffer,
+        statsUniformBuffer,
+        policyUniformBuffer,
+        lineageUniformBuffer,
+        genomeUniformBuffer,
+        speciesUniformBuffer,
     };
 }
 
 
+
+// releases every buffer createBuffers made (on resize and destroy)
+export function destroyBuffers(buffers: CoreBuffers & UniformBuffers): void {
+    for (const buffer of Object.values(buffers)) buffer.destroy();
+}
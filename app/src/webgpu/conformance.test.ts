@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { checkMoveConservation, runConformance } from './conformance'
+import { BOUNDARY_MODES } from '../boundary'
+import { NEIGHBORHOODS } from '../neighborhood'
+
+// a move carries the winner's energy (minus the move cost), age and msg_last to its target and
+// clears the origin, under every neighborhood and boundary
+describe('checkMoveConservation', () => {
+  const cases = NEIGHBORHOODS.flatMap(({ neighborhood }) => BOUNDARY_MODES.map(({ mode }) => ({ neighborhood, boundary: mode })))
+
+  it.each(cases)('conserves energy with $neighborhood / $boundary', ({ neighborhood, boundary }) => {
+    const report = checkMoveConservation({ neighborhood, boundary })
+    expect(report.moves).toBeGreaterThan(0)
+    expect(report.stateMismatches).toBe(0)
+    expect(report.energyAfter).toBeCloseTo(report.energyExpected, 3)
+    expect(report.ok).toBe(true)
+  })
+
+  it('charges nothing with a free move', () => {
+    const report = checkMoveConservation({ moveCostMilli: 0 })
+    expect(report.moves).toBeGreaterThan(0)
+    expect(report.energyAfter).toBeCloseTo(report.energyBefore, 3)
+  })
+})
+
+// needs a WebGPU adapter, so it only runs where the test runtime provides navigator.gpu;
+// `npm run conformance` runs the same diff in the browser
+describe.skipIf(!globalThis.navigator?.gpu)('runConformance', () => {
+  it('matches the CPU reference in every mode, boundary and neighborhood', async () => {
+    const adapter = await navigator.gpu.requestAdapter()
+    expect(adapter).not.toBeNull()
+    const device = await adapter!.requestDevice()
+    try {
+      const report = await runConformance(device, { width: 32, height: 24, ticks: 16 })
+      expect(report.modes.filter((m) => m.divergence !== null)).toEqual([])
+    } finally {
+      device.destroy()
+    }
+  }, 120_000)
+})
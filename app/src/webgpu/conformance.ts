@@ -0,0 +1,289 @@
+/// <reference types="@webgpu/types" />
+import { GPU } from './GPU'
+import { CPU } from '../cpu/CPU'
+import { createCpuBuffers } from '../cpu/buffers'
+import { f32, milli } from '../cpu/math'
+import { moveClearIntents, moveProposeIntents, moveApply, moveVacate } from '../cpu/movement'
+import { speciesMove } from '../cpu/species'
+import type { SimUniformParams } from './uniforms'
+import { BOUNDARY_CODES, BOUNDARY_MODES, OUTSIDE, resolveCell, type BoundaryMode } from '../boundary'
+import { NEIGHBORHOODS, NEIGHBORHOOD_CODES, neighborDir, neighborhoodSize, type Neighborhood } from '../neighborhood'
+import { DEFAULT_PHYSICS, type PhysicsParams } from '../params'
+import { parseRule } from '../rules'
+import { DEFAULT_SPECIES, speciesUniforms } from '../species'
+import { mulberry32 } from '../random'
+import { FIELD_NAMES, FLOAT_FIELDS, type FieldName, type FieldData } from './types'
+
+// GPU-vs-CPU conformance: seed identical state into both backends, step them in lockstep
+// and diff every state field after each tick.
+
+export type SimMode = 'LCR' | 'Conway';
+
+export interface ConformanceOptions {
+    width?: number;
+    height?: number;
+    ticks?: number;
+    modes?: SimMode[];
+    boundaries?: BoundaryMode[];
+    neighborhoods?: Neighborhood[];
+    density?: number;
+    seed?: number;
+    epsilon?: number;           // absolute tolerance for f32 fields
+    fields?: FieldName[];
+}
+
+export interface Divergence {
+    mode: SimMode;
+    boundary: BoundaryMode;
+    neighborhood: Neighborhood;
+    tick: number;               // 1-based: state after this many steps
+    field: FieldName;
+    col: number;
+    row: number;
+    gpu: number;
+    cpu: number;
+    mismatches: number;         // total cells differing in this field at this tick
+}
+
+export interface ModeReport {
+    mode: SimMode;
+    boundary: BoundaryMode;
+    neighborhood: Neighborhood;
+    ticksRun: number;
+    divergence: Divergence | null;
+}
+
+export interface ConformanceReport {
+    ok: boolean;
+    modes: ModeReport[];
+}
+
+function seedState(width: number, height: number, density: number, seed: number): Map<FieldName, FieldData> {
+    const rand = mulberry32(seed);
+    const cells = width * height;
+    const alive = new Uint32Array(cells);
+    const energy = new Float32Array(cells);
+    const deadEnergy = new Float32Array(cells);
+    const age = new Uint32Array(cells);
+    for (let i = 0; i < cells; i++) {
+        if (rand() < density) {
+            alive[i] = 1;
+            energy[i] = 0.05 + 0.95 * rand();
+            age[i] = Math.floor(rand() * 32);
+        } else if (rand() < 0.2) {
+            deadEnergy[i] = rand();
+        }
+    }
+    return new Map<FieldName, FieldData>([
+        ['alive', alive],
+        ['energy', energy],
+        ['dead_energy', deadEnergy],
+        ['age', age],
+    ]);
+}
+
+function diffField(
+    field: FieldName,
+    gpu: FieldData,
+    cpu: FieldData,
+    epsilon: number,
+): { index: number; mismatches: number } {
+    let first = -1;
+    let mismatches = 0;
+    const isFloat = FLOAT_FIELDS.has(field);
+    for (let i = 0; i < gpu.length; i++) {
+        const same = isFloat ? Math.abs(gpu[i] - cpu[i]) <= epsilon : gpu[i] === cpu[i];
+        if (!same) {
+            if (first < 0) first = i;
+            mismatches++;
+        }
+    }
+    return { index: first, mismatches };
+}
+
+async function runMode(
+    device: GPUDevice,
+    mode: SimMode,
+    boundary: BoundaryMode,
+    neighborhood: Neighborhood,
+    opts: Required<ConformanceOptions>,
+): Promise<ModeReport> {
+    const { width, height } = opts;
+    const gpu = new GPU(device, width, height);
+    const cpu = new CPU(width, height);
+    await gpu.init();
+    await cpu.init();
+    gpu.setMode(mode);
+    cpu.setMode(mode);
+    gpu.setBoundary(boundary);
+    cpu.setBoundary(boundary);
+    gpu.setNeighborhood(neighborhood);
+    cpu.setNeighborhood(neighborhood);
+    // the state seed doubles as the run seed so the hash mixing is covered too
+    gpu.setSeed(opts.seed);
+    cpu.setSeed(opts.seed);
+
+    try {
+        for (const [field, data] of seedState(width, height, opts.density, opts.seed)) {
+            gpu.writeField(field, data);
+            cpu.writeField(field, data);
+        }
+
+        for (let tick = 1; tick <= opts.ticks; tick++) {
+            await gpu.step();
+            await cpu.step();
+
+            for (const field of opts.fields) {
+                const g = await gpu.readField(field);
+                const c = await cpu.readField(field);
+                const { index, mismatches } = diffField(field, g, c, opts.epsilon);
+                if (index >= 0) {
+                    const divergence: Divergence = {
+                        mode, boundary, neighborhood, tick, field,
+                        col: index % width,
+                        row: Math.floor(index / width),
+                        gpu: g[index],
+                        cpu: c[index],
+                        mismatches,
+                    };
+                    console.error('Conformance divergence', divergence);
+                    return { mode, boundary, neighborhood, ticksRun: tick, divergence };
+                }
+            }
+        }
+        console.log('Conformance ok', { mode, boundary, neighborhood, ticks: opts.ticks });
+        return { mode, boundary, neighborhood, ticksRun: opts.ticks, divergence: null };
+    } finally {
+        gpu.destroy();
+        cpu.destroy();
+    }
+}
+
+export async function runConformance(device: GPUDevice, options: ConformanceOptions = {}): Promise<ConformanceReport> {
+    const opts: Required<ConformanceOptions> = {
+        width: options.width ?? 64,
+        height: options.height ?? 48,
+        ticks: options.ticks ?? 32,
+        modes: options.modes ?? ['LCR', 'Conway'],
+        boundaries: options.boundaries ?? BOUNDARY_MODES.map((b) => b.mode),
+        neighborhoods: options.neighborhoods ?? NEIGHBORHOODS.map((n) => n.neighborhood),
+        density: options.density ?? 0.3,
+        seed: options.seed ?? 1,
+        epsilon: options.epsilon ?? 1e-5,
+        fields: options.fields ?? [...FIELD_NAMES],
+    };
+
+    const modes: ModeReport[] = [];
+    for (const mode of opts.modes) {
+        for (const boundary of opts.boundaries) {
+            for (const neighborhood of opts.neighborhoods) {
+                modes.push(await runMode(device, mode, boundary, neighborhood, opts));
+            }
+        }
+    }
+    return { ok: modes.every((m) => m.divergence === null), modes };
+}
+
+// Movement conservation: one movement phase on the reference kernels (movement, then the
+// charges of species_move) must move each winner's energy (minus costs), age and msg_last onto
+// its target and leave nothing at the origin.
+
+export interface ConservationOptions {
+    width?: number;
+    height?: number;
+    density?: number;
+    seed?: number;
+    moveCostMilli?: number;
+    boundary?: BoundaryMode;
+    neighborhood?: Neighborhood;
+    tolerance?: number;
+}
+
+export interface ConservationReport {
+    ok: boolean;
+    proposals: number;
+    moves: number;
+    energyBefore: number;
+    energyAfter: number;
+    energyExpected: number;
+    stateMismatches: number;    // arrivals whose age/msg_last differ from the source, or dirty origins
+}
+
+export function checkMoveConservation(options: ConservationOptions = {}): ConservationReport {
+    const width = options.width ?? 64;
+    const height = options.height ?? 48;
+    const cells = width * height;
+    const rand = mulberry32(options.seed ?? 1);
+    const params: PhysicsParams = {
+        ...DEFAULT_PHYSICS,
+        msg_mode_stage1: 0,
+        msg_mode_stage3: 0,
+        move_cost_milli: options.moveCostMilli ?? DEFAULT_PHYSICS.move_cost_milli,
+        move_mode: 0,
+    };
+    const U: SimUniformParams = {
+        width, height,
+        generation: options.seed ?? 1,
+        seed: options.seed ?? 1,
+        ...params,
+        ...speciesUniforms(DEFAULT_SPECIES, parseRule('B3/S23'), params),
+        life_states: 2,
+        boundary: BOUNDARY_CODES[options.boundary ?? 'torus'],
+        neighborhood: NEIGHBORHOOD_CODES[options.neighborhood ?? 'moore'],
+    };
+
+    const b = createCpuBuffers(width, height);
+    for (let i = 0; i < cells; i++) {
+        if (rand() < (options.density ?? 0.3)) {
+            b.aliveIn[i] = 1;
+            // well above the move cost so the max(0, ..) clamps never engage
+            b.energySrc[i] = 0.05 + 0.95 * rand();
+            b.ageIn[i] = 1 + Math.floor(rand() * 100);
+            b.msgLast[i] = 1 + Math.floor(rand() * 3);
+        }
+    }
+    const ageBefore = b.ageIn.slice();
+    const msgBefore = b.msgLast.slice();
+    const energyBefore = b.energySrc.reduce((acc, e) => acc + e, 0);
+
+    moveClearIntents(U, b);
+    moveProposeIntents(U, b);
+    moveApply(U, b);
+    moveVacate(U, b);
+    speciesMove(U, b);
+
+    const halfCost = f32(milli(U.move_cost_milli) * 0.5);
+    let proposals = 0;
+    let moves = 0;
+    let stateMismatches = 0;
+    for (let i = 0; i < cells; i++) {
+        if (b.aliveIn[i] !== 1) continue;
+        // random mode proposes (and pays half the cost) whenever there is an empty neighbor
+        const x = i % width;
+        const y = Math.floor(i / width);
+        let hasEmpty = false;
+        for (let d = 0; d < neighborhoodSize(U.neighborhood) && !hasEmpty; d++) {
+            const [dx, dy] = neighborDir(U.neighborhood, d, y);
+            const j = resolveCell(x + dx, y + dy, width, height, U.boundary);
+            if (j !== OUTSIDE && b.aliveIn[j] === 0) hasEmpty = true;
+        }
+        if (hasEmpty) proposals++;
+        if (b.aliveMid[i] === 0 && (b.energySrc[i] !== 0 || b.ageIn[i] !== 0 || b.msgLast[i] !== 0)) {
+            stateMismatches++;
+        }
+    }
+    for (let i = 0; i < cells; i++) {
+        if (b.aliveIn[i] !== 0 || b.aliveMid[i] !== 1) continue;
+        moves++;
+        const s = (b.lastPos[i] >>> 16) * width + (b.lastPos[i] & 0xffff);
+        if (b.ageIn[i] !== ageBefore[s] || b.msgLast[i] !== msgBefore[s]) stateMismatches++;
+    }
+
+    const energyAfter = b.energySrc.reduce((acc, e) => acc + e, 0);
+    const energyExpected = energyBefore - (proposals + moves) * halfCost;
+    const tolerance = options.tolerance ?? 1e-3;
+    const ok = Math.abs(energyAfter - energyExpected) <= tolerance && stateMismatches === 0;
+    const report = { ok, proposals, moves, energyBefore, energyAfter, energyExpected, stateMismatches };
+    if (!ok) console.error('Movement conservation failed', report);
+    return report;
+}
@@ -3,6 +3,11 @@ import lifeStepWGSL from '@sim_kernels/life_step.wgsl?raw'
 import messagingWGSL from '@sim_kernels/messaging.wgsl?raw'
 import movementWGSL from '@sim_kernels/movement.wgsl?raw'
 import energyWGSL from '@sim_kernels/energy.wgsl?raw'
+import statsWGSL from '@sim_kernels/stats.wgsl?raw'
+import policyWGSL from '@sim_kernels/policy.wgsl?raw'
+import lineageWGSL from '@sim_kernels/lineage.wgsl?raw'
+import genomeWGSL from '@sim_kernels/genome.wgsl?raw'
+import speciesWGSL from '@sim_kernels/species.wgsl?raw'
 import type { Pipelines } from './types'
 
 export function createPipelines(device: GPUDevice): Pipelines {
@@ -10,6 +15,11 @@ export function createPipelines(device: GPUDevice): Pipelines {
     const movementModule  = device.createShaderModule({ label: 'movement-shader',  code: movementWGSL  });
     const energyModule    = device.createShaderModule({ label: 'energy-shader',    code: energyWGSL    });
     const lifeModule      = device.createShaderModule({ label: 'life-shader',      code: lifeStepWGSL  });
+    const statsModule     = device.createShaderModule({ label: 'stats-shader',     code: statsWGSL     });
+    const policyModule    = device.createShaderModule({ label: 'policy-shader',    code: policyWGSL    });
+    const lineageModule   = device.createShaderModule({ label: 'lineage-shader',   code: lineageWGSL   });
+    const genomeModule    = device.createShaderModule({ label: 'genome-shader',    code: genomeWGSL    });
+    const speciesModule   = device.createShaderModule({ label: 'species-shader',   code: speciesWGSL   });
 
     const msgStage1Pipeline = device.createComputePipeline({
         label: 'msg-stage1',
@@ -47,6 +57,11 @@ export function createPipelines(device: GPUDevice): Pipelines {
         layout: 'auto',
         compute: { module: movementModule, entryPoint: 'move_apply' }
     });
+    const moveVacatePipeline = device.createComputePipeline({
+        label: 'move-vacate',
+        layout: 'auto',
+        compute: { module: movementModule, entryPoint: 'move_vacate' }
+    });
 
     const energyDiffusePipeline = device.createComputePipeline({
         label: 'energy-diffuse',
@@ -65,12 +80,92 @@ export function createPipelines(device: GPUDevice): Pipelines {
         compute: { module: lifeModule, entryPoint: 'main' }
     });
 
+    const statsPartialPipeline = device.createComputePipeline({
+        label: 'stats-partial',
+        layout: 'auto',
+        compute: { module: statsModule, entryPoint: 'stats_partial' }
+    });
+    const statsFinalPipeline = device.createComputePipeline({
+        label: 'stats-final',
+        layout: 'auto',
+        compute: { module: statsModule, entryPoint: 'stats_final' }
+    });
+    const speciesPartialPipeline = device.createComputePipeline({
+        label: 'species-partial',
+        layout: 'auto',
+        compute: { module: statsModule, entryPoint: 'species_partial' }
+    });
+    const speciesFinalPipeline = device.createComputePipeline({
+        label: 'species-final',
+        layout: 'auto',
+        compute: { module: statsModule, entryPoint: 'species_final' }
+    });
+
+    const policyMsg1Pipeline = device.createComputePipeline({
+        label: 'policy-msg1',
+        layout: 'auto',
+        compute: { module: policyModule, entryPoint: 'policy_msg1' }
+    });
+    const policyMsg3Pipeline = device.createComputePipeline({
+        label: 'policy-msg3',
+        layout: 'auto',
+        compute: { module: policyModule, entryPoint: 'policy_msg3' }
+    });
+    const policyMovePipeline = device.createComputePipeline({
+        label: 'policy-move',
+        layout: 'auto',
+        compute: { module: policyModule, entryPoint: 'policy_move' }
+    });
+
+    const lineageMovePipeline = device.createComputePipeline({
+        label: 'lineage-move',
+        layout: 'auto',
+        compute: { module: lineageModule, entryPoint: 'lineage_move' }
+    });
+    const lineageCountPipeline = device.createComputePipeline({
+        label: 'lineage-count',
+        layout: 'auto',
+        compute: { module: lineageModule, entryPoint: 'lineage_count' }
+    });
+    const lineageScanPipeline = device.createComputePipeline({
+        label: 'lineage-scan',
+        layout: 'auto',
+        compute: { module: lineageModule, entryPoint: 'lineage_scan' }
+    });
+    const lineageAssignPipeline = device.createComputePipeline({
+        label: 'lineage-assign',
+        layout: 'auto',
+        compute: { module: lineageModule, entryPoint: 'lineage_assign' }
+    });
+
+    const genomeMovePipeline = device.createComputePipeline({
+        label: 'genome-move',
+        layout: 'auto',
+        compute: { module: genomeModule, entryPoint: 'genome_move' }
+    });
+    const genomeInheritPipeline = device.createComputePipeline({
+        label: 'genome-inherit',
+        layout: 'auto',
+        compute: { module: genomeModule, entryPoint: 'genome_inherit' }
+    });
+
+    const speciesMovePipeline = device.createComputePipeline({
+        label: 'species-move',
+        layout: 'auto',
+        compute: { module: speciesModule, entryPoint: 'species_move' }
+    });
+
     console.log('Pipelines created', {
         labels: [
             'msg-stage1','msg-stage2','msg-stage3a','msg-stage3b',
-            'move-clear','move-propose','move-apply',
+            'move-clear','move-propose','move-apply','move-vacate',
             'energy-diffuse','energy-post-life',
             'life-step',
+            'stats-partial','stats-final','species-partial','species-final',
+            'policy-msg1','policy-msg3','policy-move',
+            'lineage-move','lineage-count','lineage-scan','lineage-assign',
+            'genome-move','genome-inherit',
+            'species-move',
         ]
     });
 
@@ -82,9 +177,24 @@ export function createPipelines(device: GPUDevice): Pipelines {
         moveClearPipeline,
         moveProposePipeline,
         moveApplyPipeline,
+        moveVacatePipeline,
         energyDiffusePipeline,
         energyPostPipeline,
         lifePipeline,
+        statsPartialPipeline,
+        statsFinalPipeline,
+        policyMsg1Pipeline,
+        policyMsg3Pipeline,
+        policyMovePipeline,
+        lineageMovePipeline,
+        lineageCountPipeline,
+        lineageScanPipeline,
+        lineageAssignPipeline,
+        genomeMovePipeline,
+        genomeInheritPipeline,
+        speciesMovePipeline,
+        speciesPartialPipeline,
+        speciesFinalPipeline,
     };
 }
 
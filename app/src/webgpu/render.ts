@@ -0,0 +1,152 @@
+/// <reference types="@webgpu/types" />
+import renderWGSL from '@sim_kernels/render.wgsl?raw'
+import { RENDER_UNIFORM_BYTES, packRenderUniforms, type DisplaySettings } from '../layers'
+
+export interface RenderParams {
+    width: number;      // grid cells
+    height: number;
+    cellSize: number;   // pixels per cell
+    states: number;     // rule states (2 = binary)
+    display: DisplaySettings;
+    speciesColors: [number, number, number][]; // speciesPalette()
+}
+
+// state buffers sampled by render.wgsl, in binding order (1..9)
+export interface RenderSources {
+    alive: GPUBuffer;
+    energy: GPUBuffer;
+    deadEnergy: GPUBuffer;
+    age: GPUBuffer;
+    msgOut: GPUBuffer;
+    inbox0: GPUBuffer;
+    energyScent: GPUBuffer;
+    sourceMap: GPUBuffer;
+    species: GPUBuffer;
+}
+
+// draws the cell states and display layers into a WebGPU canvas context (render.wgsl).
+// owned by GPU so it can sample whichever buffers are current after the tick swaps
+export class Renderer {
+    private device: GPUDevice;
+    private context: GPUCanvasContext;
+    // base cell colors, then the display layers blended over them (render.wgsl)
+    private cellsPipeline: GPURenderPipeline;
+    private layersPipeline: GPURenderPipeline;
+    private uniformBuffer: GPUBuffer;
+
+    // bind groups are rebuilt only when a sampled buffer changes (swaps, resize)
+    private cellsBindGroup: GPUBindGroup | null = null;
+    private layersBindGroup: GPUBindGroup | null = null;
+    private boundSources: RenderSources | null = null;
+
+    constructor(device: GPUDevice, canvas: HTMLCanvasElement) {
+        this.device = device;
+        const context = canvas.getContext('webgpu');
+        if (!context){
+            throw new Error('WebGPU canvas context unavailable');
+        }
+        this.context = context;
+        const format = navigator.gpu.getPreferredCanvasFormat();
+        this.context.configure({ device, format, alphaMode: 'opaque' });
+
+        const module = device.createShaderModule({ label: 'render-shader', code: renderWGSL });
+        this.cellsPipeline = device.createRenderPipeline({
+            label: 'render-cells',
+            layout: 'auto',
+            vertex: { module, entryPoint: 'vs_main' },
+            fragment: { module, entryPoint: 'fs_cells', targets: [{ format }] },
+            primitive: { topology: 'triangle-list' },
+        });
+        // layers + base * alpha, where fs_layers puts the base color's remaining weight in alpha
+        this.layersPipeline = device.createRenderPipeline({
+            label: 'render-layers',
+            layout: 'auto',
+            vertex: { module, entryPoint: 'vs_main' },
+            fragment: {
+                module,
+                entryPoint: 'fs_layers',
+                targets: [{
+                    format,
+                    blend: {
+                        color: { srcFactor: 'one', dstFactor: 'src-alpha', operation: 'add' },
+                        alpha: { srcFactor: 'zero', dstFactor: 'one', operation: 'add' },
+                    },
+                }],
+            },
+            primitive: { topology: 'triangle-list' },
+        });
+        this.uniformBuffer = device.createBuffer({
+            label: 'render-uniforms',
+            size: RENDER_UNIFORM_BYTES,
+            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+        });
+    }
+
+    draw(sources: RenderSources, params: RenderParams): void {
+        this.bind(sources);
+
+        this.device.queue.writeBuffer(this.uniformBuffer, 0, packRenderUniforms(
+            params.width, params.height, params.cellSize, params.states, params.display, params.speciesColors,
+        ));
+
+        const encoder = this.device.createCommandEncoder();
+        const pass = encoder.beginRenderPass({
+            colorAttachments: [{
+                view: this.context.getCurrentTexture().createView(),
+                clearValue: { r: 0, g: 0, b: 0, a: 1 },
+                loadOp: 'clear',
+                storeOp: 'store',
+            }],
+        });
+        pass.setPipeline(this.cellsPipeline);
+        pass.setBindGroup(0, this.cellsBindGroup);
+        pass.draw(3);
+        pass.setPipeline(this.layersPipeline);
+        pass.setBindGroup(0, this.layersBindGroup);
+        pass.draw(3);
+        pass.end();
+        this.device.queue.submit([encoder.finish()]);
+    }
+
+    // (re)builds the bind groups when a sampled buffer changed; GPU.resize calls it for the new
+    // buffers, draw() before every frame for the tick swaps
+    bind(sources: RenderSources): void {
+        if (this.cellsBindGroup && this.layersBindGroup && this.boundSources && sameSources(this.boundSources, sources)) return;
+        this.cellsBindGroup = this.device.createBindGroup({
+            label: 'bg-render-cells',
+            layout: this.cellsPipeline.getBindGroupLayout(0),
+            entries: [
+                { binding: 0, resource: { buffer: this.uniformBuffer } },
+                { binding: 1, resource: { buffer: sources.alive } },
+                { binding: 9, resource: { buffer: sources.species } },
+            ],
+        });
+        this.layersBindGroup = this.device.createBindGroup({
+            label: 'bg-render-layers',
+            layout: this.layersPipeline.getBindGroupLayout(0),
+            entries: [
+                { binding: 0, resource: { buffer: this.uniformBuffer } },
+                { binding: 2, resource: { buffer: sources.energy } },
+                { binding: 3, resource: { buffer: sources.deadEnergy } },
+                { binding: 4, resource: { buffer: sources.age } },
+                { binding: 5, resource: { buffer: sources.msgOut } },
+                { binding: 6, resource: { buffer: sources.inbox0 } },
+                { binding: 7, resource: { buffer: sources.energyScent } },
+                { binding: 8, resource: { buffer: sources.sourceMap } },
+            ],
+        });
+        this.boundSources = { ...sources };
+    }
+
+    destroy(): void {
+        this.uniformBuffer.destroy();
+        this.context.unconfigure();
+        this.cellsBindGroup = null;
+        this.layersBindGroup = null;
+        this.boundSources = null;
+    }
+}
+
+function sameSources(a: RenderSources, b: RenderSources): boolean {
+    return (Object.keys(a) as (keyof RenderSources)[]).every((k) => a[k] === b[k]);
+}
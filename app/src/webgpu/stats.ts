@@ -0,0 +1,47 @@
+/// <reference types="@webgpu/types" />
+import type { PopulationStats, SpeciesStats } from './types'
+import { MAX_SPECIES } from '../species'
+
+// host side of stats.wgsl: reduction sizing and decoding of the Totals struct
+
+export const STATS_WORKGROUP_SIZE = 256;
+
+// struct Totals: 7 u32 (live, births, deaths, age_max, moves_attempted, moves_succeeded, messages)
+// followed by 3 f32 (age_sum, energy, corpse)
+export const STATS_TOTALS_BYTES = 40;
+
+// struct SpeciesTotals: live, births, deaths (vec4<u32>) and energy (vec4<f32>), one lane per species
+export const SPECIES_TOTALS_BYTES = 64;
+
+// both structs are read back together, SpeciesTotals right after Totals
+export const STATS_READ_BYTES = STATS_TOTALS_BYTES + SPECIES_TOTALS_BYTES;
+
+// number of partials written by stats_partial (one per workgroup)
+export function statsWorkgroups(cells: number): number {
+    return Math.max(1, Math.ceil(cells / STATS_WORKGROUP_SIZE));
+}
+
+export function decodeTotals(bytes: ArrayBuffer): PopulationStats {
+    const u = new Uint32Array(bytes, 0, 7);
+    const f = new Float32Array(bytes, 28, 3);
+    const live = u[0];
+    const su = new Uint32Array(bytes, STATS_TOTALS_BYTES, 3 * MAX_SPECIES);
+    const sf = new Float32Array(bytes, STATS_TOTALS_BYTES + 48, MAX_SPECIES);
+    const species: SpeciesStats[] = [];
+    for (let s = 0; s < MAX_SPECIES; s++) {
+        species.push({ liveCells: su[s], births: su[MAX_SPECIES + s], deaths: su[2 * MAX_SPECIES + s], totalEnergy: sf[s] });
+    }
+    return {
+        liveCells: live,
+        births: u[1],
+        deaths: u[2],
+        maxAge: u[3],
+        movesAttempted: u[4],
+        movesSucceeded: u[5],
+        messagesSent: u[6],
+        meanAge: live > 0 ? f[0] / live : 0,
+        totalEnergy: f[1],
+        corpseEnergy: f[2],
+        species,
+    };
+}
@@ -1,14 +1,99 @@
 /// <reference types="@webgpu/types" />
+import { MAX_SPECIES } from '../species'
 
-export interface Stats {
+// population statistics of the last completed tick (stats.wgsl reduction on the GPU, stats.ts on the CPU).
+// energy, age, move and message figures are LCR-only and stay 0 in Conway mode
+export interface PopulationStats {
+    liveCells: number;
+    births: number;
+    deaths: number;
+    totalEnergy: number;        // energy held by live cells
+    corpseEnergy: number;       // dead_energy over the whole grid
+    meanAge: number;            // over live cells
+    maxAge: number;
+    movesAttempted: number;
+    movesSucceeded: number;
+    messagesSent: number;       // nonzero payloads, stage 1 and stage 3 counted separately
+    species: SpeciesStats[];    // MAX_SPECIES entries (all counted as species 0 while species are off)
+}
+
+export interface SpeciesStats {
+    liveCells: number;
+    births: number;
+    deaths: number;
+    totalEnergy: number;        // LCR only
+}
+
+export const EMPTY_SPECIES_STATS: SpeciesStats = {
+    liveCells: 0,
+    births: 0,
+    deaths: 0,
+    totalEnergy: 0,
+};
+
+export const EMPTY_POPULATION_STATS: PopulationStats = {
+    liveCells: 0,
+    births: 0,
+    deaths: 0,
+    totalEnergy: 0,
+    corpseEnergy: 0,
+    meanAge: 0,
+    maxAge: 0,
+    movesAttempted: 0,
+    movesSucceeded: 0,
+    messagesSent: 0,
+    species: Array.from({ length: MAX_SPECIES }, () => ({ ...EMPTY_SPECIES_STATS })),
+};
+
+export interface Stats extends PopulationStats {
     generation: number;
     isRunning: boolean;
     speed: number;
     width: number;
     height: number;
-    liveCells: number;
 }
 
+// per-cell state fields addressable by name (readField/writeField on GPU and CPU)
+export type FieldName =
+    | 'alive'
+    | 'energy'
+    | 'dead_energy'
+    | 'age'
+    | 'msg_out'
+    | 'inbox0'
+    | 'inbox1'
+    | 'energy_scent'
+    | 'last_pos'
+    | 'activity'
+    | 'msg_last'
+    | 'source_map'
+    | 'learned_msg_stage1'
+    | 'learned_msg_stage3'
+    | 'ppo_actions'
+    | 'agent_id'
+    | 'agent_id_mid'
+    | 'birth_parents'
+    | 'genome_move'
+    | 'genome_msg'
+    | 'genome_move_mid'
+    | 'genome_msg_mid'
+    | 'species'
+    | 'species_mid';
+
+export const FIELD_NAMES: readonly FieldName[] = [
+    'alive', 'energy', 'dead_energy', 'age',
+    'msg_out', 'inbox0', 'inbox1', 'energy_scent', 'last_pos', 'activity',
+    'msg_last', 'source_map', 'learned_msg_stage1', 'learned_msg_stage3', 'ppo_actions',
+    'agent_id', 'agent_id_mid', 'birth_parents',
+    'genome_move', 'genome_msg', 'genome_move_mid', 'genome_msg_mid',
+    'species', 'species_mid',
+];
+
+// f32 fields; everything else is u32
+export const FLOAT_FIELDS: ReadonlySet<FieldName> = new Set<FieldName>(['energy', 'dead_energy', 'source_map']);
+
+export type FieldData = Uint32Array | Float32Array;
+
 export interface Pipelines {
     msgStage1Pipeline: GPUComputePipeline;
     msgStage2Pipeline: GPUComputePipeline;
@@ -17,9 +102,24 @@ export interface Pipelines {
     moveClearPipeline: GPUComputePipeline;
     moveProposePipeline: GPUComputePipeline;
     moveApplyPipeline: GPUComputePipeline;
+    moveVacatePipeline: GPUComputePipeline;
     energyDiffusePipeline: GPUComputePipeline;
     energyPostPipeline: GPUComputePipeline;
     lifePipeline: GPUComputePipeline;
+    statsPartialPipeline: GPUComputePipeline;
+    statsFinalPipeline: GPUComputePipeline;
+    policyMsg1Pipeline: GPUComputePipeline;
+    policyMsg3Pipeline: GPUComputePipeline;
+    policyMovePipeline: GPUComputePipeline;
+    lineageMovePipeline: GPUComputePipeline;
+    lineageCountPipeline: GPUComputePipeline;
+    lineageScanPipeline: GPUComputePipeline;
+    lineageAssignPipeline: GPUComputePipeline;
+    genomeMovePipeline: GPUComputePipeline;
+    genomeInheritPipeline: GPUComputePipeline;
+    speciesMovePipeline: GPUComputePipeline;
+    speciesPartialPipeline: GPUComputePipeline;
+    speciesFinalPipeline: GPUComputePipeline;
 }
 
 
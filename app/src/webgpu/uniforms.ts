@@ -1,18 +1,15 @@
 /// <reference types="@webgpu/types" />
+import type { PhysicsParams } from '../params'
+import type { SpeciesUniforms } from '../species'
 
-export interface SimUniformParams {
+export interface SimUniformParams extends PhysicsParams, SpeciesUniforms {
     width: number;
     height: number;
     generation: number;
-    msg_k_bits: number;
-    msg_cost_milli: number;
-    msg_mode_stage1: number;
-    msg_mode_stage3: number;
-    move_cost_milli: number;
-    move_mode: number;
-    energy_leak_milli: number;
-    energy_diff_milli: number;
-    energy_decay_milli: number;
+    seed: number;               // run seed mixed into the kernel hashes (0 = unseeded hashes)
+    life_states: number;        // 2 = binary life; >2 = Generations (refractory states 2..n-1)
+    boundary: number;           // 0 torus, 1 dead border, 2 reflective (see boundary.ts)
+    neighborhood: number;       // 0 Moore, 1 von Neumann, 2 hex, 3 Moore radius 2 (see neighborhood.ts)
 }
 
 export function writeUniforms(device: GPUDevice, buffers: {
@@ -24,29 +21,83 @@ export function writeUniforms(device: GPUDevice, buffers: {
     const msgU = new Uint32Array([
         params.width, params.height, params.generation,
         params.msg_k_bits,
-        params.msg_cost_milli,
         params.msg_mode_stage1,
         params.msg_mode_stage3,
-        0,
+        params.boundary,
+        params.neighborhood, params.seed, params.species_filter, 0, 0,
+        ...params.species_msg_cost,
     ]);
     device.queue.writeBuffer(buffers.messagingUniformBuffer, 0, msgU);
 
     const moveU = new Uint32Array([
         params.width, params.height, params.generation,
-        params.move_cost_milli, params.move_mode, 0,
+        params.move_mode, params.boundary, params.neighborhood,
+        params.seed, params.msg_k_bits,
     ]);
     device.queue.writeBuffer(buffers.movementUniformBuffer, 0, moveU);
 
     const eneU = new Uint32Array([
         params.width, params.height, params.generation,
         params.energy_leak_milli, params.energy_diff_milli, params.energy_decay_milli,
+        params.boundary,
     ]);
     device.queue.writeBuffer(buffers.energyUniformBuffer, 0, eneU);
 
     const lifeU = new Uint32Array([
-        params.width, params.height, params.generation, 0,
+        params.width, params.height, params.generation,
+        params.life_states, params.boundary, params.neighborhood, params.species_counting, 0,
+        ...params.species_birth, ...params.species_survive,
     ]);
     device.queue.writeBuffer(buffers.lifeUniformBuffer, 0, lifeU);
 }
 
+// stats.wgsl: cell count, whether the tick ran the LCR passes, and the partial count
+export function writeStatsUniforms(device: GPUDevice, buffer: GPUBuffer, cells: number, lcr: boolean, groups: number): void {
+    device.queue.writeBuffer(buffer, 0, new Uint32Array([cells, lcr ? 1 : 0, groups, 0]));
+}
 
+// policy.wgsl: grid settings plus the layer widths of the loaded net (sizes padded to 8)
+export function writePolicyUniforms(device: GPUDevice, buffer: GPUBuffer, params: {
+    width: number;
+    height: number;
+    boundary: number;
+    neighborhood: number;
+    kBits: number;              // effective payload bits
+    activation: number;         // POLICY_ACTIVATION_CODES
+    sizes: number[];            // policyLayerSizes(), input to output
+}): void {
+    const u = new Uint32Array(16);
+    u.set([params.width, params.height, params.boundary, params.neighborhood, params.kBits, params.sizes.length - 1, params.activation, 0]);
+    u.set(params.sizes, 8);
+    device.queue.writeBuffer(buffer, 0, u);
+}
+
+// lineage.wgsl: grid settings and the partial count of lineage_count
+export function writeLineageUniforms(device: GPUDevice, buffer: GPUBuffer, params: {
+    width: number;
+    height: number;
+    boundary: number;
+    neighborhood: number;
+    groups: number;
+}): void {
+    device.queue.writeBuffer(buffer, 0, new Uint32Array([
+        params.width, params.height, params.boundary, params.neighborhood,
+        params.width * params.height, params.groups, 0, 0,
+    ]));
+}
+
+// genome.wgsl: grid settings, tick and seed for the hashes, and the mutation rate
+export function writeGenomeUniforms(device: GPUDevice, buffer: GPUBuffer, params: SimUniformParams): void {
+    device.queue.writeBuffer(buffer, 0, new Uint32Array([
+        params.width, params.height, params.generation, params.boundary, params.neighborhood,
+        params.seed, params.mutation_milli, 0,
+    ]));
+}
+
+// species.wgsl: grid size and the movement cost of each species
+export function writeSpeciesUniforms(device: GPUDevice, buffer: GPUBuffer, params: SimUniformParams): void {
+    device.queue.writeBuffer(buffer, 0, new Uint32Array([
+        params.width, params.height, 0, 0,
+        ...params.species_move_cost,
+    ]));
+}
@@ -0,0 +1,17 @@
+import path from "path"
+import { defineConfig } from 'vitest/config'
+
+// headless tests over the CPU reference; the kernels are resolved from the repo so the WebGPU
+// modules they pull in still import
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+      '@sim_kernels': path.resolve(__dirname, "../sim_kernels"),
+    },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+  },
+})
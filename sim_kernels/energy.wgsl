@@ -9,13 +9,14 @@ struct Uniforms {
   leak_milli: u32,     // e.g., 20 = 0.02
   diff_milli: u32,     // e.g., 300 = 0.3
   decay_milli: u32,    // corpse energy linear decay per tick, e.g., 20 = 0.02
+  boundary: u32,       // 0 torus, 1 dead border (absorbing), 2 reflective (zero-flux)
 }
 @group(0) @binding(0) var<uniform> U : Uniforms;
 
 @group(0) @binding(1) var<storage, read>      energy_src  : array<f32>;   // energy(t)
 @group(0) @binding(2) var<storage, read_write> energy_dst : array<f32>;   // energy(t+1)
 @group(0) @binding(3) var<storage, read>      source_map  : array<f32>;   // exogenous S (paintable)
-@group(0) @binding(4) var<storage, read>      alive_mid  : array<u32>;   // before Life
+@group(0) @binding(4) var<storage, read>      alive_mid  : array<u32>;   // before Life (>=2 refractory counts as dead)
 @group(0) @binding(5) var<storage, read_write> alive_next : array<u32>;   // after Life (write by Life pass)
 @group(0) @binding(6) var<storage, read_write> age_in     : array<u32>;
 @group(0) @binding(7) var<storage, read_write> age_out    : array<u32>;
@@ -23,20 +24,50 @@ struct Uniforms {
 
 // --- helpers ---
 
+// boundary modes (U.boundary): 0 torus, 1 dead border (outside reads as empty/zero),
+// 2 reflective (mirror at the edge). idx() returns OUTSIDE for cells beyond a dead border.
+const OUTSIDE: u32 = 0xFFFFFFFFu;
+
+fn reflect_coord(n: i32, size: i32) -> i32 {
+  var v = n;
+  if (v < 0) { v = -v - 1; }
+  if (v >= size) { v = 2 * size - v - 1; }
+  return clamp(v, 0, size - 1);
+}
+
 fn idx(col: i32, row: i32) -> u32 {
   let W = i32(U.width);
   let H = i32(U.height);
-  let x = ( (col % W) + W ) % W;
-  let y = ( (row % H) + H ) % H;
+  var x = col;
+  var y = row;
+  switch (U.boundary) {
+    case 1u: {
+      if (x < 0 || y < 0 || x >= W || y >= H) { return OUTSIDE; }
+    }
+    case 2u: {
+      x = reflect_coord(x, W);
+      y = reflect_coord(y, H);
+    }
+    default: {
+      x = ((x % W) + W) % W;
+      y = ((y % H) + H) % H;
+    }
+  }
   return u32(y) * U.width + u32(x);
 }
 
+// energy beyond a dead border is held at zero (absorbing edge)
+fn energy_at(E: ptr<storage, array<f32>, read>, j: u32) -> f32 {
+  if (j == OUTSIDE) { return 0.0; }
+  return (*E)[j];
+}
+
 fn laplacian(E: ptr<storage, array<f32>, read>, W: u32, H: u32, x: i32, y: i32) -> f32 {
-  let c  = (*E)[idx(x, y)];
-  let n  = (*E)[idx(x, y-1)];
-  let s  = (*E)[idx(x, y+1)];
-  let w  = (*E)[idx(x-1, y)];
-  let e  = (*E)[idx(x+1, y)];
+  let c  = energy_at(E, idx(x, y));
+  let n  = energy_at(E, idx(x, y-1));
+  let s  = energy_at(E, idx(x, y+1));
+  let w  = energy_at(E, idx(x-1, y));
+  let e  = energy_at(E, idx(x+1, y));
   return (n + s + w + e) - 4.0 * c;
 }
 
@@ -95,7 +126,7 @@ fn energy_post_life(@builtin(global_invocation_id) gid: vec3<u32>) {
     e = min(e, 1.0);
     age_out[i] = age_in[i] + 1u;
   } else {
-    // Dead: deposit remaining energy into corpse pool at this cell; no neighbor writes
+    // Dead or refractory: deposit remaining energy into corpse pool at this cell; no neighbor writes
     if (e > 0.0) {
       dead_energy[i] = dead_energy[i] + e;
     }
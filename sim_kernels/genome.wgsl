@@ -0,0 +1,195 @@
+// genome.wgsl
+// heritable per-agent genomes: two u32 words per agent (genome.ts documents the bit layout),
+// one steering movement (movement.wgsl, move_mode 2) and one messaging (messaging.wgsl,
+// msg modes 3). a genome follows its agent like agent_id does and is copied into every birth:
+//  - genome_move    (after move_vacate): genome -> genome_mid, arrivals take their source's words
+//  - genome_inherit (after lineage_count): survivors keep their words, births copy one parent
+//                   from birth_parents (picked by hash) and flip each bit with probability
+//                   mutation_milli / 1000, founders (drawn by hand, or born without an agent
+//                   parent) get hashed words; dead cells are cleared
+//
+// notes*
+//  - runs in every mode, like lineage.wgsl, so genomes are in place when a genetic mode is picked
+//  - no atomics: every cell writes only itself, both passes are order independent
+
+struct Uniforms {
+  width: u32,
+  height: u32,
+  generation: u32,      // tick
+  boundary: u32,        // 0 torus, 1 dead border, 2 reflective
+  neighborhood: u32,    // 0 Moore, 1 von Neumann, 2 hex, 3 Moore radius 2
+  seed: u32,            // run seed, mixed into rand_hash3 (0 = unseeded)
+  mutation_milli: u32,  // per-bit flip probability on birth, thousandths
+  _pad0: u32,
+}
+@group(0) @binding(0) var<uniform> U : Uniforms;
+
+@group(0) @binding(1) var<storage, read>       alive_in        : array<u32>; // before movement
+@group(0) @binding(2) var<storage, read>       alive_mid       : array<u32>; // after movement, before Life
+@group(0) @binding(3) var<storage, read>       last_pos        : array<u32>; // x(16) | y(16) of an arrival's source
+@group(0) @binding(4) var<storage, read_write> genome_move     : array<u32>; // words at tick start, rewritten at tick end
+@group(0) @binding(5) var<storage, read_write> genome_msg      : array<u32>;
+@group(0) @binding(6) var<storage, read_write> genome_move_mid : array<u32>; // words after movement
+@group(0) @binding(7) var<storage, read_write> genome_msg_mid  : array<u32>;
+@group(0) @binding(8) var<storage, read>       alive_next      : array<u32>; // after Life and energy death
+@group(0) @binding(9) var<storage, read>       agent_id_mid    : array<u32>; // 0 = drawn since the last tick
+@group(0) @binding(10) var<storage, read>      birth_parents   : array<u32>; // bit d: neighbor d was an agent before Life
+
+// boundary modes (U.boundary): 0 torus, 1 dead border (outside reads as empty/zero),
+// 2 reflective (mirror at the edge). idx() returns OUTSIDE for cells beyond a dead border.
+const OUTSIDE: u32 = 0xFFFFFFFFu;
+
+fn reflect_coord(n: i32, size: i32) -> i32 {
+  var v = n;
+  if (v < 0) { v = -v - 1; }
+  if (v >= size) { v = 2 * size - v - 1; }
+  return clamp(v, 0, size - 1);
+}
+
+fn idx(col: i32, row: i32) -> u32 {
+  let W = i32(U.width);
+  let H = i32(U.height);
+  var x = col;
+  var y = row;
+  switch (U.boundary) {
+    case 1u: {
+      if (x < 0 || y < 0 || x >= W || y >= H) { return OUTSIDE; }
+    }
+    case 2u: {
+      x = reflect_coord(x, W);
+      y = reflect_coord(y, H);
+    }
+    default: {
+      x = ((x % W) + W) % W;
+      y = ((y % H) + H) % H;
+    }
+  }
+  return u32(y) * U.width + u32(x);
+}
+
+// neighborhoods (U.neighborhood): 0 Moore (8), 1 von Neumann (4), 2 hex (6, odd-r offset rows:
+// odd rows sit half a cell right), 3 Moore radius 2 (24). direction d is bit d of birth_parents
+fn neighbor_dir(d: u32, row: i32) -> vec2<i32> {
+  switch (U.neighborhood) {
+    case 1u: {
+      // d = 0..3: n, w, e, s
+      switch (d) {
+        case 0u: { return vec2<i32>( 0, -1); }
+        case 1u: { return vec2<i32>(-1,  0); }
+        case 2u: { return vec2<i32>( 1,  0); }
+        default: { return vec2<i32>( 0,  1); }
+      }
+    }
+    case 2u: {
+      // d = 0..5: nw, ne, w, e, sw, se
+      let s = row & 1;
+      switch (d) {
+        case 0u: { return vec2<i32>(s - 1, -1); }
+        case 1u: { return vec2<i32>(s,     -1); }
+        case 2u: { return vec2<i32>(-1,     0); }
+        case 3u: { return vec2<i32>( 1,     0); }
+        case 4u: { return vec2<i32>(s - 1,  1); }
+        default: { return vec2<i32>(s,      1); }
+      }
+    }
+    case 3u: {
+      // d = 0..23: 5x5 block minus the center, row-major
+      let k = i32(select(d + 1u, d, d < 12u));
+      return vec2<i32>(k % 5 - 2, k / 5 - 2);
+    }
+    default: {
+      // d = 0..7: nw, n, ne, w, e, sw, s, se
+      let k = i32(select(d + 1u, d, d < 4u));
+      return vec2<i32>(k % 3 - 1, k / 3 - 1);
+    }
+  }
+}
+
+// same mix as movement.wgsl
+fn rand_hash3(x: u32, y: u32, t: u32) -> u32 {
+  var h = x * 374761393u + y * 668265263u + t * 2246822519u + U.seed * 3266489917u;
+  h ^= (h >> 13u);
+  h *= 1274126177u;
+  return h ^ (h >> 16u);
+}
+
+// position of the r-th set bit of mask (r < countOneBits(mask))
+fn nth_set_bit(mask: u32, r: u32) -> u32 {
+  var left = r;
+  for (var d = 0u; d < 32u; d++) {
+    if ((mask & (1u << d)) == 0u) { continue; }
+    if (left == 0u) { return d; }
+    left = left - 1u;
+  }
+  return 0u;
+}
+
+// hashed words for an agent without parents; word 0 movement, 1 messaging (genome.ts founderGenome)
+fn founder_word(x: u32, y: u32, word: u32) -> u32 {
+  return rand_hash3(x ^ 0x27d4eb2fu, y ^ (0x165667b1u + word), U.generation);
+}
+
+// flip each bit with probability mutation_milli / 1000, one hash per bit
+fn mutate(w: u32, x: u32, y: u32, word: u32) -> u32 {
+  var out = w;
+  if (U.mutation_milli == 0u) { return out; }
+  for (var b = 0u; b < 32u; b++) {
+    let h = rand_hash3(x ^ 0x61c88647u, y ^ (word * 32u + b), U.generation);
+    if (h % 1000u < U.mutation_milli) { out = out ^ (1u << b); }
+  }
+  return out;
+}
+
+// --- entry points ---
+
+@compute @workgroup_size(16,16)
+fn genome_move(@builtin(global_invocation_id) gid: vec3<u32>) {
+  if (gid.x >= U.width || gid.y >= U.height) { return; }
+  let i = gid.y * U.width + gid.x;
+  var src = OUTSIDE;
+  if (alive_mid[i] == 1u) {
+    if (alive_in[i] == 0u) {
+      // arrival: move_apply recorded the winning source in last_pos
+      let p = last_pos[i];
+      src = (p >> 16u) * U.width + (p & 0xFFFFu);
+    } else {
+      src = i;
+    }
+  }
+  if (src == OUTSIDE) {
+    genome_move_mid[i] = 0u;
+    genome_msg_mid[i] = 0u;
+  } else {
+    genome_move_mid[i] = genome_move[src];
+    genome_msg_mid[i] = genome_msg[src];
+  }
+}
+
+@compute @workgroup_size(16,16)
+fn genome_inherit(@builtin(global_invocation_id) gid: vec3<u32>) {
+  if (gid.x >= U.width || gid.y >= U.height) { return; }
+  let i = gid.y * U.width + gid.x;
+  if (alive_next[i] != 1u) {
+    genome_move[i] = 0u;
+    genome_msg[i] = 0u;
+    return;
+  }
+  if (alive_mid[i] == 1u && agent_id_mid[i] != 0u) {
+    // survivor
+    genome_move[i] = genome_move_mid[i];
+    genome_msg[i] = genome_msg_mid[i];
+    return;
+  }
+  let mask = select(0u, birth_parents[i], alive_mid[i] != 1u);
+  if (mask == 0u) {
+    genome_move[i] = founder_word(gid.x, gid.y, 0u);
+    genome_msg[i] = founder_word(gid.x, gid.y, 1u);
+    return;
+  }
+  let h = rand_hash3(gid.x ^ 0x3c6ef372u, gid.y ^ 0xa54ff53au, U.generation);
+  let d = nth_set_bit(mask, h % countOneBits(mask));
+  let off = neighbor_dir(d, i32(gid.y));
+  let p = idx(i32(gid.x) + off.x, i32(gid.y) + off.y);
+  genome_move[i] = mutate(genome_move_mid[p], gid.x, gid.y, 0u);
+  genome_msg[i] = mutate(genome_msg_mid[p], gid.x, gid.y, 1u);
+}
@@ -1,39 +1,137 @@
-// standard Conway's Game of Life compute shader
+// life-like (outer-totalistic B/S) compute shader, Conway B3/S23 by default
+// neighbor counts run 0..24 (Moore radius 2), so the B/S masks use bits 0..24
 // each invocation processes one grid cell
+// species (species.ts): each species has its own B/S masks (the state count is shared). a live
+// cell uses its species' survive mask; an empty cell is born into the species with most live
+// neighbors (lowest index on ties) under that species' birth mask. counting 1 counts only
+// neighbors of that species, 0 all of them
 
-// grid dimensions uniforms
+// grid dimensions + rule uniforms
 struct Uniforms{
     width: u32,
     height: u32,
     generation: u32,
-    _padding: u32,
+    states: u32,       // 2 = binary; >2 = Generations, states 2..states-1 are refractory
+    boundary: u32,     // 0 torus, 1 dead border, 2 reflective
+    neighborhood: u32, // 0 Moore, 1 von Neumann, 2 hex, 3 Moore radius 2
+    counting: u32,     // 0 all live neighbors, 1 same species only
+    _pad0: u32,
+    birth: vec4<u32>,   // per species, bit n set: dead cell with n live neighbors is born
+    survive: vec4<u32>, // per species, bit n set: live cell with n live neighbors survives
 }
 
 @group(0) @binding(2) var<uniform> U: Uniforms;
 
-@group(0) @binding(0) var<storage, read> alive_mid: array<u32>; // after movement pass
+@group(0) @binding(0) var<storage, read> alive_mid: array<u32>; // after movement pass (0 dead, 1 alive, >=2 refractory)
 @group(0) @binding(1) var<storage, read_write> alive_next: array<u32>; // for energy post-life pass
+@group(0) @binding(3) var<storage, read> species_mid: array<u32>; // after movement (species.wgsl)
+// species of every cell that held an agent before Life or gets one from it, 0 elsewhere
+@group(0) @binding(4) var<storage, read_write> species: array<u32>;
+
+const MAX_SPECIES: u32 = 4u;
+
+// boundary modes (U.boundary): 0 torus, 1 dead border (outside reads as empty/zero),
+// 2 reflective (mirror at the edge). idx() returns OUTSIDE for cells beyond a dead border.
+const OUTSIDE: u32 = 0xFFFFFFFFu;
+
+fn reflect_coord(n: i32, size: i32) -> i32 {
+    var v = n;
+    if (v < 0) { v = -v - 1; }
+    if (v >= size) { v = 2 * size - v - 1; }
+    return clamp(v, 0, size - 1);
+}
 
 fn idx(col: i32, row: i32) -> u32 {
-    // get index with toroidal wrapping
     let W = i32(U.width);
     let H = i32(U.height);
-    let x = ( (col % W) + W ) % W;
-    let y = ( (row % H) + H ) % H;
+    var x = col;
+    var y = row;
+    switch (U.boundary) {
+      case 1u: {
+        if (x < 0 || y < 0 || x >= W || y >= H) { return OUTSIDE; }
+      }
+      case 2u: {
+        x = reflect_coord(x, W);
+        y = reflect_coord(y, H);
+      }
+      default: {
+        x = ((x % W) + W) % W;
+        y = ((y % H) + H) % H;
+      }
+    }
     return u32(y) * U.width + u32(x);
 }
 
+// neighborhoods (U.neighborhood): 0 Moore (8), 1 von Neumann (4), 2 hex (6, odd-r offset rows:
+// odd rows sit half a cell right), 3 Moore radius 2 (24, Larger than Life counts)
 
-// count live neighbors (Moore neighborhood)
-fn count_neighbors(x: i32, y: i32) -> u32 {
-    var count = 0u;
-  for (var dy: i32 = -1; dy <= 1; dy = dy + 1) {
-    for (var dx: i32 = -1; dx <= 1; dx = dx + 1) {
-      if (dx == 0 && dy == 0) { continue; }
-      count += alive_mid[idx(x + dx, y + dy)];
+fn neighbor_count() -> u32 {
+    switch (U.neighborhood) {
+        case 1u: { return 4u; }
+        case 2u: { return 6u; }
+        case 3u: { return 24u; }
+        default: { return 8u; }
+    }
+}
+
+// offset of direction d for a cell in `row` (hex offsets depend on row parity)
+fn neighbor_dir(d: u32, row: i32) -> vec2<i32> {
+    switch (U.neighborhood) {
+        case 1u: {
+            // d = 0..3: n, w, e, s
+            switch (d) {
+                case 0u: { return vec2<i32>( 0, -1); }
+                case 1u: { return vec2<i32>(-1,  0); }
+                case 2u: { return vec2<i32>( 1,  0); }
+                default: { return vec2<i32>( 0,  1); }
+            }
+        }
+        case 2u: {
+            // d = 0..5: nw, ne, w, e, sw, se
+            let s = row & 1;
+            switch (d) {
+                case 0u: { return vec2<i32>(s - 1, -1); }
+                case 1u: { return vec2<i32>(s,     -1); }
+                case 2u: { return vec2<i32>(-1,     0); }
+                case 3u: { return vec2<i32>( 1,     0); }
+                case 4u: { return vec2<i32>(s - 1,  1); }
+                default: { return vec2<i32>(s,      1); }
+            }
+        }
+        case 3u: {
+            // d = 0..23: 5x5 block minus the center, row-major
+            let k = i32(select(d + 1u, d, d < 12u));
+            return vec2<i32>(k % 5 - 2, k / 5 - 2);
+        }
+        default: {
+            // d = 0..7: nw, n, ne, w, e, sw, s, se
+            let k = i32(select(d + 1u, d, d < 4u));
+            return vec2<i32>(k % 3 - 1, k / 3 - 1);
+        }
     }
-  }
-  return count;
+}
+
+// count live neighbors over the neighborhood, per species; refractory cells do not count
+fn count_neighbors(x: i32, y: i32) -> vec4<u32> {
+    var count = vec4<u32>(0u);
+    for (var d: u32 = 0u; d < neighbor_count(); d = d + 1u) {
+        let off = neighbor_dir(d, y);
+        let j = idx(x + off.x, y + off.y);
+        if (j != OUTSIDE && alive_mid[j] == 1u) {
+            let s = min(species_mid[j], MAX_SPECIES - 1u);
+            count[s] += 1u;
+        }
+    }
+    return count;
+}
+
+// species with most live neighbors, lowest index on ties
+fn dominant_species(count: vec4<u32>) -> u32 {
+    var best = 0u;
+    for (var s: u32 = 1u; s < MAX_SPECIES; s = s + 1u) {
+        if (count[s] > count[best]) { best = s; }
+    }
+    return best;
 }
 
 @compute @workgroup_size(16, 16)
@@ -43,15 +141,23 @@ fn main(@builtin(global_invocation_id) gid: vec3<u32>) {
   let i = gid.y * U.width + gid.x;
 
   let current = alive_mid[i]; // current state
-  let neighbors = count_neighbors(x, y); // count live neighbors
-  
+  let count = count_neighbors(x, y); // live neighbors per species
+
   var next: u32 = 0u;
-  // apply Conway's Game of Life rules
-  if (current == 1u) {
-    if (neighbors == 2u || neighbors == 3u) { next = 1u; }
+  var s: u32 = 0u;
+  if (current >= 2u) {
+    // refractory: advance one state, back to dead after the last one
+    if (current + 1u < U.states) { next = current + 1u; }
   } else {
-    if (neighbors == 3u) { next = 1u; }
+    s = select(dominant_species(count), min(species_mid[i], MAX_SPECIES - 1u), current == 1u);
+    let neighbors = select(count.x + count.y + count.z + count.w, count[s], U.counting == 1u);
+    // apply the B/S rule: look up the neighbor count in the birth or survival mask
+    let mask = select(U.birth[s], U.survive[s], current == 1u);
+    if (neighbors < 32u) { next = (mask >> neighbors) & 1u; }
+    // a live cell that fails to survive starts dying (Generations) instead of vanishing
+    if (current == 1u && next == 0u && U.states > 2u) { next = 2u; }
   }
-  
+
   alive_next[i] = next;
+  species[i] = select(0u, s, current == 1u || next == 1u);
 }
\ No newline at end of file
@@ -0,0 +1,209 @@
+// lineage.wgsl
+// stable agent identities: agent_id holds a nonzero id per live agent (0 = none) that follows
+// the agent through moves, and every birth gets a fresh id. ids are handed out in row-major
+// order from a single counter, so they do not depend on invocation order and match the CPU
+// reference exactly:
+//  - lineage_move   (after move_apply): agent_id -> agent_id_mid, arrivals take their source's id
+//  - lineage_count  (after energy_post_life): flag cells that need an id, record birth parents,
+//                   count flags per 256-cell workgroup into partials
+//  - lineage_scan   (one invocation): partials -> first id per workgroup, advance the counter
+//  - lineage_assign (per 256 cells): agent_id = fresh id, mid id for survivors, 0 otherwise
+//
+// a cell needs an id when it is alive after the tick and either was born (not an agent before
+// Life) or had none (drawn by hand since the last tick: a founder with no parents).
+// birth_parents keeps bit d set when neighbor d was an agent before Life; with agent_id_mid it
+// names the parents (read back for the lineage log)
+
+struct Uniforms {
+  width: u32,
+  height: u32,
+  boundary: u32,       // 0 torus, 1 dead border, 2 reflective
+  neighborhood: u32,   // 0 Moore, 1 von Neumann, 2 hex, 3 Moore radius 2
+  cells: u32,
+  num_groups: u32,     // partials written by lineage_count
+  _pad0: u32,
+  _pad1: u32,
+}
+@group(0) @binding(0) var<uniform> U : Uniforms;
+
+@group(0) @binding(1) var<storage, read>       alive_in      : array<u32>; // before movement
+@group(0) @binding(2) var<storage, read>       alive_mid     : array<u32>; // after movement, before Life
+@group(0) @binding(3) var<storage, read>       last_pos      : array<u32>; // x(16) | y(16) of an arrival's source
+@group(0) @binding(4) var<storage, read_write> agent_id      : array<u32>; // ids at tick start, rewritten at tick end
+@group(0) @binding(5) var<storage, read_write> agent_id_mid  : array<u32>; // ids after movement
+@group(0) @binding(6) var<storage, read>       alive_next    : array<u32>; // after Life and energy death
+@group(0) @binding(7) var<storage, read_write> birth_parents : array<u32>;
+@group(0) @binding(8) var<storage, read_write> partials      : array<u32>; // flag counts, then first ids
+@group(0) @binding(9) var<storage, read_write> next_id       : array<u32>; // [0]: next id to hand out
+
+const WG: u32 = 256u;
+
+// boundary modes (U.boundary): 0 torus, 1 dead border (outside reads as empty/zero),
+// 2 reflective (mirror at the edge). idx() returns OUTSIDE for cells beyond a dead border.
+const OUTSIDE: u32 = 0xFFFFFFFFu;
+
+fn reflect_coord(n: i32, size: i32) -> i32 {
+  var v = n;
+  if (v < 0) { v = -v - 1; }
+  if (v >= size) { v = 2 * size - v - 1; }
+  return clamp(v, 0, size - 1);
+}
+
+fn idx(col: i32, row: i32) -> u32 {
+  let W = i32(U.width);
+  let H = i32(U.height);
+  var x = col;
+  var y = row;
+  switch (U.boundary) {
+    case 1u: {
+      if (x < 0 || y < 0 || x >= W || y >= H) { return OUTSIDE; }
+    }
+    case 2u: {
+      x = reflect_coord(x, W);
+      y = reflect_coord(y, H);
+    }
+    default: {
+      x = ((x % W) + W) % W;
+      y = ((y % H) + H) % H;
+    }
+  }
+  return u32(y) * U.width + u32(x);
+}
+
+// neighborhoods (U.neighborhood): 0 Moore (8), 1 von Neumann (4), 2 hex (6, odd-r offset rows:
+// odd rows sit half a cell right), 3 Moore radius 2 (24). direction d is bit d of birth_parents
+fn neighbor_count() -> u32 {
+  switch (U.neighborhood) {
+    case 1u: { return 4u; }
+    case 2u: { return 6u; }
+    case 3u: { return 24u; }
+    default: { return 8u; }
+  }
+}
+
+// offset of direction d for a cell in `row` (hex offsets depend on row parity)
+fn neighbor_dir(d: u32, row: i32) -> vec2<i32> {
+  switch (U.neighborhood) {
+    case 1u: {
+      // d = 0..3: n, w, e, s
+      switch (d) {
+        case 0u: { return vec2<i32>( 0, -1); }
+        case 1u: { return vec2<i32>(-1,  0); }
+        case 2u: { return vec2<i32>( 1,  0); }
+        default: { return vec2<i32>( 0,  1); }
+      }
+    }
+    case 2u: {
+      // d = 0..5: nw, ne, w, e, sw, se
+      let s = row & 1;
+      switch (d) {
+        case 0u: { return vec2<i32>(s - 1, -1); }
+        case 1u: { return vec2<i32>(s,     -1); }
+        case 2u: { return vec2<i32>(-1,     0); }
+        case 3u: { return vec2<i32>( 1,     0); }
+        case 4u: { return vec2<i32>(s - 1,  1); }
+        default: { return vec2<i32>(s,      1); }
+      }
+    }
+    case 3u: {
+      // d = 0..23: 5x5 block minus the center, row-major
+      let k = i32(select(d + 1u, d, d < 12u));
+      return vec2<i32>(k % 5 - 2, k / 5 - 2);
+    }
+    default: {
+      // d = 0..7: nw, n, ne, w, e, sw, s, se
+      let k = i32(select(d + 1u, d, d < 4u));
+      return vec2<i32>(k % 3 - 1, k / 3 - 1);
+    }
+  }
+}
+
+fn needs_id(i: u32) -> bool {
+  return alive_next[i] == 1u && (alive_mid[i] != 1u || agent_id_mid[i] == 0u);
+}
+
+// --- entry points ---
+
+@compute @workgroup_size(16,16)
+fn lineage_move(@builtin(global_invocation_id) gid: vec3<u32>) {
+  if (gid.x >= U.width || gid.y >= U.height) { return; }
+  let i = gid.y * U.width + gid.x;
+  var id = 0u;
+  if (alive_mid[i] == 1u) {
+    if (alive_in[i] == 0u) {
+      // arrival: move_apply recorded the winning source in last_pos
+      let p = last_pos[i];
+      id = agent_id[(p >> 16u) * U.width + (p & 0xFFFFu)];
+    } else {
+      id = agent_id[i];
+    }
+  }
+  agent_id_mid[i] = id;
+}
+
+var<workgroup> flags : array<u32, WG>;
+
+@compute @workgroup_size(256)
+fn lineage_count(
+  @builtin(global_invocation_id) gid: vec3<u32>,
+  @builtin(local_invocation_id) lid: vec3<u32>,
+  @builtin(workgroup_id) wid: vec3<u32>,
+) {
+  let i = gid.x;
+  var flag = 0u;
+  if (i < U.cells) {
+    var mask = 0u;
+    if (alive_next[i] == 1u && alive_mid[i] != 1u) {
+      let x = i32(i % U.width);
+      let y = i32(i / U.width);
+      for (var d = 0u; d < neighbor_count(); d++) {
+        let off = neighbor_dir(d, y);
+        let j = idx(x + off.x, y + off.y);
+        if (j != OUTSIDE && alive_mid[j] == 1u) { mask = mask | (1u << d); }
+      }
+    }
+    birth_parents[i] = mask;
+    flag = select(0u, 1u, needs_id(i));
+  }
+  flags[lid.x] = flag;
+  workgroupBarrier();
+  if (lid.x == 0u) {
+    var n = 0u;
+    for (var k = 0u; k < WG; k++) { n = n + flags[k]; }
+    partials[wid.x] = n;
+  }
+}
+
+// exclusive prefix sum of the per-workgroup counts, offset by the counter
+@compute @workgroup_size(1)
+fn lineage_scan() {
+  var id = next_id[0];
+  for (var g = 0u; g < U.num_groups; g++) {
+    let n = partials[g];
+    partials[g] = id;
+    id = id + n;
+  }
+  next_id[0] = id;
+}
+
+@compute @workgroup_size(256)
+fn lineage_assign(
+  @builtin(global_invocation_id) gid: vec3<u32>,
+  @builtin(local_invocation_id) lid: vec3<u32>,
+  @builtin(workgroup_id) wid: vec3<u32>,
+) {
+  let i = gid.x;
+  let flag = i < U.cells && needs_id(i);
+  flags[lid.x] = select(0u, 1u, flag);
+  workgroupBarrier();
+  if (i >= U.cells) { return; }
+  if (flag) {
+    var rank = 0u;
+    for (var k = 0u; k < lid.x; k++) { rank = rank + flags[k]; }
+    agent_id[i] = partials[wid.x] + rank;
+  } else if (alive_next[i] == 1u) {
+    agent_id[i] = agent_id_mid[i];
+  } else {
+    agent_id[i] = 0u;
+  }
+}
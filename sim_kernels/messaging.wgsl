@@ -1,34 +1,43 @@
 // messaging.wgsl
 // messaging + neighborhood sensing between cells
 //  - stage 1 (broadcast): emit k-bit payload (default: 0), optional learned/debug
-//  - stage 2 (receive): gather 8 neighbor payloads into packed inbox0; compute energy scent mask
+//  - stage 2 (receive): gather neighbor payloads into packed inbox0; compute energy scent mask
 //  - stage 3 (respond): optional second transmit (default: 0), optional learned/debug; build inbox1
 //
 // notes* 
-//  - charge energy per set bit (countOneBits) when payload != 0 (learned modes)
-//  - k in [1..4]; start with k=2
-//  - modes: 0=silent, 1=debug-hash (no cost), 2=learned (read from buffers)
+//  - charge energy per set bit (countOneBits) when payload != 0 (learned modes), at the sender's
+//    species cost (species.ts; every entry is msg_cost_milli while species are off)
+//  - filter_species: a receiver only hears neighbors of its own species, others read as silent
+//  - k in [1..4]; start with k=2. capped to 32 / neighbor_count() so the inbox fits a u32
+//    (Moore radius 2 has 24 neighbors and always uses k=1)
+//  - modes: 0=silent, 1=debug-hash (no cost), 2=learned (read from buffers), 3=genetic (decoded
+//    from each agent's genome, see genome.ts; charged like learned)
 
 struct Uniforms {
   width: u32,
   height: u32,
   generation: u32,      // tick (seed for debug hash)
   k_bits: u32,          // 1..4
-  cost_msg_milli: u32,  // e.g., 50 => 0.05 per bit
-  mode_stage1: u32,     // 0 silent, 1 debug, 2 learned
-  mode_stage3: u32,     // 0 silent, 1 debug, 2 learned
+  mode_stage1: u32,     // 0 silent, 1 debug, 2 learned, 3 genetic
+  mode_stage3: u32,     // 0 silent, 1 debug, 2 learned, 3 genetic
+  boundary: u32,        // 0 torus, 1 dead border, 2 reflective
+  neighborhood: u32,    // 0 Moore, 1 von Neumann, 2 hex, 3 Moore radius 2
+  seed: u32,            // run seed, mixed into hash3 (0 = unseeded)
+  filter_species: u32,  // 1: inboxes only hear the receiver's species
   _pad0: u32,
+  _pad1: u32,
+  msg_cost: vec4<u32>,  // per species, e.g., 50 => 0.05 per bit
 }
 @group(0) @binding(0) var<uniform> U : Uniforms;
 
 // core fields 
-@group(0) @binding(1) var<storage, read>        alive_in     : array<u32>;  // 0/1
+@group(0) @binding(1) var<storage, read>        alive_in     : array<u32>;  // 1 = agent; 0 dead, >=2 refractory
 @group(0) @binding(2) var<storage, read_write>  energy       : array<f32>;  // >=0
 @group(0) @binding(3) var<storage, read_write>  msg_out      : array<u32>;  // low k bits used
 @group(0) @binding(4) var<storage, read_write>  msg_last     : array<u32>;  // memory of last payload
-@group(0) @binding(5) var<storage, read_write>  inbox0       : array<u32>;  // packed 8*k bits
-@group(0) @binding(6) var<storage, read_write>  inbox1       : array<u32>;  // packed 8*k bits (responses)
-@group(0) @binding(7) var<storage, read_write>  energy_scent : array<u32>;  // 8-bit mask: bit d set if neighbor d has corpse E>0
+@group(0) @binding(5) var<storage, read_write>  inbox0       : array<u32>;  // packed n*k bits, slot d = direction d
+@group(0) @binding(6) var<storage, read_write>  inbox1       : array<u32>;  // packed n*k bits (responses)
+@group(0) @binding(7) var<storage, read_write>  energy_scent : array<u32>;  // n-bit mask: bit d set if neighbor d has corpse E>0
 
 // optional learned-message input buffers (one u32 per cell, low k bits are payload)
 @group(0) @binding(8) var<storage, read>        learned_msg_stage1 : array<u32>;
@@ -37,54 +46,144 @@ struct Uniforms {
 // corpse energy (maintained by energy.wgsl). Used here only for energy scent in stage 2.
 @group(0) @binding(10) var<storage, read>       dead_energy  : array<f32>;
 
+// per-cell activity flags for the stats pass, rewritten from scratch by stage 1 every tick
+// (bit 0: sent in stage 1, bit 1: sent in stage 3; movement.wgsl owns bits 2-3)
+@group(0) @binding(11) var<storage, read_write> activity     : array<u32>;
+
+// messaging word of each agent's genome (genome.wgsl), read in genetic mode
+@group(0) @binding(12) var<storage, read>       genome_msg   : array<u32>;
+
+// species of each agent (species.wgsl), for its message cost and the species filter
+@group(0) @binding(13) var<storage, read>       species      : array<u32>;
+
 // ----- helpers -----
 
+// boundary modes (U.boundary): 0 torus, 1 dead border (outside reads as empty/zero),
+// 2 reflective (mirror at the edge). idx() returns OUTSIDE for cells beyond a dead border.
+const OUTSIDE: u32 = 0xFFFFFFFFu;
+
+fn reflect_coord(n: i32, size: i32) -> i32 {
+  var v = n;
+  if (v < 0) { v = -v - 1; }
+  if (v >= size) { v = 2 * size - v - 1; }
+  return clamp(v, 0, size - 1);
+}
+
 fn idx(col: i32, row: i32) -> u32 {
   let W = i32(U.width);
   let H = i32(U.height);
-  let x = ((col % W) + W) % W;
-  let y = ((row % H) + H) % H;
+  var x = col;
+  var y = row;
+  switch (U.boundary) {
+    case 1u: {
+      if (x < 0 || y < 0 || x >= W || y >= H) { return OUTSIDE; }
+    }
+    case 2u: {
+      x = reflect_coord(x, W);
+      y = reflect_coord(y, H);
+    }
+    default: {
+      x = ((x % W) + W) % W;
+      y = ((y % H) + H) % H;
+    }
+  }
   return u32(y) * U.width + u32(x);
 }
 
-fn moore_dir(d: u32) -> vec2<i32> {
-  // d = 0..7: nw, n, ne, w, e, sw, s, se
-  switch(d) {
-    case 0u: { return vec2<i32>(-1, -1); }
-    case 1u: { return vec2<i32>( 0, -1); }
-    case 2u: { return vec2<i32>( 1, -1); }
-    case 3u: { return vec2<i32>(-1,  0); }
-    case 4u: { return vec2<i32>( 1,  0); }
-    case 5u: { return vec2<i32>(-1,  1); }
-    case 6u: { return vec2<i32>( 0,  1); }
-    default: { return vec2<i32>( 1,  1); }
+// neighborhoods (U.neighborhood): 0 Moore (8), 1 von Neumann (4), 2 hex (6, odd-r offset rows:
+// odd rows sit half a cell right), 3 Moore radius 2 (24). direction d is also the scent bit,
+// the inbox slot and the ppo action; action neighbor_count() = stay
+const MAX_NEIGHBORS: u32 = 24u;
+
+fn neighbor_count() -> u32 {
+  switch (U.neighborhood) {
+    case 1u: { return 4u; }
+    case 2u: { return 6u; }
+    case 3u: { return 24u; }
+    default: { return 8u; }
+  }
+}
+
+// offset of direction d for a cell in `row` (hex offsets depend on row parity)
+fn neighbor_dir(d: u32, row: i32) -> vec2<i32> {
+  switch (U.neighborhood) {
+    case 1u: {
+      // d = 0..3: n, w, e, s
+      switch (d) {
+        case 0u: { return vec2<i32>( 0, -1); }
+        case 1u: { return vec2<i32>(-1,  0); }
+        case 2u: { return vec2<i32>( 1,  0); }
+        default: { return vec2<i32>( 0,  1); }
+      }
+    }
+    case 2u: {
+      // d = 0..5: nw, ne, w, e, sw, se
+      let s = row & 1;
+      switch (d) {
+        case 0u: { return vec2<i32>(s - 1, -1); }
+        case 1u: { return vec2<i32>(s,     -1); }
+        case 2u: { return vec2<i32>(-1,     0); }
+        case 3u: { return vec2<i32>( 1,     0); }
+        case 4u: { return vec2<i32>(s - 1,  1); }
+        default: { return vec2<i32>(s,      1); }
+      }
+    }
+    case 3u: {
+      // d = 0..23: 5x5 block minus the center, row-major
+      let k = i32(select(d + 1u, d, d < 12u));
+      return vec2<i32>(k % 5 - 2, k / 5 - 2);
+    }
+    default: {
+      // d = 0..7: nw, n, ne, w, e, sw, s, se
+      let k = i32(select(d + 1u, d, d < 4u));
+      return vec2<i32>(k % 3 - 1, k / 3 - 1);
+    }
   }
 }
 
+// bits per payload actually used
+fn k_bits() -> u32 {
+  return min(U.k_bits, 32u / neighbor_count());
+}
+
 fn mask_k() -> u32 {
-  return (1u << U.k_bits) - 1u;
+  return (1u << k_bits()) - 1u;
+}
+
+const MAX_SPECIES: u32 = 4u;
+
+fn species_at(i: u32) -> u32 {
+  return min(species[i], MAX_SPECIES - 1u);
+}
+
+// payload of neighbor j as heard at cell i; silent beyond a dead border and, with the species
+// filter, from other species
+fn msg_at(i: u32, j: u32) -> u32 {
+  if (j == OUTSIDE) { return 0u; }
+  if (U.filter_species == 1u && species[j] != species[i]) { return 0u; }
+  return msg_out[j] & mask_k();
 }
 
 fn hash3(x: u32, y: u32, t: u32) -> u32 {
-  // simple 3-input mix for debug mode
-  var h = (x * 374761393u) ^ (y * 668265263u) ^ (t * 2246822519u);
+  // simple 3-input mix for debug mode, salted with the run seed
+  var h = (x * 374761393u) ^ (y * 668265263u) ^ (t * 2246822519u) ^ (U.seed * 3266489917u);
   h ^= (h >> 13u); h *= 1274126177u; h ^= (h >> 16u);
   return h;
 }
 
-// pack/unpack 8 neighbor payloads (each k bits) into u32
-fn pack_inbox(bits: array<u32,8>) -> u32 {
+// pack/unpack neighbor payloads (each k bits) into u32
+fn pack_inbox(bits: array<u32, MAX_NEIGHBORS>) -> u32 {
   var acc: u32 = 0u;
-  let k = U.k_bits;
+  let k = k_bits();
   let m = mask_k();
-  for (var d: u32 = 0u; d < 8u; d = d + 1u) {
+  for (var d: u32 = 0u; d < neighbor_count(); d = d + 1u) {
     acc = acc | ((bits[d] & m) << (d * k));
   }
   return acc;
 }
 
 fn unpack_dir(inbox: u32, dir: u32) -> u32 {
-  let k = U.k_bits;
+  let k = k_bits();
   return (inbox >> (dir * k)) & mask_k();
 }
 
@@ -92,7 +191,7 @@ fn unpack_dir(inbox: u32, dir: u32) -> u32 {
 fn charge_for_payload(i: u32, payload: u32) {
   if (payload == 0u) { return; }
   let ones = f32(countOneBits(payload & mask_k()));
-  let cost = ones * (f32(U.cost_msg_milli) * 0.001);
+  let cost = ones * (f32(U.msg_cost[species_at(i)]) * 0.001);
   energy[i] = max(0.0, energy[i] - cost);
 }
 
@@ -105,8 +204,9 @@ fn msg_stage1_broadcast(@builtin(global_invocation_id) gid: vec3<u32>) {
   if (gid.x >= U.width || gid.y >= U.height) { return; }
   let i = gid.y * U.width + gid.x;
 
-  if (alive_in[i] == 0u) {
+  if (alive_in[i] != 1u) {
     msg_out[i] = 0u;
+    activity[i] = 0u;
     // msg_last unchanged on death here; can zero it elsewhere 
     return;
   }
@@ -121,21 +221,25 @@ fn msg_stage1_broadcast(@builtin(global_invocation_id) gid: vec3<u32>) {
       let h = hash3(gid.x, gid.y, U.generation);
       payload = h & mask_k();
     }
+    case 3u: { // genetic: broadcast payload bits of the genome
+      payload = genome_msg[i] & mask_k();
+    }
     default: { // 2 = learned (read from buffer)
       payload = learned_msg_stage1[i] & mask_k();
     }
   }
 
   // charge energy only if payload != 0 and NOT in debug mode
-  if (U.mode_stage1 == 2u) {
+  if (U.mode_stage1 >= 2u) {
     charge_for_payload(i, payload);
   }
 
   msg_out[i]  = payload;
   msg_last[i] = payload; // keep latest sent
+  activity[i] = select(0u, 1u, payload != 0u);
 }
 
-// stage 2: receive + energy scent (8-bit neighbor mask)
+// stage 2: receive + energy scent (n-bit neighbor mask)
 
 @compute @workgroup_size(16,16)
 fn msg_stage2_receive(@builtin(global_invocation_id) gid: vec3<u32>) {
@@ -143,21 +247,21 @@ fn msg_stage2_receive(@builtin(global_invocation_id) gid: vec3<u32>) {
   let x = i32(gid.x); let y = i32(gid.y);
   let i = gid.y * U.width + gid.x;
 
-  // gather 8 neighbor payloads from msg_out
-  var neigh: array<u32,8>;
-  for (var d: u32 = 0u; d < 8u; d = d + 1u) {
-    let off = moore_dir(d);
+  // gather neighbor payloads from msg_out
+  var neigh: array<u32, MAX_NEIGHBORS>;
+  for (var d: u32 = 0u; d < neighbor_count(); d = d + 1u) {
+    let off = neighbor_dir(d, y);
     let j = idx(x + off.x, y + off.y);
-    neigh[d] = msg_out[j] & mask_k();
+    neigh[d] = msg_at(i, j);
   }
   inbox0[i] = pack_inbox(neigh);
 
   // energy scent: per-direction bit set if neighbor has corpse energy > 0
   var scent_mask: u32 = 0u;
-  for (var d2: u32 = 0u; d2 < 8u; d2 = d2 + 1u) {
-    let off2 = moore_dir(d2);
+  for (var d2: u32 = 0u; d2 < neighbor_count(); d2 = d2 + 1u) {
+    let off2 = neighbor_dir(d2, y);
     let j2 = idx(x + off2.x, y + off2.y);
-    if (dead_energy[j2] > 0.0) {
+    if (j2 != OUTSIDE && dead_energy[j2] > 0.0) {
       scent_mask = scent_mask | (1u << d2);
     }
   }
@@ -182,17 +286,33 @@ fn msg_stage3a_respond(@builtin(global_invocation_id) gid: vec3<u32>) {
         let h = hash3(gid.x ^ 0x9e3779b9u, gid.y ^ 0x7f4a7c15u, U.generation ^ 0x85ebca6bu);
         reply = h & mask_k();
       }
+      case 3u: { // genetic: reply rule of the genome over what was heard in stage 1
+        let g = genome_msg[i];
+        var heard: u32 = 0u;
+        for (var d: u32 = 0u; d < neighbor_count(); d = d + 1u) {
+          heard = heard | unpack_dir(inbox0[i], d);
+        }
+        let c = g >> 8u;
+        switch ((g >> 4u) & 3u) {
+          case 1u: { reply = c; }
+          case 2u: { reply = heard; }
+          case 3u: { reply = heard ^ c; }
+          default: { reply = 0u; }
+        }
+        reply = reply & mask_k();
+      }
       default: { // 2 = learned
         reply = learned_msg_stage3[i] & mask_k();
       }
     }
-    if (U.mode_stage3 == 2u) {
+    if (U.mode_stage3 >= 2u) {
       charge_for_payload(i, reply);
     }
   }
 
   // overwrite msg_out with response so immediate neighbors can read it this same tick
   msg_out[i] = reply;
+  if (reply != 0u) { activity[i] = activity[i] | 2u; }
 }
 
 // stage 3b: build inbox1 from neighbors' replies
@@ -202,11 +322,11 @@ fn msg_stage3b_pack(@builtin(global_invocation_id) gid: vec3<u32>) {
   let x = i32(gid.x); let y = i32(gid.y);
   let i = gid.y * U.width + gid.x;
 
-  var neigh: array<u32,8>;
-  for (var d: u32 = 0u; d < 8u; d = d + 1u) {
-    let off = moore_dir(d);
+  var neigh: array<u32, MAX_NEIGHBORS>;
+  for (var d: u32 = 0u; d < neighbor_count(); d = d + 1u) {
+    let off = neighbor_dir(d, y);
     let j = idx(x + off.x, y + off.y);
-    neigh[d] = msg_out[j] & mask_k();
+    neigh[d] = msg_at(i, j);
   }
   inbox1[i] = pack_inbox(neigh);
 }
@@ -1,19 +1,26 @@
 // movement.wgsl
 // step 1: propose moves into empty targets (contended targets pick highest hash)
-// step 2: apply winners; others stay. charge energy costs.
+// step 2: apply winners; others stay. winners carry energy, age and msg_last.
+// step 3: vacate origins of agents that moved out.
+// the move cost depends on the mover's species and is charged right after, by species_move
+// (species.wgsl), from the activity bits and arrivals these passes leave behind.
+// movement_mode 2 (genetic): move_propose decodes each agent's genome (genome.ts) into
+// ppo_actions, so move_apply reconstructs it exactly like a policy action.
 
 struct Uniforms {
   width: u32,
   height: u32,
   generation: u32,       // tick
-  cost_move_milli: u32,  // e.g., 10 for 0.01
-  movement_mode: u32,    // 0=random (debug), 1=ppo_action
-  _pad0: u32,
+  movement_mode: u32,    // 0=random (debug), 1=ppo_actions (TS/MLP policy or the RL env, app/src/rl), 2=genetic
+  boundary: u32,         // 0 torus, 1 dead border, 2 reflective
+  neighborhood: u32,     // 0 Moore, 1 von Neumann, 2 hex, 3 Moore radius 2
+  seed: u32,             // run seed, mixed into rand_hash3 (0 = unseeded)
+  k_bits: u32,           // message bits, to read reply slots from inbox1 (genetic signal rule)
 }
 @group(0) @binding(0) var<uniform> U : Uniforms;
 
 // core fields
-@group(0) @binding(1) var<storage, read>      alive_in    : array<u32>;
+@group(0) @binding(1) var<storage, read>      alive_in    : array<u32>; // 1 = agent; 0 empty; >=2 refractory (blocks, never moves)
 @group(0) @binding(2) var<storage, read_write> alive_mid  : array<u32>; // after movement (before Life)
 @group(0) @binding(3) var<storage, read_write> energy     : array<f32>;
 @group(0) @binding(4) var<storage, read>      inbox1      : array<u32>; // stage-3 inbox if needed
@@ -22,41 +29,146 @@ struct Uniforms {
 
 // Intent surface replaced with atomic winner hash per target cell
 // Each proposer computes a 32-bit hash h and does atomicMax to claim target.
-// Apply pass reconstructs source by scanning 8 neighbors and matching h.
+// Apply pass reconstructs source by scanning the neighborhood and matching h.
 @group(0) @binding(7) var<storage, read_write> intent_hash : array<atomic<u32>>;
-// action outputs (per-cell), values 0..8 where 0..7=direction, 8=stay
-@group(0) @binding(8) var<storage, read>      ppo_actions : array<u32>;
+// action outputs (per-cell), values 0..n where 0..n-1=direction, n=stay (n = neighbor_count());
+// written by move_propose in genetic mode
+@group(0) @binding(8) var<storage, read_write> ppo_actions : array<u32>;
+// per-agent state that travels with a mover
+@group(0) @binding(9)  var<storage, read_write> age_in    : array<u32>;
+@group(0) @binding(10) var<storage, read_write> msg_last  : array<u32>;
+// per-cell activity flags for the stats pass (bit 2: attempted a move, bit 3: moved out);
+// cleared each tick by msg_stage1_broadcast
+@group(0) @binding(11) var<storage, read_write> activity  : array<u32>;
+// movement word of each agent's genome (genome.wgsl), read in genetic mode
+@group(0) @binding(12) var<storage, read>      genome_move : array<u32>;
 
 // --- helpers ---
 
+// boundary modes (U.boundary): 0 torus, 1 dead border (outside reads as empty/zero),
+// 2 reflective (mirror at the edge). idx() returns OUTSIDE for cells beyond a dead border.
+const OUTSIDE: u32 = 0xFFFFFFFFu;
+
+fn reflect_coord(n: i32, size: i32) -> i32 {
+  var v = n;
+  if (v < 0) { v = -v - 1; }
+  if (v >= size) { v = 2 * size - v - 1; }
+  return clamp(v, 0, size - 1);
+}
+
 fn idx(col: i32, row: i32) -> u32 {
   let W = i32(U.width);
   let H = i32(U.height);
-  let x = ( (col % W) + W ) % W;
-  let y = ( (row % H) + H ) % H;
+  var x = col;
+  var y = row;
+  switch (U.boundary) {
+    case 1u: {
+      if (x < 0 || y < 0 || x >= W || y >= H) { return OUTSIDE; }
+    }
+    case 2u: {
+      x = reflect_coord(x, W);
+      y = reflect_coord(y, H);
+    }
+    default: {
+      x = ((x % W) + W) % W;
+      y = ((y % H) + H) % H;
+    }
+  }
   return u32(y) * U.width + u32(x);
 }
 
-fn moore_dir(d: u32) -> vec2<i32> {
-  switch(d){
-    case 0u: { return vec2<i32>(-1, -1); }
-    case 1u: { return vec2<i32>( 0, -1); }
-    case 2u: { return vec2<i32>( 1, -1); }
-    case 3u: { return vec2<i32>(-1,  0); }
-    case 4u: { return vec2<i32>( 1,  0); }
-    case 5u: { return vec2<i32>(-1,  1); }
-    case 6u: { return vec2<i32>( 0,  1); }
-    default: { return vec2<i32>( 1,  1); }
+// neighborhoods (U.neighborhood): 0 Moore (8), 1 von Neumann (4), 2 hex (6, odd-r offset rows:
+// odd rows sit half a cell right), 3 Moore radius 2 (24). direction d is also the scent bit,
+// the inbox slot and the ppo action; action neighbor_count() = stay
+const MAX_NEIGHBORS: u32 = 24u;
+
+fn neighbor_count() -> u32 {
+  switch (U.neighborhood) {
+    case 1u: { return 4u; }
+    case 2u: { return 6u; }
+    case 3u: { return 24u; }
+    default: { return 8u; }
+  }
+}
+
+// offset of direction d for a cell in `row` (hex offsets depend on row parity)
+fn neighbor_dir(d: u32, row: i32) -> vec2<i32> {
+  switch (U.neighborhood) {
+    case 1u: {
+      // d = 0..3: n, w, e, s
+      switch (d) {
+        case 0u: { return vec2<i32>( 0, -1); }
+        case 1u: { return vec2<i32>(-1,  0); }
+        case 2u: { return vec2<i32>( 1,  0); }
+        default: { return vec2<i32>( 0,  1); }
+      }
+    }
+    case 2u: {
+      // d = 0..5: nw, ne, w, e, sw, se
+      let s = row & 1;
+      switch (d) {
+        case 0u: { return vec2<i32>(s - 1, -1); }
+        case 1u: { return vec2<i32>(s,     -1); }
+        case 2u: { return vec2<i32>(-1,     0); }
+        case 3u: { return vec2<i32>( 1,     0); }
+        case 4u: { return vec2<i32>(s - 1,  1); }
+        default: { return vec2<i32>(s,      1); }
+      }
+    }
+    case 3u: {
+      // d = 0..23: 5x5 block minus the center, row-major
+      let k = i32(select(d + 1u, d, d < 12u));
+      return vec2<i32>(k % 5 - 2, k / 5 - 2);
+    }
+    default: {
+      // d = 0..7: nw, n, ne, w, e, sw, s, se
+      let k = i32(select(d + 1u, d, d < 4u));
+      return vec2<i32>(k % 3 - 1, k / 3 - 1);
+    }
   }
 }
 
+// a cell an agent may move into; beyond a dead border counts as a wall
+fn is_empty(j: u32) -> bool {
+  return j != OUTSIDE && alive_in[j] == 0u;
+}
+
 fn rand_hash3(x: u32, y: u32, t: u32) -> u32 {
-  var h = x * 374761393u + y * 668265263u + t * 2246822519u;
+  var h = x * 374761393u + y * 668265263u + t * 2246822519u + U.seed * 3266489917u;
   h ^= (h >> 13u);
   h *= 1274126177u;
   return h ^ (h >> 16u);
 }
 
+// genetic mode: action from the movement word (bit layout in genome.ts); n = stay
+fn genome_action(i: u32, x: i32, y: i32, n: u32) -> u32 {
+  let g = genome_move[i];
+  let h = rand_hash3(u32(x) ^ 0x85ebca6bu, u32(y) ^ 0xc2b2ae35u, U.generation);
+  if ((h & 0xFFu) >= (g & 0xFFu)) { return n; }
+  let rule = (g >> 8u) & 3u;
+  if (rule == 3u) { return ((g >> 16u) & 31u) % n; }
+  let k = min(U.k_bits, 32u / n);
+  let m = (1u << k) - 1u;
+  var cand: u32 = 0u;
+  for (var d: u32 = 0u; d < n; d = d + 1u) {
+    let off = neighbor_dir(d, y);
+    if (!is_empty(idx(x + off.x, y + off.y))) { continue; }
+    var ok = true;
+    if (rule == 1u) { ok = (energy_scent[i] & (1u << d)) != 0u; }
+    if (rule == 2u) { ok = ((inbox1[i] >> (d * k)) & m) == ((g >> 12u) & m); }
+    if (ok) { cand = cand | (1u << d); }
+  }
+  if (cand == 0u) { return n; }
+  // r-th candidate direction
+  var left = (h >> 8u) % countOneBits(cand);
+  for (var d: u32 = 0u; d < n; d = d + 1u) {
+    if ((cand & (1u << d)) == 0u) { continue; }
+    if (left == 0u) { return d; }
+    left = left - 1u;
+  }
+  return n;
+}
+
 //  step 0: clear intent hashes (must be run before propose)
 
 @compute @workgroup_size(16,16)
@@ -68,7 +180,7 @@ fn move_clear_intents(@builtin(global_invocation_id) gid: vec3<u32>) {
   atomicStore(&intent_hash[i], 0u);
 }
 
-//  step 1: propose (winner = max hash) and charge energy for attempting a move.
+//  step 1: propose (winner = max hash) and flag the attempt for species_move to charge.
 
 @compute @workgroup_size(16,16)
 fn move_propose(@builtin(global_invocation_id) gid: vec3<u32>) {
@@ -78,36 +190,39 @@ fn move_propose(@builtin(global_invocation_id) gid: vec3<u32>) {
   let x = i32(gid.x); let y = i32(gid.y);
   let i = gid.y * W + gid.x;
 
-  if (alive_in[i] == 0u) { return; }
+  if (alive_in[i] != 1u) { return; }
 
   // build list of empty neighbor directions once
-  var empty_dirs: array<u32, 8>;
+  let n = neighbor_count();
+  var empty_dirs: array<u32, MAX_NEIGHBORS>;
   var n_empty: u32 = 0u;
-  for (var d: u32 = 0u; d < 8u; d = d + 1u) {
-    let off_scan = moore_dir(d);
+  for (var d: u32 = 0u; d < n; d = d + 1u) {
+    let off_scan = neighbor_dir(d, y);
     let j_scan = idx(x + off_scan.x, y + off_scan.y);
-    if (alive_in[j_scan] == 0u) {
+    if (is_empty(j_scan)) {
       empty_dirs[n_empty] = d;
       n_empty = n_empty + 1u;
     }
   }
 
   // decide target direction based on movement_mode
-  var target_dir: u32 = 8u; // 8 = stay
+  var target_dir: u32 = n; // n = stay
   switch (U.movement_mode) {
-    case 1u: { // ppo-directed action
-      let act = ppo_actions[i] % 9u; // 0..7 dir, 8=stay
-      if (act == 8u) {
+    case 1u, 2u: { // ppo-directed action, or the genome's (recorded for move_apply)
+      if (U.movement_mode == 2u) {
+        ppo_actions[i] = genome_action(i, x, y, n);
+      }
+      let act = ppo_actions[i] % (n + 1u); // 0..n-1 dir, n=stay
+      if (act == n) {
         return; // explicit stay, no cost
       }
-      let off_act = moore_dir(act);
+      let off_act = neighbor_dir(act, y);
       let j_act = idx(x + off_act.x, y + off_act.y);
-      if (alive_in[j_act] == 0u) {
+      if (is_empty(j_act)) {
         target_dir = act;
       } else {
-        // invalid move (blocked), charge attempt cost and stay
-        let attempt_cost = (f32(U.cost_move_milli) * 0.001) * 0.5;
-        energy[i] = max(0.0, energy[i] - attempt_cost);
+        // invalid move (blocked): an attempt, charged by species_move, and stay
+        activity[i] = activity[i] | 4u;
         return;
       }
     }
@@ -119,19 +234,20 @@ fn move_propose(@builtin(global_invocation_id) gid: vec3<u32>) {
   }
 
   // compute target index from selected direction
-  let off = moore_dir(target_dir);
+  let off = neighbor_dir(target_dir, y);
   let tgt_idx = idx(x + off.x, y + off.y);
 
   // compute tie-break hash (higher wins) and claim target via atomicMax
   let h = rand_hash3(u32(x) ^ 0x9e3779b9u, u32(y) ^ 0x7f4a7c15u, U.generation);
   let _prev = atomicMax(&intent_hash[tgt_idx], h);
 
-  // charge movement attempt cost (half of total move cost)
-  let attempt_cost = (f32(U.cost_move_milli) * 0.001) * 0.5;
-  energy[i] = max(0.0, energy[i] - attempt_cost);
+  activity[i] = activity[i] | 4u;
 }
 
-// step 2: apply winners; winners "teleport", others remain. update alive_mid and last_pos.
+// step 2: apply winners; others remain. update alive_mid and last_pos, and move the
+// winner's energy, age and msg_last onto the target.
+// Only arrival cells (alive_in == 0) are written and only source cells (alive_in == 1) are
+// read, so there is no race; sources are cleared afterwards in move_vacate.
 
 @compute @workgroup_size(16,16)
 fn move_apply(@builtin(global_invocation_id) gid: vec3<u32>) {
@@ -141,41 +257,44 @@ fn move_apply(@builtin(global_invocation_id) gid: vec3<u32>) {
   let x = i32(gid.x); let y = i32(gid.y);
   let i = gid.y * W + gid.x;
 
+  let n = neighbor_count();
+
   // default carry-over from alive_in -> alive_mid
   var a = alive_in[i];
 
-  // arrival: if a winner hash exists at this target, set alive and charge source
+  // arrival: if a winner hash exists at this target, pull the winning agent in
   let wh = atomicLoad(&intent_hash[i]);
   if (wh != 0u) {
     a = 1u;
-    // reconstruct source by scanning 8 neighbors and matching hash & target
+    // reconstruct source by scanning the neighborhood and matching hash & target
     var src_found = false;
     var srcx: u32 = u32(x);
     var srcy: u32 = u32(y);
-    for (var d: u32 = 0u; d < 8u; d = d + 1u) {
-      let offn = moore_dir(d);
-      let sx = i32(x) + offn.x;
-      let sy = i32(y) + offn.y;
-      let s_idx = idx(sx, sy);
-      if (alive_in[s_idx] == 0u) { continue; }
+    for (var d: u32 = 0u; d < n; d = d + 1u) {
+      let offn = neighbor_dir(d, y);
+      let s_idx = idx(x + offn.x, y + offn.y);
+      if (s_idx == OUTSIDE || alive_in[s_idx] != 1u) { continue; }
+      // wrapped source coordinates, as the source itself saw them in move_propose
+      let sx = i32(s_idx % W);
+      let sy = i32(s_idx / W);
       // decide if this neighbor would target (x,y)
       // rebuild empty dirs from neighbor's perspective
-      var empty_dirs_n: array<u32,8>;
+      var empty_dirs_n: array<u32, MAX_NEIGHBORS>;
       var n_empty_n: u32 = 0u;
-      for (var dn: u32 = 0u; dn < 8u; dn = dn + 1u) {
-        let off_scan = moore_dir(dn);
+      for (var dn: u32 = 0u; dn < n; dn = dn + 1u) {
+        let off_scan = neighbor_dir(dn, sy);
         let jn = idx(sx + off_scan.x, sy + off_scan.y);
-        if (alive_in[jn] == 0u) {
+        if (is_empty(jn)) {
           empty_dirs_n[n_empty_n] = dn;
           n_empty_n = n_empty_n + 1u;
         }
       }
       var targets_me = false;
       switch (U.movement_mode) {
-        case 1u: {
-          let act = ppo_actions[s_idx] % 9u;
-          if (act != 8u) {
-            let offa = moore_dir(act);
+        case 1u, 2u: {
+          let act = ppo_actions[s_idx] % (n + 1u);
+          if (act != n) {
+            let offa = neighbor_dir(act, sy);
             let ja = idx(sx + offa.x, sy + offa.y);
             if (ja == i) { targets_me = true; }
           }
@@ -184,7 +303,7 @@ fn move_apply(@builtin(global_invocation_id) gid: vec3<u32>) {
           if (n_empty_n != 0u) {
             let seedn = rand_hash3(u32(sx), u32(sy), U.generation);
             let dsel = empty_dirs_n[seedn % n_empty_n];
-            let offsel = moore_dir(dsel);
+            let offsel = neighbor_dir(dsel, sy);
             let jsel = idx(sx + offsel.x, sy + offsel.y);
             if (jsel == i) { targets_me = true; }
           }
@@ -196,9 +315,9 @@ fn move_apply(@builtin(global_invocation_id) gid: vec3<u32>) {
         src_found = true;
         srcx = u32(sx);
         srcy = u32(sy);
-        let slinear = u32(sy) * W + u32(sx);
-        let move_cost = (f32(U.cost_move_milli) * 0.001) * 0.5;
-        energy[slinear] = max(0.0, energy[slinear] - move_cost);
+        energy[i] = energy[i] + energy[s_idx];
+        age_in[i] = age_in[s_idx];
+        msg_last[i] = msg_last[s_idx];
         break;
       }
     }
@@ -209,32 +328,32 @@ fn move_apply(@builtin(global_invocation_id) gid: vec3<u32>) {
   // departure: if I won a move to my chosen target, clear my cell
   if (alive_in[i] == 1u) {
     // rebuild empty dirs from my perspective
-    var empty_dirs: array<u32,8>;
+    var empty_dirs: array<u32, MAX_NEIGHBORS>;
     var n_empty: u32 = 0u;
-    for (var d2: u32 = 0u; d2 < 8u; d2 = d2 + 1u) {
-      let off2 = moore_dir(d2);
+    for (var d2: u32 = 0u; d2 < n; d2 = d2 + 1u) {
+      let off2 = neighbor_dir(d2, y);
       let j2 = idx(x + off2.x, y + off2.y);
-      if (alive_in[j2] == 0u) {
+      if (is_empty(j2)) {
         empty_dirs[n_empty] = d2;
         n_empty = n_empty + 1u;
       }
     }
     var moved_out = false;
     switch (U.movement_mode) {
-      case 1u: {
-        let act = ppo_actions[i] % 9u;
-        if (act != 8u) {
-          let offa = moore_dir(act);
+      case 1u, 2u: {
+        let act = ppo_actions[i] % (n + 1u);
+        if (act != n) {
+          let offa = neighbor_dir(act, y);
           let j = idx(x + offa.x, y + offa.y);
           let myh = rand_hash3(u32(x) ^ 0x9e3779b9u, u32(y) ^ 0x7f4a7c15u, U.generation);
-          if (atomicLoad(&intent_hash[j]) == myh) { moved_out = true; }
+          if (j != OUTSIDE && atomicLoad(&intent_hash[j]) == myh) { moved_out = true; }
         }
       }
       default: {
         if (n_empty != 0u) {
           let seed = rand_hash3(u32(x), u32(y), U.generation);
           let dsel = empty_dirs[seed % n_empty];
-          let offsel = moore_dir(dsel);
+          let offsel = neighbor_dir(dsel, y);
           let j = idx(x + offsel.x, y + offsel.y);
           let myh = rand_hash3(u32(x) ^ 0x9e3779b9u, u32(y) ^ 0x7f4a7c15u, U.generation);
           if (atomicLoad(&intent_hash[j]) == myh) { moved_out = true; }
@@ -246,3 +365,21 @@ fn move_apply(@builtin(global_invocation_id) gid: vec3<u32>) {
 
   alive_mid[i] = a;
 }
+
+// step 3: vacate. a cell alive before movement and empty after it moved out; its state now
+// lives at the target, so clear the origin.
+
+@compute @workgroup_size(16,16)
+fn move_vacate(@builtin(global_invocation_id) gid: vec3<u32>) {
+  let W = U.width;
+  let H = U.height;
+  if (gid.x >= W || gid.y >= H) { return; }
+  let i = gid.y * W + gid.x;
+
+  if (alive_in[i] == 1u && alive_mid[i] == 0u) {
+    energy[i] = 0.0;
+    age_in[i] = 0u;
+    msg_last[i] = 0u;
+    activity[i] = activity[i] | 8u;
+  }
+}
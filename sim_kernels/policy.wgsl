@@ -0,0 +1,239 @@
+// policy.wgsl
+// on-GPU MLP policy (app/src/policy/mlp.ts): a small fully connected net evaluated per agent at
+// the three points where TypeScript policies would run, writing the buffers the LCR passes read:
+//  - policy_msg1 (before msg stage 1):          learned_msg_stage1
+//  - policy_msg3 (after stage 2, fresh inbox0): learned_msg_stage3
+//  - policy_move (before move_propose):         ppo_actions
+//
+// inputs (INPUTS = 2 + 3 * MAX_NEIGHBORS, directions d >= neighbor_count() stay 0):
+//   0 energy, 1 age * 0.01, 2+d energy scent bit d,
+//   2+24+d inbox0 slot d / (2^k-1), 2+48+d inbox1 slot d / (2^k-1)
+// outputs (linear): 0..23 move logit of direction d, 24 stay logit,
+//   25..28 stage-1 payload bits, 29..32 stage-3 payload bits (bit set when > 0)
+// weights: per layer, W row-major [out][in] then bias [out]; hidden layers use U.activation
+//
+// weights and layer widths live in their own buffers, so swapping a trained policy in never
+// recompiles this shader
+
+struct Uniforms {
+  width: u32,
+  height: u32,
+  boundary: u32,       // 0 torus, 1 dead border, 2 reflective
+  neighborhood: u32,   // 0 Moore, 1 von Neumann, 2 hex, 3 Moore radius 2
+  k_bits: u32,         // effective payload bits (already capped by the neighborhood)
+  layer_count: u32,    // weight layers; sizes[0] = INPUTS, sizes[layer_count] = OUTPUTS
+  activation: u32,     // hidden layers: 0 relu, 1 tanh
+  _pad0: u32,
+  sizes: array<vec4<u32>, 2>, // layer widths, up to 8 (7 weight layers)
+}
+@group(0) @binding(0) var<uniform> U : Uniforms;
+
+// observations (same buffers move_propose and the messaging stages read)
+@group(0) @binding(1) var<storage, read> alive_in     : array<u32>;
+@group(0) @binding(2) var<storage, read> energy       : array<f32>;
+@group(0) @binding(3) var<storage, read> age_in       : array<u32>;
+@group(0) @binding(4) var<storage, read> inbox0       : array<u32>;
+@group(0) @binding(5) var<storage, read> inbox1       : array<u32>;
+@group(0) @binding(6) var<storage, read> energy_scent : array<u32>;
+@group(0) @binding(7) var<storage, read> weights      : array<f32>;
+
+// outputs, one per entry point (keeps each at 8 storage buffers, the default limit)
+@group(0) @binding(8)  var<storage, read_write> ppo_actions        : array<u32>;
+@group(0) @binding(9)  var<storage, read_write> learned_msg_stage1 : array<u32>;
+@group(0) @binding(10) var<storage, read_write> learned_msg_stage3 : array<u32>;
+
+const INPUTS: u32 = 74u;
+const STAY_OUT: u32 = 24u;
+const MSG1_OUT: u32 = 25u;
+const MSG3_OUT: u32 = 29u;
+const MAX_UNITS: u32 = 128u;
+
+// --- helpers ---
+
+// boundary modes (U.boundary): 0 torus, 1 dead border (outside reads as empty/zero),
+// 2 reflective (mirror at the edge). idx() returns OUTSIDE for cells beyond a dead border.
+const OUTSIDE: u32 = 0xFFFFFFFFu;
+
+fn reflect_coord(n: i32, size: i32) -> i32 {
+  var v = n;
+  if (v < 0) { v = -v - 1; }
+  if (v >= size) { v = 2 * size - v - 1; }
+  return clamp(v, 0, size - 1);
+}
+
+fn idx(col: i32, row: i32) -> u32 {
+  let W = i32(U.width);
+  let H = i32(U.height);
+  var x = col;
+  var y = row;
+  switch (U.boundary) {
+    case 1u: {
+      if (x < 0 || y < 0 || x >= W || y >= H) { return OUTSIDE; }
+    }
+    case 2u: {
+      x = reflect_coord(x, W);
+      y = reflect_coord(y, H);
+    }
+    default: {
+      x = ((x % W) + W) % W;
+      y = ((y % H) + H) % H;
+    }
+  }
+  return u32(y) * U.width + u32(x);
+}
+
+// neighborhoods (U.neighborhood): 0 Moore (8), 1 von Neumann (4), 2 hex (6, odd-r offset rows:
+// odd rows sit half a cell right), 3 Moore radius 2 (24). direction d is also the scent bit,
+// the inbox slot and the ppo action; action neighbor_count() = stay
+const MAX_NEIGHBORS: u32 = 24u;
+
+fn neighbor_count() -> u32 {
+  switch (U.neighborhood) {
+    case 1u: { return 4u; }
+    case 2u: { return 6u; }
+    case 3u: { return 24u; }
+    default: { return 8u; }
+  }
+}
+
+// offset of direction d for a cell in `row` (hex offsets depend on row parity)
+fn neighbor_dir(d: u32, row: i32) -> vec2<i32> {
+  switch (U.neighborhood) {
+    case 1u: {
+      // d = 0..3: n, w, e, s
+      switch (d) {
+        case 0u: { return vec2<i32>( 0, -1); }
+        case 1u: { return vec2<i32>(-1,  0); }
+        case 2u: { return vec2<i32>( 1,  0); }
+        default: { return vec2<i32>( 0,  1); }
+      }
+    }
+    case 2u: {
+      // d = 0..5: nw, ne, w, e, sw, se
+      let s = row & 1;
+      switch (d) {
+        case 0u: { return vec2<i32>(s - 1, -1); }
+        case 1u: { return vec2<i32>(s,     -1); }
+        case 2u: { return vec2<i32>(-1,     0); }
+        case 3u: { return vec2<i32>( 1,     0); }
+        case 4u: { return vec2<i32>(s - 1,  1); }
+        default: { return vec2<i32>(s,      1); }
+      }
+    }
+    case 3u: {
+      // d = 0..23: 5x5 block minus the center, row-major
+      let k = i32(select(d + 1u, d, d < 12u));
+      return vec2<i32>(k % 5 - 2, k / 5 - 2);
+    }
+    default: {
+      // d = 0..7: nw, n, ne, w, e, sw, s, se
+      let k = i32(select(d + 1u, d, d < 4u));
+      return vec2<i32>(k % 3 - 1, k / 3 - 1);
+    }
+  }
+}
+
+// --- forward pass ---
+
+// activations ping-pong between the two rows; layer l reads acts[l % 2]
+var<private> acts: array<array<f32, MAX_UNITS>, 2>;
+
+fn layer_size(l: u32) -> u32 {
+  return U.sizes[l / 4u][l % 4u];
+}
+
+fn load_inputs(i: u32) {
+  for (var j = 0u; j < INPUTS; j++) { acts[0][j] = 0.0; }
+  let n = neighbor_count();
+  let k = U.k_bits;
+  let m = (1u << k) - 1u;
+  let scale = select(0.0, 1.0 / f32(m), m > 0u); // k = 0: no payloads, inbox inputs stay 0
+  let scent = energy_scent[i];
+  let in0 = inbox0[i];
+  let in1 = inbox1[i];
+  acts[0][0] = energy[i];
+  acts[0][1] = f32(age_in[i]) * 0.01;
+  for (var d = 0u; d < n; d++) {
+    acts[0][2u + d] = f32((scent >> d) & 1u);
+    acts[0][2u + MAX_NEIGHBORS + d] = f32((in0 >> (d * k)) & m) * scale;
+    acts[0][2u + 2u * MAX_NEIGHBORS + d] = f32((in1 >> (d * k)) & m) * scale;
+  }
+}
+
+// runs the net on cell i; returns the row of acts holding the outputs
+fn forward(i: u32) -> u32 {
+  load_inputs(i);
+  var offset = 0u;
+  for (var l = 0u; l < U.layer_count; l++) {
+    let src = l % 2u;
+    let dst = 1u - src;
+    let n_in = layer_size(l);
+    let n_out = layer_size(l + 1u);
+    let hidden = l + 1u < U.layer_count;
+    for (var o = 0u; o < n_out; o++) {
+      var acc = 0.0;
+      let row = offset + o * n_in;
+      for (var j = 0u; j < n_in; j++) {
+        acc = acc + weights[row + j] * acts[src][j];
+      }
+      acc = acc + weights[offset + n_out * n_in + o];
+      if (hidden) {
+        if (U.activation == 1u) { acc = tanh(acc); } else { acc = max(acc, 0.0); }
+      }
+      acts[dst][o] = acc;
+    }
+    offset = offset + n_out * n_in + n_out;
+  }
+  return U.layer_count % 2u;
+}
+
+fn payload_bits(res: u32, first: u32) -> u32 {
+  var p = 0u;
+  for (var b = 0u; b < U.k_bits; b++) {
+    if (acts[res][first + b] > 0.0) { p = p | (1u << b); }
+  }
+  return p;
+}
+
+// --- entry points ---
+
+@compute @workgroup_size(16,16)
+fn policy_msg1(@builtin(global_invocation_id) gid: vec3<u32>) {
+  if (gid.x >= U.width || gid.y >= U.height) { return; }
+  let i = gid.y * U.width + gid.x;
+  if (alive_in[i] != 1u) { learned_msg_stage1[i] = 0u; return; }
+  let res = forward(i);
+  learned_msg_stage1[i] = payload_bits(res, MSG1_OUT);
+}
+
+@compute @workgroup_size(16,16)
+fn policy_msg3(@builtin(global_invocation_id) gid: vec3<u32>) {
+  if (gid.x >= U.width || gid.y >= U.height) { return; }
+  let i = gid.y * U.width + gid.x;
+  if (alive_in[i] != 1u) { learned_msg_stage3[i] = 0u; return; }
+  let res = forward(i);
+  learned_msg_stage3[i] = payload_bits(res, MSG3_OUT);
+}
+
+// argmax over stay and the directions whose target is free (ties keep stay, then lower d)
+@compute @workgroup_size(16,16)
+fn policy_move(@builtin(global_invocation_id) gid: vec3<u32>) {
+  if (gid.x >= U.width || gid.y >= U.height) { return; }
+  let i = gid.y * U.width + gid.x;
+  let n = neighbor_count();
+  if (alive_in[i] != 1u) { ppo_actions[i] = n; return; }
+  let res = forward(i);
+  let x = i32(gid.x);
+  let y = i32(gid.y);
+  var best = n;
+  var best_v = acts[res][STAY_OUT];
+  for (var d = 0u; d < n; d++) {
+    let off = neighbor_dir(d, y);
+    let j = idx(x + off.x, y + off.y);
+    if (j != OUTSIDE && alive_in[j] == 0u && acts[res][d] > best_v) {
+      best = d;
+      best_v = acts[res][d];
+    }
+  }
+  ppo_actions[i] = best;
+}
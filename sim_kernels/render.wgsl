@@ -0,0 +1,195 @@
+// render.wgsl
+// draws the simulation straight from the state storage buffers into the canvas (no readback)
+//  - one fullscreen triangle per draw; the fragment shader maps its pixel to a cell
+//  - cells are cell_size x cell_size pixels; pixels past the grid stay background
+//  - fs_cells draws the base colors: dead black, agents in their species color (white while
+//    species are off), refractory states fading grey (Generations rules), scaled by cell_opacity
+//  - fs_layers composites the display layers (layers.ts) on top in slot order; zero values are
+//    transparent
+// grid lines and the pattern preview are drawn by a 2D overlay canvas on top
+//
+// notes*
+//  - two draws because the layers alone take 7 storage buffers and the default
+//    maxStorageBuffersPerShaderStage is 8. fs_layers returns the layer colors mixed over black
+//    with alpha = the weight left to the base color (product of 1 - opacity), and the blend state
+//    (render.ts) adds the base scaled by that alpha, which equals mixing the layers over the base
+
+struct Layer {
+  opacity: f32,     // 0 = slot disabled
+  colormap: u32,    // 0 grey, 1 heat, 2 viridis, 3 inferno, 4 diverging, 5 categorical
+  lo: f32,          // value range for continuous colormaps
+  hi: f32,
+}
+
+const LAYER_COUNT: u32 = 7u;
+const MAX_SPECIES: u32 = 4u;
+
+struct Uniforms {
+  width: u32,       // grid cells
+  height: u32,
+  cell_size: u32,   // pixels per cell
+  states: u32,      // rule states (2 = binary)
+  cell_opacity: f32,
+  _pad0: u32,
+  _pad1: u32,
+  _pad2: u32,
+  // slots: 0 energy, 1 dead_energy, 2 age, 3 msg_out, 4 inbox0, 5 energy_scent, 6 source_map
+  layers: array<Layer, LAYER_COUNT>,
+  species_colors: array<vec4<f32>, MAX_SPECIES>, // rgb of agents per species
+}
+@group(0) @binding(0) var<uniform> U : Uniforms;
+
+@group(0) @binding(1) var<storage, read> alive_in     : array<u32>;
+@group(0) @binding(2) var<storage, read> energy       : array<f32>;
+@group(0) @binding(3) var<storage, read> dead_energy  : array<f32>;
+@group(0) @binding(4) var<storage, read> age          : array<u32>;
+@group(0) @binding(5) var<storage, read> msg_out      : array<u32>;
+@group(0) @binding(6) var<storage, read> inbox0       : array<u32>;
+@group(0) @binding(7) var<storage, read> energy_scent : array<u32>;
+@group(0) @binding(8) var<storage, read> source_map   : array<f32>;
+@group(0) @binding(9) var<storage, read> species      : array<u32>;
+
+struct VertexOut {
+  @builtin(position) pos: vec4<f32>,
+}
+
+@vertex
+fn vs_main(@builtin(vertex_index) vi: u32) -> VertexOut {
+  // oversized triangle covering clip space
+  let xy = vec2<f32>(f32((vi << 1u) & 2u), f32(vi & 2u));
+  var out: VertexOut;
+  out.pos = vec4<f32>(xy * 2.0 - 1.0, 0.0, 1.0);
+  return out;
+}
+
+fn state_color(st: u32, s: u32) -> vec3<f32> {
+  if (st == 0u || st >= U.states) { return vec3<f32>(0.0); }
+  if (st == 1u) { return U.species_colors[min(s, MAX_SPECIES - 1u)].rgb; }
+  // same shade ramp the 2D renderer used: 200 * (1 - (st - 1) / states) / 255
+  let shade = round(200.0 * (1.0 - f32(st - 1u) / f32(U.states))) / 255.0;
+  return vec3<f32>(shade);
+}
+
+// ----- colormaps -----
+
+// polynomial fits of matplotlib's viridis / inferno (t in 0..1)
+fn viridis(t: f32) -> vec3<f32> {
+  let c0 = vec3<f32>(0.2777273272234177, 0.005407344544966578, 0.3340998053353061);
+  let c1 = vec3<f32>(0.1050930431085774, 1.404613529898575, 1.384590162594685);
+  let c2 = vec3<f32>(-0.3308618287255563, 0.214847559468213, 0.09509516302823659);
+  let c3 = vec3<f32>(-4.634230498983486, -5.799100973351585, -19.33244095627987);
+  let c4 = vec3<f32>(6.228269936347081, 14.17993336680509, 56.69055260068105);
+  let c5 = vec3<f32>(4.776384997670288, -13.74514537774601, -65.35303263337234);
+  let c6 = vec3<f32>(-5.435455855934631, 4.645852612178535, 26.3124352495832);
+  return c0 + t * (c1 + t * (c2 + t * (c3 + t * (c4 + t * (c5 + t * c6)))));
+}
+
+fn inferno(t: f32) -> vec3<f32> {
+  let c0 = vec3<f32>(0.0002189403691192265, 0.001651004631001012, -0.01948089843709184);
+  let c1 = vec3<f32>(0.1065134194856116, 0.5639564367884091, 3.932712388889277);
+  let c2 = vec3<f32>(11.60249308247187, -3.972853965665698, -15.9423941062914);
+  let c3 = vec3<f32>(-41.70399613139459, 17.43639888205313, 44.35414519872813);
+  let c4 = vec3<f32>(77.162935699427, -33.40235894210092, -81.80730925738993);
+  let c5 = vec3<f32>(-71.31942824499214, 32.62606426397723, 73.20951985803202);
+  let c6 = vec3<f32>(25.13112622477341, -12.24266895238567, -23.07032500287172);
+  return c0 + t * (c1 + t * (c2 + t * (c3 + t * (c4 + t * (c5 + t * c6)))));
+}
+
+// black -> red -> yellow -> white
+fn heat(t: f32) -> vec3<f32> {
+  return clamp(vec3<f32>(3.0 * t, 3.0 * t - 1.0, 3.0 * t - 2.0), vec3<f32>(0.0), vec3<f32>(1.0));
+}
+
+// blue -> white -> red around the middle of the range
+fn diverging(t: f32) -> vec3<f32> {
+  let blue = vec3<f32>(0.23, 0.30, 0.75);
+  let red = vec3<f32>(0.71, 0.02, 0.15);
+  if (t < 0.5) { return mix(blue, vec3<f32>(1.0), t * 2.0); }
+  return mix(vec3<f32>(1.0), red, t * 2.0 - 1.0);
+}
+
+// one hue per distinct integer (golden-ratio spread), full saturation
+fn categorical(v: u32) -> vec3<f32> {
+  let h = fract(f32((v * 2654435761u) >> 8u) / 16777216.0 + 0.61803398875 * f32(v & 0xFFu));
+  let k = vec3<f32>(0.0, 2.0 / 3.0, 1.0 / 3.0);
+  let p = abs(fract(vec3<f32>(h) + k) * 6.0 - 3.0);
+  return clamp(p - 1.0, vec3<f32>(0.0), vec3<f32>(1.0));
+}
+
+fn colormap(L: Layer, v: f32, raw: u32) -> vec3<f32> {
+  let t = clamp((v - L.lo) / max(L.hi - L.lo, 1e-6), 0.0, 1.0);
+  switch (L.colormap) {
+    case 1u: { return heat(t); }
+    case 2u: { return clamp(viridis(t), vec3<f32>(0.0), vec3<f32>(1.0)); }
+    case 3u: { return clamp(inferno(t), vec3<f32>(0.0), vec3<f32>(1.0)); }
+    case 4u: { return diverging(t); }
+    case 5u: { return categorical(raw); }
+    default: { return vec3<f32>(t); }
+  }
+}
+
+// value of layer `slot` at cell i
+fn layer_value(slot: u32, i: u32) -> f32 {
+  switch (slot) {
+    case 0u: { return energy[i]; }
+    case 1u: { return dead_energy[i]; }
+    case 2u: { return f32(age[i]); }
+    case 3u: { return f32(msg_out[i]); }
+    case 4u: { return f32(inbox0[i]); }
+    case 5u: { return f32(energy_scent[i]); }
+    default: { return source_map[i]; }
+  }
+}
+
+// exact integer payload for the categorical map (f32 loses bits of a packed inbox)
+fn layer_raw(slot: u32, i: u32) -> u32 {
+  switch (slot) {
+    case 2u: { return age[i]; }
+    case 3u: { return msg_out[i]; }
+    case 4u: { return inbox0[i]; }
+    case 5u: { return energy_scent[i]; }
+    case 0u: { return u32(max(energy[i], 0.0)); }
+    case 1u: { return u32(max(dead_energy[i], 0.0)); }
+    default: { return bitcast<u32>(source_map[i]); }
+  }
+}
+
+// grid cell under a pixel, or OUTSIDE_GRID past the grid
+const OUTSIDE_GRID: u32 = 0xFFFFFFFFu;
+
+fn pixel_cell(pos: vec4<f32>) -> u32 {
+  let px = vec2<u32>(pos.xy);
+  let col = px.x / U.cell_size;
+  let row = px.y / U.cell_size;
+  if (col >= U.width || row >= U.height) { return OUTSIDE_GRID; }
+  return row * U.width + col;
+}
+
+@fragment
+fn fs_cells(in: VertexOut) -> @location(0) vec4<f32> {
+  let i = pixel_cell(in.pos);
+  if (i == OUTSIDE_GRID) {
+    return vec4<f32>(0.0, 0.0, 0.0, 1.0);
+  }
+  return vec4<f32>(state_color(alive_in[i], species[i]) * U.cell_opacity, 1.0);
+}
+
+@fragment
+fn fs_layers(in: VertexOut) -> @location(0) vec4<f32> {
+  let i = pixel_cell(in.pos);
+  if (i == OUTSIDE_GRID) {
+    return vec4<f32>(0.0, 0.0, 0.0, 1.0);
+  }
+  var color = vec3<f32>(0.0);
+  var keep = 1.0;
+  for (var slot: u32 = 0u; slot < LAYER_COUNT; slot = slot + 1u) {
+    let L = U.layers[slot];
+    if (L.opacity <= 0.0) { continue; }
+    let raw = layer_raw(slot, i);
+    let v = layer_value(slot, i);
+    if (v == 0.0 && raw == 0u) { continue; }
+    color = mix(color, colormap(L, v, raw), L.opacity);
+    keep = keep * (1.0 - L.opacity);
+  }
+  return vec4<f32>(color, keep);
+}
@@ -0,0 +1,60 @@
+// species.wgsl
+// species per agent (species.ts): one u32 per cell, 0..MAX_SPECIES-1, meaningful where an agent is.
+// life_step.wgsl reads it after movement and writes it for the next tick.
+//  - species_move (after move_vacate): species -> species_mid, arrivals take their source's
+//                 species, and every agent pays its species' movement cost: half for an attempt
+//                 (activity bit 2) and the other half on arrival, as two max(0, e - half) steps
+//
+// notes*
+//  - movement.wgsl moves energy uncharged, so the cost is always taken here, with or without
+//    species (all entries of move_cost are move_cost_milli while species are off). the result
+//    equals charging in move_propose / move_apply because arrival cells start the tick empty
+//  - no atomics: every cell writes only itself
+
+const MAX_SPECIES: u32 = 4u;
+
+struct Uniforms {
+  width: u32,
+  height: u32,
+  _pad0: u32,
+  _pad1: u32,
+  move_cost: vec4<u32>,  // milli, per species
+}
+@group(0) @binding(0) var<uniform> U : Uniforms;
+
+@group(0) @binding(1) var<storage, read>       alive_in    : array<u32>; // before movement
+@group(0) @binding(2) var<storage, read>       alive_mid   : array<u32>; // after movement, before Life
+@group(0) @binding(3) var<storage, read>       last_pos    : array<u32>; // x(16) | y(16) of an arrival's source
+@group(0) @binding(4) var<storage, read>       activity    : array<u32>; // bit 2: attempted a move
+@group(0) @binding(5) var<storage, read_write> energy      : array<f32>;
+@group(0) @binding(6) var<storage, read>       species     : array<u32>; // at tick start
+@group(0) @binding(7) var<storage, read_write> species_mid : array<u32>; // after movement
+
+fn half_cost(s: u32) -> f32 {
+  return (f32(U.move_cost[min(s, MAX_SPECIES - 1u)]) * 0.001) * 0.5;
+}
+
+@compute @workgroup_size(16,16)
+fn species_move(@builtin(global_invocation_id) gid: vec3<u32>) {
+  if (gid.x >= U.width || gid.y >= U.height) { return; }
+  let i = gid.y * U.width + gid.x;
+  if (alive_mid[i] != 1u) {
+    species_mid[i] = 0u;
+    return;
+  }
+  if (alive_in[i] == 0u) {
+    // arrival: move_apply recorded the winning source in last_pos
+    let p = last_pos[i];
+    let s = species[(p >> 16u) * U.width + (p & 0xFFFFu)];
+    let h = half_cost(s);
+    species_mid[i] = s;
+    energy[i] = max(0.0, max(0.0, energy[i] - h) - h);
+    return;
+  }
+  let s = species[i];
+  species_mid[i] = s;
+  if ((activity[i] & 4u) != 0u) {
+    // blocked or lost the target: the attempt half only
+    energy[i] = max(0.0, energy[i] - half_cost(s));
+  }
+}
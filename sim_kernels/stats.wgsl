@@ -0,0 +1,207 @@
+// stats.wgsl
+// population statistics as a two-level parallel reduction, so only one small struct is read back
+//  - stats_partial: one workgroup per 256 cells folds its cells into partials[workgroup]
+//  - stats_final:   a single workgroup folds all partials into totals
+//
+// inputs are the tick's pre-Life state (alive_mid) and its results (alive_next, energy, age), so
+// births/deaths compare the two and agents that merely moved count as neither.
+// energy, age and activity only mean something in LCR mode (U.lcr = 1).
+//  - species_partial / species_final: the same two levels over live/births/deaths/energy per
+//    species (species.ts), in their own struct: added to Totals it would not fit 256 entries
+//    in the 16 KiB of workgroup storage. a cell's species is read after Life, where dying
+//    agents keep theirs
+
+struct Uniforms {
+  cells: u32,
+  lcr: u32,         // 1 = LCR tick, 0 = Conway (live/births/deaths only)
+  num_groups: u32,  // partials written by stats_partial
+  _pad0: u32,
+}
+
+struct Totals {
+  live: u32,
+  births: u32,
+  deaths: u32,
+  age_max: u32,
+  moves_attempted: u32,
+  moves_succeeded: u32,
+  messages: u32,
+  age_sum: f32,     // over live cells
+  energy: f32,      // over live cells
+  corpse: f32,      // dead_energy over all cells
+}
+
+@group(0) @binding(0) var<uniform> U : Uniforms;
+
+@group(0) @binding(1) var<storage, read>       alive_mid   : array<u32>;
+@group(0) @binding(2) var<storage, read>       alive_next  : array<u32>;
+@group(0) @binding(3) var<storage, read>       energy      : array<f32>;
+@group(0) @binding(4) var<storage, read>       age         : array<u32>;
+@group(0) @binding(5) var<storage, read>       dead_energy : array<f32>;
+// bit 0/1: message sent in stage 1/3, bit 2: move attempted, bit 3: moved out
+@group(0) @binding(6) var<storage, read>       activity    : array<u32>;
+
+@group(0) @binding(7) var<storage, read_write> partials    : array<Totals>;
+@group(0) @binding(8) var<storage, read_write> totals      : Totals;
+
+struct SpeciesTotals {
+  live: vec4<u32>,
+  births: vec4<u32>,
+  deaths: vec4<u32>,
+  energy: vec4<f32>,  // over live cells
+}
+
+const MAX_SPECIES: u32 = 4u;
+
+@group(0) @binding(9)  var<storage, read>       species          : array<u32>;
+@group(0) @binding(10) var<storage, read_write> species_partials : array<SpeciesTotals>;
+@group(0) @binding(11) var<storage, read_write> species_totals   : SpeciesTotals;
+
+const WG: u32 = 256u;
+
+var<workgroup> acc : array<Totals, WG>;
+
+fn combine(a: Totals, b: Totals) -> Totals {
+  var r: Totals;
+  r.live = a.live + b.live;
+  r.births = a.births + b.births;
+  r.deaths = a.deaths + b.deaths;
+  r.age_max = max(a.age_max, b.age_max);
+  r.moves_attempted = a.moves_attempted + b.moves_attempted;
+  r.moves_succeeded = a.moves_succeeded + b.moves_succeeded;
+  r.messages = a.messages + b.messages;
+  r.age_sum = a.age_sum + b.age_sum;
+  r.energy = a.energy + b.energy;
+  r.corpse = a.corpse + b.corpse;
+  return r;
+}
+
+fn cell_totals(i: u32) -> Totals {
+  var t: Totals;
+  if (i >= U.cells) { return t; }
+
+  let before = alive_mid[i];
+  let after = alive_next[i];
+  if (after == 1u) {
+    t.live = 1u;
+    if (before != 1u) { t.births = 1u; }
+  } else if (before == 1u) {
+    t.deaths = 1u;
+  }
+
+  if (U.lcr == 1u) {
+    if (after == 1u) {
+      t.energy = energy[i];
+      t.age_sum = f32(age[i]);
+      t.age_max = age[i];
+    }
+    t.corpse = dead_energy[i];
+    let a = activity[i];
+    t.messages = (a & 1u) + ((a >> 1u) & 1u);
+    t.moves_attempted = (a >> 2u) & 1u;
+    t.moves_succeeded = (a >> 3u) & 1u;
+  }
+  return t;
+}
+
+// tree reduction of acc[0..WG) into acc[0]; every invocation must call it (barriers)
+fn reduce_workgroup(lid: u32) {
+  workgroupBarrier();
+  for (var s: u32 = WG / 2u; s > 0u; s = s >> 1u) {
+    if (lid < s) {
+      acc[lid] = combine(acc[lid], acc[lid + s]);
+    }
+    workgroupBarrier();
+  }
+}
+
+@compute @workgroup_size(256)
+fn stats_partial(
+  @builtin(global_invocation_id) gid: vec3<u32>,
+  @builtin(local_invocation_id) lid: vec3<u32>,
+  @builtin(workgroup_id) wid: vec3<u32>,
+) {
+  acc[lid.x] = cell_totals(gid.x);
+  reduce_workgroup(lid.x);
+  if (lid.x == 0u) {
+    partials[wid.x] = acc[0];
+  }
+}
+
+@compute @workgroup_size(256)
+fn stats_final(@builtin(local_invocation_id) lid: vec3<u32>) {
+  var t: Totals;
+  for (var g: u32 = lid.x; g < U.num_groups; g = g + WG) {
+    t = combine(t, partials[g]);
+  }
+  acc[lid.x] = t;
+  reduce_workgroup(lid.x);
+  if (lid.x == 0u) {
+    totals = acc[0];
+  }
+}
+
+// --- per species ---
+
+var<workgroup> species_acc : array<SpeciesTotals, WG>;
+
+fn combine_species(a: SpeciesTotals, b: SpeciesTotals) -> SpeciesTotals {
+  var r: SpeciesTotals;
+  r.live = a.live + b.live;
+  r.births = a.births + b.births;
+  r.deaths = a.deaths + b.deaths;
+  r.energy = a.energy + b.energy;
+  return r;
+}
+
+fn cell_species_totals(i: u32) -> SpeciesTotals {
+  var t: SpeciesTotals;
+  if (i >= U.cells) { return t; }
+  let s = min(species[i], MAX_SPECIES - 1u);
+  let before = alive_mid[i];
+  let after = alive_next[i];
+  if (after == 1u) {
+    t.live[s] = 1u;
+    if (before != 1u) { t.births[s] = 1u; }
+    if (U.lcr == 1u) { t.energy[s] = energy[i]; }
+  } else if (before == 1u) {
+    t.deaths[s] = 1u;
+  }
+  return t;
+}
+
+fn reduce_species_workgroup(lid: u32) {
+  workgroupBarrier();
+  for (var s: u32 = WG / 2u; s > 0u; s = s >> 1u) {
+    if (lid < s) {
+      species_acc[lid] = combine_species(species_acc[lid], species_acc[lid + s]);
+    }
+    workgroupBarrier();
+  }
+}
+
+@compute @workgroup_size(256)
+fn species_partial(
+  @builtin(global_invocation_id) gid: vec3<u32>,
+  @builtin(local_invocation_id) lid: vec3<u32>,
+  @builtin(workgroup_id) wid: vec3<u32>,
+) {
+  species_acc[lid.x] = cell_species_totals(gid.x);
+  reduce_species_workgroup(lid.x);
+  if (lid.x == 0u) {
+    species_partials[wid.x] = species_acc[0];
+  }
+}
+
+@compute @workgroup_size(256)
+fn species_final(@builtin(local_invocation_id) lid: vec3<u32>) {
+  var t: SpeciesTotals;
+  for (var g: u32 = lid.x; g < U.num_groups; g = g + WG) {
+    t = combine_species(t, species_partials[g]);
+  }
+  species_acc[lid.x] = t;
+  reduce_species_workgroup(lid.x);
+  if (lid.x == 0u) {
+    species_totals = species_acc[0];
+  }
+}